@@ -0,0 +1,309 @@
+// Restaurant Concierge chat widget. Embed on any page with:
+//
+//   <script src="https://<concierge-host>/webchat/widget.js" data-title="Book a table" async></script>
+//
+// Optional attributes: data-socket-path (default "/webchat"), data-accent (CSS colour).
+(function widget() {
+  'use strict';
+
+  var script = document.currentScript || widget.script;
+  if (!script || window.__restaurantConciergeWidget) {
+    return;
+  }
+  // Loaded async from <head>: wait for the page body
+  if (!document.body) {
+    widget.script = script;
+    document.addEventListener('DOMContentLoaded', widget);
+    return;
+  }
+  window.__restaurantConciergeWidget = true;
+
+  var origin = new URL(script.src, window.location.href);
+  var socketUrl = (origin.protocol === 'https:' ? 'wss://' : 'ws://') + origin.host +
+    (script.getAttribute('data-socket-path') || '/webchat');
+  var title = script.getAttribute('data-title') || 'Restaurant Concierge';
+  var accent = script.getAttribute('data-accent') || '#c0392b';
+  var storageKey = 'restaurant-concierge-session:' + origin.host;
+  var typingTimeoutMs = 15000;
+
+  var css =
+    '.rc-chat-launcher{position:fixed;right:20px;bottom:20px;width:56px;height:56px;border-radius:50%;border:0;' +
+    'background:' + accent + ';color:#fff;font-size:26px;cursor:pointer;box-shadow:0 4px 12px rgba(0,0,0,.25);z-index:2147483000}' +
+    '.rc-chat-panel{position:fixed;right:20px;bottom:88px;width:340px;max-width:calc(100vw - 40px);height:480px;' +
+    'max-height:calc(100vh - 120px);display:none;flex-direction:column;background:#fff;border-radius:12px;overflow:hidden;' +
+    'box-shadow:0 8px 24px rgba(0,0,0,.25);font:14px/1.4 system-ui,sans-serif;color:#222;z-index:2147483000}' +
+    '.rc-chat-panel.rc-open{display:flex}' +
+    '.rc-chat-header{background:' + accent + ';color:#fff;padding:12px 16px;font-weight:600;display:flex;justify-content:space-between}' +
+    '.rc-chat-status{font-weight:400;font-size:12px;opacity:.85}' +
+    '.rc-chat-log{flex:1;overflow-y:auto;padding:12px;background:#f6f6f6}' +
+    '.rc-chat-msg{max-width:85%;margin:4px 0;padding:8px 12px;border-radius:12px;white-space:normal;word-wrap:break-word}' +
+    '.rc-chat-bot{background:#fff;border:1px solid #e3e3e3}' +
+    '.rc-chat-user{background:' + accent + ';color:#fff;margin-left:auto}' +
+    '.rc-chat-msg img{max-width:100%;border-radius:8px;display:block}' +
+    '.rc-chat-section{font-size:12px;color:#777;margin-top:6px}' +
+    '.rc-chat-replies{display:flex;flex-wrap:wrap;gap:6px;margin:6px 0}' +
+    '.rc-chat-reply{border:1px solid ' + accent + ';color:' + accent + ';background:#fff;border-radius:16px;padding:4px 10px;cursor:pointer;font:inherit}' +
+    '.rc-chat-typing{color:#777;font-style:italic}' +
+    '.rc-chat-form{display:flex;border-top:1px solid #e3e3e3}' +
+    '.rc-chat-form input{flex:1;border:0;padding:12px;font:inherit;outline:none}' +
+    '.rc-chat-form button{border:0;background:none;padding:0 12px;cursor:pointer;font-size:18px}';
+
+  var style = document.createElement('style');
+  style.textContent = css;
+  document.head.appendChild(style);
+
+  var launcher = element('button', 'rc-chat-launcher', '🍽️');
+  launcher.setAttribute('aria-label', 'Open chat');
+  var panel = element('div', 'rc-chat-panel');
+  var header = element('div', 'rc-chat-header', title);
+  var status = element('span', 'rc-chat-status', 'connecting…');
+  var log = element('div', 'rc-chat-log');
+  var form = element('form', 'rc-chat-form');
+  var input = element('input');
+  var locationButton = element('button', null, '📍');
+  var sendButton = element('button', null, '➤');
+
+  input.placeholder = 'Type a message…';
+  locationButton.type = 'button';
+  locationButton.title = 'Share my location';
+  sendButton.type = 'submit';
+  header.appendChild(status);
+  form.appendChild(input);
+  form.appendChild(locationButton);
+  form.appendChild(sendButton);
+  panel.appendChild(header);
+  panel.appendChild(log);
+  panel.appendChild(form);
+  document.body.appendChild(panel);
+  document.body.appendChild(launcher);
+
+  var socket = null;
+  var outbox = [];
+  var reconnectDelay = 1000;
+  var typingBubble = null;
+  var typingTimer = null;
+
+  launcher.addEventListener('click', function () {
+    panel.classList.toggle('rc-open');
+    if (panel.classList.contains('rc-open')) {
+      if (!socket) {
+        connect();
+      }
+      input.focus();
+    }
+  });
+
+  form.addEventListener('submit', function (event) {
+    event.preventDefault();
+    var text = input.value.trim();
+    if (!text) {
+      return;
+    }
+    input.value = '';
+    addMessage('user', text);
+    send({ type: 'text', id: messageId(), text: text });
+  });
+
+  locationButton.addEventListener('click', function () {
+    if (!navigator.geolocation) {
+      addMessage('bot', 'Location sharing is not available in this browser. Please type an address instead.');
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(function (position) {
+      addMessage('user', '📍 Shared my location');
+      send({
+        type: 'location',
+        id: messageId(),
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+      });
+    }, function () {
+      addMessage('bot', "I couldn't get your location. Please type an address instead.");
+    });
+  });
+
+  function connect() {
+    status.textContent = 'connecting…';
+    socket = new WebSocket(socketUrl);
+
+    socket.addEventListener('open', function () {
+      reconnectDelay = 1000;
+      socket.send(JSON.stringify({
+        type: 'hello',
+        sessionId: localStorage.getItem(storageKey) || undefined,
+        interactive: true,
+      }));
+    });
+
+    socket.addEventListener('message', function (event) {
+      var frame;
+      try {
+        frame = JSON.parse(event.data);
+      } catch (error) {
+        return;
+      }
+      handleFrame(frame);
+    });
+
+    socket.addEventListener('close', function () {
+      status.textContent = 'reconnecting…';
+      socket = null;
+      setTimeout(connect, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, 30000);
+    });
+  }
+
+  function handleFrame(frame) {
+    if (frame.type === 'session') {
+      localStorage.setItem(storageKey, frame.sessionId);
+      status.textContent = 'online';
+      while (outbox.length > 0) {
+        socket.send(JSON.stringify(outbox.shift()));
+      }
+      return;
+    }
+
+    if (frame.type === 'typing') {
+      showTyping();
+      return;
+    }
+
+    hideTyping();
+
+    switch (frame.type) {
+      case 'text':
+        addMessage('bot', frame.text);
+        break;
+      case 'buttons':
+        addMessage('bot', [frame.header, frame.text, frame.footer].filter(Boolean).join('\n\n'));
+        addReplies(frame.buttons);
+        break;
+      case 'list':
+        addMessage('bot', [frame.header, frame.text, frame.footer].filter(Boolean).join('\n\n'));
+        frame.sections.forEach(function (section) {
+          log.appendChild(element('div', 'rc-chat-section', section.title));
+          addReplies(section.rows);
+        });
+        break;
+      case 'location':
+        addLink('📍 ' + (frame.name || 'Open in Maps'),
+          'https://www.google.com/maps/search/?api=1&query=' + frame.latitude + ',' + frame.longitude);
+        break;
+      case 'image':
+        addImage(frame.link, frame.caption);
+        break;
+      case 'document':
+        addLink('📄 ' + (frame.filename || frame.caption || 'Open document'), frame.link);
+        break;
+      case 'error':
+        addMessage('bot', '⚠️ ' + frame.error);
+        break;
+    }
+  }
+
+  function send(frame) {
+    if (socket && socket.readyState === WebSocket.OPEN && status.textContent === 'online') {
+      socket.send(JSON.stringify(frame));
+    } else {
+      outbox.push(frame);
+    }
+  }
+
+  function addMessage(sender, text) {
+    var bubble = element('div', 'rc-chat-msg rc-chat-' + sender);
+    bubble.innerHTML = format(text);
+    return append(bubble);
+  }
+
+  // Quick replies disappear once one of them is picked
+  function addReplies(options) {
+    var container = element('div', 'rc-chat-replies');
+    options.forEach(function (option) {
+      var button = element('button', 'rc-chat-reply', option.title);
+      button.type = 'button';
+      if (option.description) {
+        button.title = option.description;
+      }
+      button.addEventListener('click', function () {
+        container.remove();
+        addMessage('user', option.title);
+        send({ type: 'reply', id: messageId(), replyId: option.id, title: option.title });
+      });
+      container.appendChild(button);
+    });
+    append(container);
+  }
+
+  function addLink(label, href) {
+    if (!/^https?:/i.test(href)) {
+      return;
+    }
+    var bubble = element('div', 'rc-chat-msg rc-chat-bot');
+    var link = element('a', null, label);
+    link.href = href;
+    link.target = '_blank';
+    link.rel = 'noopener';
+    bubble.appendChild(link);
+    append(bubble);
+  }
+
+  function addImage(src, caption) {
+    var bubble = element('div', 'rc-chat-msg rc-chat-bot');
+    var image = element('img');
+    image.src = src;
+    image.alt = caption || '';
+    bubble.appendChild(image);
+    if (caption) {
+      bubble.appendChild(element('div', null, caption));
+    }
+    append(bubble);
+  }
+
+  function showTyping() {
+    if (!typingBubble) {
+      typingBubble = addMessage('bot', 'typing…');
+      typingBubble.classList.add('rc-chat-typing');
+    }
+    clearTimeout(typingTimer);
+    typingTimer = setTimeout(hideTyping, typingTimeoutMs);
+  }
+
+  function hideTyping() {
+    clearTimeout(typingTimer);
+    if (typingBubble) {
+      typingBubble.remove();
+      typingBubble = null;
+    }
+  }
+
+  function append(node) {
+    log.appendChild(node);
+    log.scrollTop = log.scrollHeight;
+    return node;
+  }
+
+  // Escapes everything, then renders the **bold** and line breaks the concierge uses
+  function format(text) {
+    var escaped = String(text)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+    return escaped.replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>').replace(/\n/g, '<br>');
+  }
+
+  function element(tag, className, text) {
+    var node = document.createElement(tag);
+    if (className) {
+      node.className = className;
+    }
+    if (text) {
+      node.textContent = text;
+    }
+    return node;
+  }
+
+  function messageId() {
+    return Date.now().toString(36) + Math.random().toString(36).slice(2, 10);
+  }
+})();
@@ -4,29 +4,70 @@ import dotenv from 'dotenv';
 import fs from 'fs/promises';
 import path from 'path';
 import { RestaurantDataGenerator, GeneratedRestaurantData } from '../generators/restaurant-generator.js';
+import { captureRawBody, requireWebhookSignature } from '../utils/webhook-signature.js';
+import { WhatsAppBusinessAPI } from '../integrations/whatsapp.js';
+import { WebChatChannel } from '../channels/web-chat-channel.js';
+import { splitChannelUserId, type ChannelButton } from '../channels/messaging-channel.js';
+import { HealthMonitor, registerHealthRoutes } from '../utils/health-checks.js';
+import { auditAdminAction, requireAdmin } from '../utils/admin-auth.js';
+import { createRateLimiter, rateLimit, rateLimitNotice, tryConsume, type RateLimiter } from '../utils/rate-limiter.js';
+import { FeatureFlags, type EnhancedConfig, type FeatureFlagValues } from '../utils/config.js';
+import type { InboundMessage } from '../types/index.js';
+import { createLogger, withLogContext } from '../utils/logger.js';
+import { metrics, recordBookingStep, registerMetricsRoute } from '../utils/metrics.js';
+
+const logger = createLogger('enhanced-concierge');
 
 dotenv.config();
 
+type ChatIntent = 'search' | 'reservation' | 'help' | 'list' | 'other';
+
 export class EnhancedConciergeAgent {
+  private config: EnhancedConfig;
   private app = express();
   private restaurantCache: Map<string, GeneratedRestaurantData> = new Map();
-
-  constructor() {
+  // Resolves once the generated restaurants are in the cache
+  readonly restaurantsLoaded: Promise<void>;
+  private catalogueState: { state: 'loading' | 'loaded' | 'failed'; error?: string } = { state: 'loading' };
+  // Per sender for WhatsApp messages, per IP or API key for the HTTP API
+  private messageRateLimiter: RateLimiter;
+  private apiRateLimiter: RateLimiter;
+  private webChat: WebChatChannel;
+  // Only booking and dietary filters apply to this agent
+  private features: FeatureFlags;
+
+  constructor(config: EnhancedConfig) {
+    this.config = config;
+    this.messageRateLimiter = createRateLimiter({ ...config.redis, limit: config.rateLimits.userMessagesPerMinute });
+    this.apiRateLimiter = createRateLimiter({ ...config.redis, limit: config.rateLimits.requestsPerMinute });
+    this.webChat = new WebChatChannel({ allowedOrigins: config.webChat.allowedOrigins });
+    this.features = new FeatureFlags(config.features, config.featureFlagsPath);
+    try {
+      this.features.load();
+    } catch (error) {
+      logger.error('Failed to load feature flag overrides; using the environment values', { error });
+    }
+    this.webChat.onInbound(async (messages) => {
+      for (const message of messages) {
+        await this.handleWebChatMessage(message);
+      }
+    });
     this.setupMiddleware();
     this.setupRoutes();
-    this.loadRestaurantData();
+    this.restaurantsLoaded = this.loadRestaurantData();
   }
 
   private setupMiddleware(): void {
+    this.app.set('trust proxy', this.config.trustProxy);
     this.app.use(cors());
-    this.app.use(express.json());
+    this.app.use(express.json({ verify: captureRawBody }));
     this.app.use(express.urlencoded({ extended: true }));
   }
 
   private async loadRestaurantData(): Promise<void> {
     try {
       const restaurants = await RestaurantDataGenerator.listGeneratedRestaurants();
-      console.log(`📋 Loading ${restaurants.length} generated restaurants...`);
+      logger.info('Loading generated restaurants', { count: restaurants.length });
 
       for (const filename of restaurants) {
         try {
@@ -35,29 +76,33 @@ export class EnhancedConciergeAgent {
           const data = await RestaurantDataGenerator.loadRestaurantData(filepath);
           
           this.restaurantCache.set(data.restaurant.name.toLowerCase(), data);
-          console.log(`   ✅ Loaded: ${data.restaurant.name}`);
+          logger.debug('Loaded restaurant', { restaurant: data.restaurant.name });
         } catch (error) {
-          console.log(`   ❌ Failed to load ${filename}:`, error);
+          logger.warn('Failed to load restaurant file', { filename, error });
         }
       }
 
-      console.log(`🎉 Restaurant cache ready with ${this.restaurantCache.size} restaurants\n`);
+      logger.info('Restaurant cache ready', { restaurants: this.restaurantCache.size });
+      metrics.restaurantCatalogueSize.set(this.restaurantCache.size);
+      this.catalogueState = { state: 'loaded' };
     } catch (error) {
-      console.log('📋 No restaurants found in cache, generate some with:');
-      console.log('   npm run generate:restaurant "Restaurant Name" "Address"\n');
+      this.catalogueState = { state: 'failed', error: error instanceof Error ? error.message : String(error) };
+      logger.warn('No generated restaurants found; generate some with npm run generate:restaurant "Restaurant Name" "Address"', { error });
     }
   }
 
   private setupRoutes(): void {
-    // Health check
-    this.app.get('/health', (req, res) => {
-      res.json({ 
-        status: 'healthy', 
-        timestamp: new Date().toISOString(),
-        service: 'enhanced-restaurant-concierge-agent',
-        restaurantsLoaded: this.restaurantCache.size,
-      });
-    });
+    // Ready once the restaurant catalogue has loaded
+    registerHealthRoutes(this.app, new HealthMonitor('enhanced-restaurant-concierge-agent', [{
+      name: 'restaurantCatalogue',
+      check: async () => {
+        if (this.catalogueState.state !== 'loaded') {
+          throw new Error(this.catalogueState.error || this.catalogueState.state);
+        }
+        return { restaurants: this.restaurantCache.size };
+      },
+    }]));
+    registerMetricsRoute(this.app);
 
     // WhatsApp webhook verification
     this.app.get('/webhook/whatsapp', (req, res) => {
@@ -65,29 +110,38 @@ export class EnhancedConciergeAgent {
       const token = req.query['hub.verify_token'] as string;
       const challenge = req.query['hub.challenge'] as string;
 
-      if (mode === 'subscribe' && token === process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN) {
-        console.log('WhatsApp webhook verified successfully');
+      const verifyToken = this.config.webhookVerifyToken;
+      if (mode === 'subscribe' && verifyToken && token === verifyToken) {
+        logger.info('WhatsApp webhook verified');
         return res.status(200).send(challenge);
       } else {
-        console.log('WhatsApp webhook verification failed');
+        logger.warn('WhatsApp webhook verification failed');
         return res.status(403).send('Verification failed');
       }
     });
 
     // Enhanced WhatsApp message handler
-    this.app.post('/webhook/whatsapp', async (req, res) => {
+    this.app.post('/webhook/whatsapp', requireWebhookSignature(this.config.webhookSecret), async (req, res) => {
       try {
-        console.log('Received WhatsApp webhook:', JSON.stringify(req.body, null, 2));
+        const { messages, statuses } = WhatsAppBusinessAPI.parseWebhookEvents(req.body);
+        logger.debug('Received WhatsApp webhook', { messages: messages.length, statuses: statuses.length });
         
-        const entry = req.body.entry?.[0];
-        const change = entry?.changes?.[0];
-        const message = change?.value?.messages?.[0];
-        
-        if (message && message.text) {
+        for (const message of messages) {
+          if (!message.text) {
+            continue;
+          }
+
+          metrics.inboundMessages.inc({ channel: 'whatsapp', type: message.type });
+          // A flooding sender gets told to slow down rather than silence
+          const limit = await tryConsume(this.messageRateLimiter, 'messages', message.from);
           const messageText = message.text.body.toLowerCase();
-          const response = await this.processMessage(messageText, message.from);
+          const response = limit && !limit.allowed
+            ? rateLimitNotice(limit)
+            : await withLogContext({ correlationId: message.id, channel: 'whatsapp' }, () =>
+              this.processMessage(messageText, message.from)
+            );
           
-          console.log('Generated response:', response);
+          logger.info('Generated response', { correlationId: message.id, length: response.length });
           
           // In a real implementation, you would send this via WhatsApp API
           // For now, just log it
@@ -95,13 +149,13 @@ export class EnhancedConciergeAgent {
         
         res.status(200).send('OK');
       } catch (error) {
-        console.error('Error processing WhatsApp message:', error);
+        logger.error('Error processing WhatsApp message', { error });
         res.status(500).json({ error: 'Internal server error' });
       }
     });
 
     // API endpoint to search restaurants
-    this.app.get('/api/restaurants/search', (req, res) => {
+    this.app.get('/api/restaurants/search', rateLimit('api', this.apiRateLimiter), (req, res) => {
       const { q, cuisine, priceLevel } = req.query;
       const results = this.searchRestaurants(q as string, {
         cuisine: cuisine as string,
@@ -122,6 +176,7 @@ export class EnhancedConciergeAgent {
       const restaurant = this.restaurantCache.get(restaurantName);
 
       if (restaurant) {
+        recordBookingStep('details_viewed');
         res.json({
           success: true,
           restaurant: restaurant,
@@ -153,7 +208,7 @@ export class EnhancedConciergeAgent {
     });
 
     // API endpoint for n8n chat integration
-    this.app.post('/api/chat', async (req, res) => {
+    this.app.post('/api/chat', rateLimit('api', this.apiRateLimiter), async (req, res) => {
       try {
         const { message, phone } = req.body;
         
@@ -164,6 +219,7 @@ export class EnhancedConciergeAgent {
           });
         }
 
+        metrics.inboundMessages.inc({ channel: 'api', type: 'text' });
         const response = await this.processMessage(message.toLowerCase(), phone || 'n8n-test');
         
         res.json({
@@ -173,7 +229,7 @@ export class EnhancedConciergeAgent {
           phone: phone,
         });
       } catch (error) {
-        console.error('Error processing chat message:', error);
+        logger.error('Error processing chat message', { error });
         res.status(500).json({
           success: false,
           error: 'Internal server error',
@@ -181,8 +237,15 @@ export class EnhancedConciergeAgent {
       }
     });
 
-    // API endpoint for reservations (mock)
-    this.app.post('/api/reservations/book', (req, res) => {
+    // API endpoint for reservations (mock); needs an operator JWT
+    this.app.post('/api/reservations/book', auditAdminAction('reservation.book'), requireAdmin('operator'), (req, res) => {
+      if (!this.features.isEnabled('reservationBooking')) {
+        return res.status(503).json({
+          success: false,
+          error: 'Reservation booking is disabled',
+        });
+      }
+
       const { restaurantName, date, time, partySize, customerName } = req.body;
       
       const restaurant = this.restaurantCache.get(restaurantName?.toLowerCase());
@@ -206,6 +269,7 @@ export class EnhancedConciergeAgent {
         createdAt: new Date().toISOString(),
       };
 
+      recordBookingStep('confirmed');
       res.json({
         success: true,
         message: 'Reservation booked successfully!',
@@ -213,6 +277,9 @@ export class EnhancedConciergeAgent {
       });
     });
 
+    // Embeddable chat widget and a demo page; the widget talks to the web chat socket
+    this.app.use('/webchat', express.static(path.join(process.cwd(), 'public', 'webchat')));
+
     // 404 handler
     this.app.use('*', (req, res) => {
       res.status(404).json({ error: 'Not found' });
@@ -220,29 +287,105 @@ export class EnhancedConciergeAgent {
 
     // Error handler
     this.app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
-      console.error('Unhandled error:', err);
+      logger.error('Unhandled error', { error: err });
       res.status(500).json({ 
         error: 'Internal server error',
-        message: process.env.NODE_ENV === 'development' ? err.message : 'Something went wrong'
+        message: this.config.environment === 'development' ? err.message : 'Something went wrong'
       });
     });
   }
 
-  private async processMessage(messageText: string, from: string): Promise<string> {
-    console.log(`🤖 Processing message from ${from}: "${messageText}"`);
+  // The conversation engine behind every entry point; expects lower-cased text
+  async processMessage(messageText: string, from: string): Promise<string> {
+    const intent = this.detectIntent(messageText);
+    logger.info('Processing message', { intent });
+    metrics.intents.inc({ intent });
+
+    switch (intent) {
+      case 'search':
+        return this.handleRestaurantSearch(messageText);
+      case 'reservation':
+        if (!this.features.isEnabled('reservationBooking')) {
+          return `Sorry, I can't book tables right now. Please contact the restaurant directly.\n\n${this.listAvailableRestaurants()}`;
+        }
+        recordBookingStep('booking_started');
+        return this.handleReservationRequest(messageText);
+      case 'help':
+        return this.getHelpMessage();
+      case 'list':
+        return this.listAvailableRestaurants();
+      default:
+        return this.getDefaultResponse(messageText);
+    }
+  }
 
-    // Simple intent detection
+  // Simple intent detection
+  private detectIntent(messageText: string): ChatIntent {
     if (messageText.includes('find') || messageText.includes('search') || messageText.includes('restaurant')) {
-      return this.handleRestaurantSearch(messageText);
+      return 'search';
     } else if (messageText.includes('book') || messageText.includes('reservation') || messageText.includes('table')) {
-      return this.handleReservationRequest(messageText);
+      return 'reservation';
     } else if (messageText.includes('help') || messageText === 'hi' || messageText === 'hello') {
-      return this.getHelpMessage();
+      return 'help';
     } else if (messageText.includes('list') || messageText.includes('show')) {
-      return this.listAvailableRestaurants();
-    } else {
-      return this.getDefaultResponse(messageText);
+      return 'list';
+    }
+    return 'other';
+  }
+
+  // Web chat runs the same engine as /api/chat, with a typing indicator while
+  // it works and quick replies for the likely next step
+  private async handleWebChatMessage(message: InboundMessage): Promise<void> {
+    const sessionId = splitChannelUserId(message.from).id;
+    await withLogContext({ correlationId: message.id, channel: 'webchat', sessionId }, () =>
+      this.replyToWebChat(message, sessionId)
+    );
+  }
+
+  private async replyToWebChat(message: InboundMessage, sessionId: string): Promise<void> {
+    metrics.inboundMessages.inc({ channel: 'webchat', type: message.type });
+    const text = message.interactive?.button_reply?.id || message.text?.body;
+
+    if (!text) {
+      await this.webChat.sendText(sessionId, "I can only read text messages here. Try \"Find Italian restaurants\" or \"List restaurants\".");
+      return;
+    }
+
+    await this.webChat.sendTypingIndicator(sessionId);
+    const messageText = text.toLowerCase();
+    const response = await this.processMessage(messageText, message.from);
+    const quickReplies = this.quickReplies(this.detectIntent(messageText));
+    if (quickReplies.length === 0) {
+      await this.webChat.sendText(sessionId, response);
+      return;
     }
+    await this.webChat.sendButtons(sessionId, response, quickReplies);
+  }
+
+  // Reply ids are the message text a tap sends back
+  private quickReplies(intent: ChatIntent): ChannelButton[] {
+    if (intent === 'list') {
+      return Array.from(this.restaurantCache.values())
+        .sort((a, b) => b.restaurant.rating - a.restaurant.rating)
+        .slice(0, 3)
+        .map(data => ({ id: `tell me about ${data.restaurant.name.toLowerCase()}`, title: `ℹ️ ${data.restaurant.name}` }));
+    }
+
+    if (intent === 'search' || intent === 'reservation') {
+      return [
+        { id: 'list all', title: '📋 All restaurants' },
+        this.features.isEnabled('dietaryRestrictions')
+          ? { id: 'find vegetarian restaurants', title: '🥬 Vegetarian' }
+          : { id: 'find italian restaurants', title: '🍝 Italian food' },
+        { id: 'help', title: '❓ Help' },
+      ];
+    }
+
+    return [
+      { id: 'list all', title: '📋 List restaurants' },
+      { id: 'find italian restaurants', title: '🍝 Italian food' },
+      { id: 'help', title: '❓ Help' },
+    ];
   }
 
   private handleRestaurantSearch(messageText: string): string {
@@ -375,7 +518,9 @@ export class EnhancedConciergeAgent {
     }
 
     // Dietary options detection
-    const dietaryOptions = ['vegetarian', 'vegan', 'gluten-free', 'halal', 'kosher', 'dairy-free', 'nut-free'];
+    const dietaryOptions = this.features.isEnabled('dietaryRestrictions')
+      ? ['vegetarian', 'vegan', 'gluten-free', 'halal', 'kosher', 'dairy-free', 'nut-free']
+      : [];
     for (const dietary of dietaryOptions) {
       if (queryLower.includes(dietary)) {
         filters.dietary = dietary;
@@ -515,16 +660,17 @@ export class EnhancedConciergeAgent {
   }
 
   private getHelpMessage(): string {
+    const booking = this.features.isEnabled('reservationBooking');
     return `👋 Welcome to your AI Restaurant Concierge!\n\n` +
            `I can help you:\n` +
            `🔍 **Find Restaurants**: "Find Italian restaurants" or "Search sushi"\n` +
-           `📅 **Make Reservations**: "Book at [Restaurant] for 4 people tonight at 7 PM"\n` +
+           (booking ? `📅 **Make Reservations**: "Book at [Restaurant] for 4 people tonight at 7 PM"\n` : '') +
            `📋 **List Options**: "Show me restaurants" or "List all restaurants"\n` +
            `ℹ️ **Get Details**: Just mention a restaurant name\n\n` +
            `**Available Commands:**\n` +
            `• "List restaurants" - Show all available restaurants\n` +
            `• "Find [cuisine]" - Search by cuisine type\n` +
-           `• "Book at [name]" - Start reservation process\n` +
+           (booking ? `• "Book at [name]" - Start reservation process\n` : '') +
            `• "Help" - Show this message\n\n` +
            `Currently serving ${this.restaurantCache.size} restaurants! 🍽️`;
   }
@@ -546,30 +692,39 @@ export class EnhancedConciergeAgent {
              `🍴 ${restaurant.cuisine.join(', ')} • ${'💰'.repeat(restaurant.priceLevel)}\n` +
              `⭐ ${restaurant.rating}/5 stars\n` +
              `🔥 Popular: ${popular}\n\n` +
-             `Want to book a table? Just say: "Book at ${restaurant.name} for [party size] on [date]"`;
+             (this.features.isEnabled('reservationBooking')
+               ? `Want to book a table? Just say: "Book at ${restaurant.name} for [party size] on [date]"`
+               : `📞 To book, call ${restaurant.phone || 'the restaurant'}`);
     }
 
-    return `I'm your AI restaurant concierge! I can help you find restaurants and make reservations.\n\n` +
+    const booking = this.features.isEnabled('reservationBooking');
+    return `I'm your AI restaurant concierge! I can help you find restaurants${booking ? ' and make reservations' : ''}.\n\n` +
            `Try saying:\n` +
            `• "Find Italian restaurants"\n` +
            `• "List restaurants"\n` +
-           `• "Book a table at [restaurant name]"\n` +
+           (booking ? `• "Book a table at [restaurant name]"\n` : '') +
            `• "Help" for more options\n\n` +
            `Currently serving ${this.restaurantCache.size} restaurants! 🍽️`;
   }
 
-  async start(port = 3000): Promise<void> {
-    this.app.listen(port, () => {
-      console.log(`🚀 Enhanced Restaurant Concierge Agent listening on port ${port}`);
-      console.log(`📱 WhatsApp webhook URL: ${process.env.WEBHOOK_BASE_URL || `http://localhost:${port}`}/webhook/whatsapp`);
-      console.log(`🏥 Health check: http://localhost:${port}/health`);
-      console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
-      console.log(`🍽️  Loaded restaurants: ${this.restaurantCache.size}`);
-      console.log(`\n🎯 API Endpoints:`);
-      console.log(`   GET  /api/restaurants - List all restaurants`);
-      console.log(`   GET  /api/restaurants/search?q=... - Search restaurants`);
-      console.log(`   GET  /api/restaurants/:name - Get restaurant details`);
-      console.log(`   POST /api/reservations/book - Book a reservation\n`);
+  // Re-reads the feature flag overrides file; keeps the current flags if it is invalid
+  reloadFeatureFlags(): FeatureFlagValues {
+    const features = this.features.load();
+    logger.info('Feature flags reloaded', { features });
+    return features;
+  }
+
+  async start(port = this.config.port): Promise<void> {
+    const server = this.app.listen(port, () => {
+      logger.info('Enhanced Restaurant Concierge Agent listening', {
+        port,
+        whatsappWebhookUrl: `${this.config.publicBaseUrl || `http://localhost:${port}`}/webhook/whatsapp`,
+        healthCheckUrl: `http://localhost:${port}/health/ready`,
+        webChatDemoUrl: `http://localhost:${port}/webchat/`,
+        environment: this.config.environment,
+        restaurants: this.restaurantCache.size,
+      });
     });
+    this.webChat.attach(server);
   }
 }
\ No newline at end of file
@@ -1,118 +1,426 @@
-import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
-import { spawn } from 'child_process';
 import type { 
+  InboundMessage,
   WhatsAppMessage, 
+  WhatsAppInteractiveReply,
+  WhatsAppWebhookEvents,
   ConversationContext, 
   Restaurant, 
   CustomerPreferences,
   DietaryRestrictionType
 } from '../types/index.js';
-import { WhatsAppBusinessAPI } from '../integrations/whatsapp.js';
+import { WhatsAppBusinessAPI, type WhatsAppBusinessConfig } from '../integrations/whatsapp.js';
+import { WhatsAppReengagementRequiredError } from '../integrations/whatsapp-errors.js';
+import type { SendMetricsSnapshot } from '../integrations/send-metrics.js';
+import { ChannelRouter, type MessagingChannel } from '../channels/messaging-channel.js';
+import { WhatsAppChannel } from '../channels/whatsapp-channel.js';
+import { ConciergeMessenger } from '../channels/concierge-messenger.js';
+import {
+  TemplateRegistry,
+  isWithinCustomerServiceWindow,
+  type TemplateName,
+  type TemplateParameters,
+} from '../integrations/template-registry.js';
 import { DietaryRestrictionsHandler } from '../utils/dietary-restrictions.js';
+import { InMemorySessionStore, type SessionStore } from '../utils/session-store.js';
+import { InMemoryMessageDeduplicator, type MessageDeduplicator } from '../utils/message-deduplicator.js';
+import { MessageQueue, isTransientError, type MessageJobStore } from '../utils/message-queue.js';
+import {
+  ReservationDialog,
+  type ReservationDialogResult,
+  type ReservationSlotValues,
+} from '../utils/reservation-dialog.js';
+import { createIntentParser, type IntentParser, type IntentSlots } from '../utils/intent-parser.js';
+import { DateTimeResolver } from '../utils/date-time-resolver.js';
+import type { SpeechToText } from '../utils/speech-to-text.js';
+import { extractDishNames, type MenuTextExtractor } from '../utils/menu-reader.js';
+import {
+  createStdioToolProviders,
+  type McpServerName,
+  type McpToolClient,
+  type ToolProviderStatus,
+  type ToolProviders,
+} from '../utils/tool-providers.js';
+import { createLogger, currentLogContext, withLogContext } from '../utils/logger.js';
+import { metrics, recordBookingStep } from '../utils/metrics.js';
+import type { AdminBackend, CustomerRecord, ReservationHistoryEntry } from '../utils/admin-api.js';
+import { rateLimitNotice, tryConsume, type RateLimiter } from '../utils/rate-limiter.js';
+import { FeatureFlags, type FeatureFlagValues } from '../utils/config.js';
+
+const logger = createLogger('restaurant-concierge');
 
 export interface AgentConfig {
-  whatsapp: {
-    accessToken: string;
-    phoneNumberId: string;
-    businessAccountId: string;
-    webhookVerifyToken: string;
-  };
+  whatsapp: WhatsAppBusinessConfig;
+  // Additional channels (Telegram, web chat). WhatsApp is always available;
+  // a channel named 'whatsapp' here replaces the Cloud API one.
+  channels?: MessagingChannel[];
+  // Where the MCP tools come from; defaults to spawning the bundled servers.
+  // Features whose provider is left out are reported as unavailable.
+  toolProviders?: ToolProviders;
   openai?: {
     apiKey: string;
-    model: string;
+    model?: string;
+    baseUrl?: string;
   };
   anthropic?: {
     apiKey: string;
+    model?: string;
+    baseUrl?: string;
+  };
+  sessionStore?: SessionStore;
+  messageDeduplicator?: MessageDeduplicator;
+  messageJobStore?: MessageJobStore;
+  messageRetry?: {
+    maxAttempts?: number;
+    baseDelayMs?: number;
   };
+  intentParser?: IntentParser;
+  // Clock and timezone used to reject reservation slots in the past
+  dateTimeResolver?: DateTimeResolver;
+  // For users who haven't shared one; ignored when dateTimeResolver is given
+  timezone?: string;
+  speechToText?: SpeechToText;
+  // Used for menu photos while the menuAnalysis flag is on
+  menuTextExtractor?: MenuTextExtractor;
+  templateRegistry?: TemplateRegistry;
+  // Per-user message budget across all channels; unlimited when unset
+  messageRateLimiter?: RateLimiter;
+  // Checked on every message, so reloading them changes behaviour mid-conversation;
+  // defaults to FEATURE_DEFAULTS
+  featureFlags?: FeatureFlags;
+}
+
+// What the customer preferences server's read tools return
+type CustomerPreferencesResult = { found: false; message: string } | { found: true; preferences: CustomerPreferences };
+
+interface ReservationHistoryResult {
+  userId: string;
+  totalReservations: number;
+  reservations: ReservationHistoryEntry[];
 }
 
-export class RestaurantConciergeAgent {
+// Keeps the menu analysis reply well under WhatsApp's message size limit
+const MAX_DISHES_PER_SECTION = 15;
+
+// Bounds how long a hung MCP server can hold up a user's queue
+const MCP_TOOL_TIMEOUT_MS = 15000;
+
+export class RestaurantConciergeAgent implements AdminBackend {
   private whatsapp: WhatsAppBusinessAPI;
-  private googlePlacesClient?: Client;
-  private openTableClient?: Client;
-  private customerPrefsClient?: Client;
-  private conversations: Map<string, ConversationContext> = new Map();
+  private whatsappChannel: WhatsAppChannel;
+  private messenger: ConciergeMessenger;
+  private googlePlacesClient?: McpToolClient;
+  private openTableClient?: McpToolClient;
+  private customerPrefsClient?: McpToolClient;
+  private toolProviders: ToolProviders;
+  private sessionStore: SessionStore;
+  private messageDeduplicator: MessageDeduplicator;
+  readonly messageQueue: MessageQueue;
+  private reservationDialog: ReservationDialog;
+  private intentParser: IntentParser;
+  private dateTimeResolver: DateTimeResolver;
+  private speechToText?: SpeechToText;
+  private menuTextExtractor?: MenuTextExtractor;
+  private templateRegistry: TemplateRegistry;
+  private messageRateLimiter?: RateLimiter;
+  private features: FeatureFlags;
+  // When each flooding user may be sent another rate limit notice
+  private rateLimitNoticeUntil: Map<string, number> = new Map();
 
   constructor(config: AgentConfig) {
     this.whatsapp = new WhatsAppBusinessAPI(config.whatsapp);
-    this.initializeMCPClients();
+    this.whatsappChannel = new WhatsAppChannel(this.whatsapp);
+    const router = new ChannelRouter([this.whatsappChannel, ...(config.channels || [])]);
+    for (const channel of router.list()) {
+      channel.onInbound((messages) => this.handleInboundMessages(messages));
+    }
+    this.features = config.featureFlags || new FeatureFlags();
+    this.messenger = new ConciergeMessenger(router, this.features);
+    this.sessionStore = config.sessionStore || new InMemorySessionStore();
+    this.messageDeduplicator = config.messageDeduplicator || new InMemoryMessageDeduplicator();
+    this.messageQueue = new MessageQueue((message) => this.processIncomingMessage(message), {
+      store: config.messageJobStore,
+      maxAttempts: config.messageRetry?.maxAttempts,
+      baseDelayMs: config.messageRetry?.baseDelayMs,
+      onDeadLetter: (job) => this.sendProcessingFailure(job.message.from),
+    });
+    this.dateTimeResolver = config.dateTimeResolver || new DateTimeResolver(config.timezone);
+    this.intentParser = config.intentParser || createIntentParser({ ...config, dateTimeResolver: this.dateTimeResolver });
+    this.speechToText = config.speechToText;
+    this.menuTextExtractor = config.menuTextExtractor;
+    this.templateRegistry = config.templateRegistry || new TemplateRegistry();
+    this.messageRateLimiter = config.messageRateLimiter;
+    this.reservationDialog = new ReservationDialog(
+      (text, context) => this.extractReservationSlots(text, context),
+      async (date, time, context) => this.dateTimeResolver.hasPassed(date, time, await this.getUserTimezone(context))
+    );
+
+    this.toolProviders = config.toolProviders || createStdioToolProviders();
+    this.googlePlacesClient = this.toolProviders.googlePlaces;
+    this.openTableClient = this.toolProviders.openTable;
+    this.customerPrefsClient = this.toolProviders.customerPreferences;
   }
 
-  private async initializeMCPClients(): Promise<void> {
-    try {
-      // Initialize Google Places MCP client
-      const googlePlacesProcess = spawn('node', ['dist/mcp-servers/google-places.js'], {
-        env: { ...process.env },
-      });
-      const googlePlacesTransport = new StdioClientTransport({
-        reader: googlePlacesProcess.stdout,
-        writer: googlePlacesProcess.stdin,
-      });
-      this.googlePlacesClient = new Client({ name: 'restaurant-concierge', version: '1.0.0' }, { capabilities: {} });
-      await this.googlePlacesClient.connect(googlePlacesTransport);
+  // Starts the MCP tool providers. A provider that fails to start doesn't
+  // stop the others; its status says why, and supervised ones keep retrying.
+  async init(): Promise<Partial<Record<McpServerName, ToolProviderStatus>>> {
+    const entries = Object.entries(this.toolProviders) as Array<[McpServerName, ToolProviders[McpServerName]]>;
+    const results = await Promise.allSettled(entries.map(([, provider]) => provider!.start()));
 
-      // Initialize OpenTable MCP client
-      const openTableProcess = spawn('node', ['dist/mcp-servers/opentable.js'], {
-        env: { ...process.env },
-      });
-      const openTableTransport = new StdioClientTransport({
-        reader: openTableProcess.stdout,
-        writer: openTableProcess.stdin,
-      });
-      this.openTableClient = new Client({ name: 'restaurant-concierge', version: '1.0.0' }, { capabilities: {} });
-      await this.openTableClient.connect(openTableTransport);
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        logger.error('Failed to start MCP server', { server: entries[index][0], error: result.reason });
+      }
+    });
 
-      // Initialize Customer Preferences MCP client
-      const customerPrefsProcess = spawn('node', ['dist/mcp-servers/customer-preferences.js'], {
-        env: { ...process.env },
-      });
-      const customerPrefsTransport = new StdioClientTransport({
-        reader: customerPrefsProcess.stdout,
-        writer: customerPrefsProcess.stdin,
-      });
-      this.customerPrefsClient = new Client({ name: 'restaurant-concierge', version: '1.0.0' }, { capabilities: {} });
-      await this.customerPrefsClient.connect(customerPrefsTransport);
+    return this.getToolProviderStatus();
+  }
 
-      console.log('MCP clients initialized successfully');
+  getToolProviderStatus(): Partial<Record<McpServerName, ToolProviderStatus>> {
+    const status: Partial<Record<McpServerName, ToolProviderStatus>> = {};
+    for (const [name, provider] of Object.entries(this.toolProviders) as Array<[McpServerName, ToolProviders[McpServerName]]>) {
+      status[name] = provider!.status();
+    }
+    return status;
+  }
+
+  async close(): Promise<void> {
+    await Promise.allSettled(Object.values(this.toolProviders).map(provider => provider.stop()));
+  }
+
+  // Resolves once every new message is safely queued (see handleInboundMessages)
+  async handleWebhookEvents(events: WhatsAppWebhookEvents): Promise<void> {
+    await this.whatsappChannel.receive(events);
+  }
+
+  // The queue handles each user's messages strictly in order so they don't
+  // race on one ConversationContext, while different users are handled concurrently
+  async handleInboundMessages(messages: InboundMessage[]): Promise<void> {
+    const sorted = [...messages].sort((a, b) => a.timestamp - b.timestamp);
+    for (const message of sorted) {
+      // Webhooks get redelivered when the sender thinks we missed them; queue each message once
+      if (!(await this.messageDeduplicator.markIfNew(message.id))) {
+        logger.info('Skipping duplicate message', { channel: message.channel, correlationId: message.id });
+        continue;
+      }
+
+      if (!(await this.withinMessageRateLimit(message))) {
+        continue;
+      }
+
+      try {
+        await this.messageQueue.enqueue(message);
+        metrics.inboundMessages.inc({ channel: message.channel, type: message.type });
+      } catch (error) {
+        // Let the redelivery through, since this attempt never made it into the queue
+        await this.messageDeduplicator.release(message.id);
+        throw error;
+      }
+    }
+  }
+
+  // Messages over the user's budget are dropped with a notice, sent at most
+  // once per window so the notices don't turn into a flood of their own
+  private async withinMessageRateLimit(message: InboundMessage): Promise<boolean> {
+    const result = this.messageRateLimiter && await tryConsume(this.messageRateLimiter, 'messages', message.from);
+    if (!result || result.allowed) {
+      return true;
+    }
+
+    logger.warn('Dropping message over the rate limit', { channel: message.channel, correlationId: message.id });
+    const now = Date.now();
+    if ((this.rateLimitNoticeUntil.get(message.from) || 0) > now) {
+      return false;
+    }
+    for (const [userId, until] of this.rateLimitNoticeUntil) {
+      if (until <= now) {
+        this.rateLimitNoticeUntil.delete(userId);
+      }
+    }
+    this.rateLimitNoticeUntil.set(message.from, now + result.retryAfterMs);
+
+    try {
+      await this.messenger.sendTextMessage(message.from, rateLimitNotice(result));
     } catch (error) {
-      console.error('Failed to initialize MCP clients:', error);
+      logger.warn('Failed to send rate limit notice', { correlationId: message.id, error });
+    }
+    return false;
+  }
+
+  // Sends a notification the user didn't prompt, e.g. a reminder: as plain
+  // text while the 24h window is open, as the approved template after that.
+  // Other channels have no such window and always get the plain text.
+  async notifyUser<K extends TemplateName>(
+    userId: string,
+    template: K,
+    params: TemplateParameters[K]
+  ): Promise<{ messageId: string; via: 'session' | 'template' }> {
+    const context = await this.sessionStore.get(userId);
+
+    if (this.messenger.channelOf(userId) !== 'whatsapp' || isWithinCustomerServiceWindow(context?.messageHistory)) {
+      const text = this.templateRegistry.renderSessionText(template, params);
+      try {
+        const { messageId } = await this.messenger.sendTextMessage(userId, text);
+        return { messageId, via: 'session' };
+      } catch (error) {
+        // Our history can be stale (e.g. another instance); WhatsApp has the final say
+        if (!(error instanceof WhatsAppReengagementRequiredError)) {
+          throw error;
+        }
+      }
     }
+
+    const { messageId } = await this.whatsapp.sendTemplate(userId, this.templateRegistry.build(template, params));
+    return { messageId, via: 'template' };
   }
 
+  getSendMetrics(): SendMetricsSnapshot {
+    return this.whatsapp.sendMetrics.snapshot();
+  }
+
+  async verifyWhatsAppCredentials(): Promise<{ displayPhoneNumber?: string; verifiedName?: string }> {
+    return this.whatsapp.verifyCredentials();
+  }
+
+  // Operator access for the admin API (see registerAdminRoutes)
+  async listConversations(): Promise<ConversationContext[]> {
+    return this.sessionStore.list();
+  }
+
+  async getConversation(userId: string): Promise<ConversationContext | null> {
+    return this.sessionStore.get(userId);
+  }
+
+  async clearConversation(userId: string): Promise<boolean> {
+    if (!(await this.sessionStore.get(userId))) {
+      return false;
+    }
+    await this.sessionStore.delete(userId);
+    return true;
+  }
+
+  async getCustomerRecord(userId: string): Promise<CustomerRecord> {
+    const [preferences, history] = await Promise.all([
+      this.readCustomerPreferencesTool<CustomerPreferencesResult>('get_customer_preferences', { userId }),
+      this.readCustomerPreferencesTool<ReservationHistoryResult>('get_reservation_history', { userId, limit: 50 }),
+    ]);
+    return {
+      preferences: preferences.found ? preferences.preferences : null,
+      reservationHistory: history.reservations,
+    };
+  }
+
+  // Sent as-is through the user's channel, outside the conversation flow
+  async sendAgentMessage(userId: string, text: string): Promise<{ messageId: string }> {
+    const { messageId } = await this.messenger.sendTextMessage(userId, text);
+    return { messageId };
+  }
+
+  getFeatureFlags(): FeatureFlagValues {
+    return this.features.all();
+  }
+
+  reloadFeatureFlags(): FeatureFlagValues {
+    const features = this.features.load();
+    logger.info('Feature flags reloaded', { features });
+    return features;
+  }
+
+  // The JSON text content of a customer preferences tool result
+  private async readCustomerPreferencesTool<T>(name: string, args: Record<string, unknown>): Promise<T> {
+    if (!this.customerPrefsClient) {
+      throw new Error('Customer preferences are unavailable');
+    }
+
+    const result = await this.customerPrefsClient.callTool({ name, arguments: args }, undefined, this.mcpRequestOptions());
+    const text = (result.content as Array<{ text?: string }>)[0]?.text || '';
+    if (result.isError) {
+      throw new Error(text);
+    }
+    return JSON.parse(text) as T;
+  }
+
+  // Handles a single message immediately, outside the queue
   async handleIncomingMessage(message: WhatsAppMessage): Promise<void> {
+    if (!(await this.messageDeduplicator.markIfNew(message.id))) {
+      logger.info('Skipping duplicate message', { channel: 'whatsapp', correlationId: message.id });
+      return;
+    }
+
     try {
-      // Mark message as read
-      await this.whatsapp.markMessageAsRead(message.id);
+      await this.processIncomingMessage(message);
+    } catch (error) {
+      logger.error('Error handling incoming message', { correlationId: message.id, error });
+      await this.sendProcessingFailure(message.from);
+    }
+  }
 
-      // Get or create conversation context
-      const context = this.getOrCreateContext(message.from);
-      context.messageHistory.push(message);
-      context.updatedAt = new Date();
+  // Throws on failure so the queue can decide whether to retry. Everything
+  // logged while handling the message, MCP calls included, carries its id.
+  private async processIncomingMessage(message: WhatsAppMessage): Promise<void> {
+    const channel = this.messenger.channelOf(message.from);
+    return withLogContext({ correlationId: message.id, channel }, async () => {
+      logger.info('Handling message', { type: message.type, from: message.from });
+      let context: ConversationContext | undefined;
+
+      try {
+        // Mark message as read
+        await this.messenger.markAsRead(message);
+        await this.messenger.sendTypingIndicator(message.from);
+
+        // Get or create conversation context; a retried message is already in the history
+        context = await this.getOrCreateContext(message.from);
+        if (!context.messageHistory.some(m => m.id === message.id)) {
+          context.messageHistory.push(message);
+        }
+        context.updatedAt = new Date();
 
-      // Process the message based on type and content
-      await this.processMessage(message, context);
+        // Process the message based on type and content
+        const conversation = context;
+        await withLogContext({ sessionId: conversation.sessionId }, () => this.processMessage(message, conversation));
 
-    } catch (error) {
-      console.error('Error handling incoming message:', error);
-      await this.whatsapp.sendTextMessage(
-        message.from,
-        "I'm sorry, I encountered an error processing your message. Please try again or type 'help' for assistance."
-      );
+      } finally {
+        // Persist whatever state the handlers left behind, even on failure
+        if (context) {
+          await this.saveContext(context);
+        }
+      }
+    });
+  }
+
+  private async sendProcessingFailure(userId: string): Promise<void> {
+    await this.messenger.sendTextMessage(
+      userId,
+      "I'm sorry, I encountered an error processing your message. Please try again or type 'help' for assistance."
+    );
+  }
+
+  private mcpRequestOptions() {
+    return { signal: AbortSignal.timeout(MCP_TOOL_TIMEOUT_MS) };
+  }
+
+  private async getOrCreateContext(userId: string): Promise<ConversationContext> {
+    const existing = await this.sessionStore.get(userId);
+    if (existing) {
+      return existing;
     }
+
+    const context: ConversationContext = {
+      userId,
+      sessionId: this.generateSessionId(),
+      messageHistory: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    await this.sessionStore.set(context);
+    return context;
   }
 
-  private getOrCreateContext(userId: string): ConversationContext {
-    if (!this.conversations.has(userId)) {
-      this.conversations.set(userId, {
-        userId,
-        sessionId: this.generateSessionId(),
-        messageHistory: [],
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      });
+  private async saveContext(context: ConversationContext): Promise<void> {
+    try {
+      await this.sessionStore.set(context);
+    } catch (error) {
+      logger.error('Error saving conversation context', { error });
     }
-    return this.conversations.get(userId)!;
   }
 
   private generateSessionId(): string {
@@ -122,40 +430,147 @@ export class RestaurantConciergeAgent {
   private async processMessage(message: WhatsAppMessage, context: ConversationContext): Promise<void> {
     if (message.type === 'text' && message.text) {
       await this.processTextMessage(message.text.body, context);
-    } else if (message.type === 'location' && message.location) {
+    } else if (message.type === 'location' && message.location && this.features.isEnabled('locationSharing')) {
       await this.processLocationMessage(message.location, context);
-    } else {
-      await this.whatsapp.sendTextMessage(
+    } else if (message.type === 'location') {
+      await this.messenger.sendTextMessage(
+        context.userId,
+        "Sorry, I can't use shared locations right now. Please type an address or neighbourhood instead."
+      );
+    } else if (message.type === 'audio' && message.audio) {
+      await this.processAudioMessage(message.audio, context);
+    } else if (message.type === 'image' && message.image && this.menuTextExtractor && this.features.isEnabled('menuAnalysis')) {
+      await this.processMenuImage(message.image, context);
+    } else if (message.type === 'interactive' && message.interactive) {
+      const reply = message.interactive.button_reply || message.interactive.list_reply;
+      if (reply) {
+        await this.processInteractiveReply(reply, context);
+      }
+    } else if (this.features.isEnabled('locationSharing')) {
+      await this.messenger.sendTextMessage(
         context.userId,
         "I can help you with text messages and location sharing. Please send me a text message or your location to get started!"
       );
+    } else {
+      await this.messenger.sendTextMessage(context.userId, "I can help you with text messages. Please send me a text message to get started!");
     }
   }
 
+  // Voice notes go through the same pipeline as typed text, after echoing the
+  // transcript so the user can spot a misheard request
+  private async processAudioMessage(
+    audio: NonNullable<WhatsAppMessage['audio']>,
+    context: ConversationContext
+  ): Promise<void> {
+    if (!this.speechToText) {
+      await this.messenger.sendTextMessage(
+        context.userId,
+        "Sorry, I can't listen to voice messages right now. Please type your request instead."
+      );
+      return;
+    }
+
+    let transcript: string;
+    try {
+      const media = await this.messenger.downloadMedia(context.userId, audio.id);
+      transcript = await this.speechToText.transcribe(media.data, media.mimeType || audio.mime_type);
+    } catch (error) {
+      if (isTransientError(error)) {
+        throw error;
+      }
+      logger.error('Error transcribing voice message', { error });
+      await this.messenger.sendTextMessage(context.userId, "Sorry, I couldn't process that voice message. Could you type it instead?");
+      return;
+    }
+
+    if (!transcript) {
+      await this.messenger.sendTextMessage(
+        context.userId,
+        "Sorry, I couldn't make out that voice message. Could you try again or type it instead?"
+      );
+      return;
+    }
+
+    await this.messenger.sendTextMessage(context.userId, `🎙️ I heard: "${transcript}"`);
+    await this.processTextMessage(transcript, context);
+  }
+
   private async processTextMessage(text: string, context: ConversationContext): Promise<void> {
     const normalizedText = text.toLowerCase().trim();
 
-    // Handle button/interactive responses
-    if (normalizedText.startsWith('restaurant_')) {
-      const restaurantId = normalizedText.replace('restaurant_', '');
-      await this.showRestaurantDetails(restaurantId, context);
+    // Reply ids typed or pasted as text
+    if (await this.handleRestaurantAction(text.trim(), context)) {
+      return;
+    }
+
+    // A booking left open when booking was switched off can't be finished
+    if (ReservationDialog.isActive(context) && !this.features.isEnabled('reservationBooking')) {
+      this.clearPendingReservation(context);
+    }
+
+    // Mid-booking replies belong to the reservation dialog, not keyword routing
+    if (ReservationDialog.isActive(context)) {
+      const result = await this.reservationDialog.handleInput(text, context);
+      await this.handleReservationDialogResult(result, context);
+      return;
+    }
+
+    if (!(await this.handleMenuCommand(normalizedText, context))) {
+      await this.handleNaturalLanguageInput(text, context);
+    }
+  }
+
+  // Taps on buttons and list rows are routed by their exact id, never
+  // lower-cased, since restaurant ids are case-sensitive Google place IDs
+  private async processInteractiveReply(reply: WhatsAppInteractiveReply, context: ConversationContext): Promise<void> {
+    if (await this.handleRestaurantAction(reply.id, context)) {
       return;
     }
 
-    if (normalizedText.startsWith('book_')) {
-      const restaurantId = normalizedText.replace('book_', '');
-      await this.startReservationProcess(restaurantId, context);
+    const restriction = this.features.isEnabled('dietaryRestrictions') && this.dietaryRestrictionFromReplyId(reply.id);
+    if (restriction) {
+      await this.addDietaryRestriction(restriction, context);
       return;
     }
 
-    if (normalizedText.startsWith('favorite_')) {
-      const restaurantId = normalizedText.replace('favorite_', '');
-      await this.addToFavorites(restaurantId, context);
+    if (await this.handleMenuCommand(reply.id, context)) {
       return;
     }
 
-    // Handle menu commands
-    switch (normalizedText) {
+    // Ids we no longer recognise (e.g. from an old menu) are read like typed text
+    await this.processTextMessage(reply.title, context);
+  }
+
+  private async handleRestaurantAction(id: string, context: ConversationContext): Promise<boolean> {
+    if (id.startsWith('restaurant_')) {
+      await this.showRestaurantDetails(id.slice('restaurant_'.length), context);
+      return true;
+    }
+
+    // Buttons from before a feature was switched off can still be tapped
+    if (id.startsWith('book_')) {
+      if (!this.features.isEnabled('reservationBooking')) {
+        await this.sendBookingUnavailable(context);
+      } else {
+        await this.startReservationProcess(id.slice('book_'.length), context);
+      }
+      return true;
+    }
+
+    if (id.startsWith('favorite_')) {
+      if (!this.features.isEnabled('customerPreferences')) {
+        await this.messenger.sendTextMessage(context.userId, "Sorry, I can't save favorites right now.");
+      } else {
+        await this.addToFavorites(id.slice('favorite_'.length), context);
+      }
+      return true;
+    }
+
+    return false;
+  }
+
+  private async handleMenuCommand(command: string, context: ConversationContext): Promise<boolean> {
+    switch (command) {
       case 'search_restaurants':
       case 'find restaurants':
       case 'search':
@@ -181,16 +596,111 @@ export class RestaurantConciergeAgent {
         break;
 
       case 'type_address':
-        await this.whatsapp.sendTextMessage(
+        await this.messenger.sendTextMessage(
           context.userId,
           "Please type your address or location (e.g., '123 Main St, New York' or 'Times Square, NYC'):"
         );
         context.currentIntent = 'search';
         break;
 
+      case 'help_location':
+        await this.messenger.sendTextMessage(
+          context.userId,
+          this.features.isEnabled('locationSharing')
+            ? "To share your location, tap the 📎 attachment button, choose 'Location' and send your current location. You can also just type an address or neighbourhood."
+            : "Just type an address or neighbourhood (e.g., 'Times Square, NYC') and I'll search around it."
+        );
+        break;
+
       default:
-        await this.handleNaturalLanguageInput(text, context);
+        return false;
     }
+
+    return true;
+  }
+
+  // Rows in the dietary menu use ids like 'gluten_free' for 'gluten-free'
+  private dietaryRestrictionFromReplyId(id: string): DietaryRestrictionType | undefined {
+    const restriction = id.replace(/_/g, '-');
+    return DietaryRestrictionsHandler.isDietaryRestriction(restriction) ? restriction : undefined;
+  }
+
+  // A list row picks one restriction at a time, so add it to what's saved
+  private async addDietaryRestriction(restriction: DietaryRestrictionType, context: ConversationContext): Promise<void> {
+    const prefs = await this.getCustomerPreferences(context.userId);
+    const restrictions = prefs?.dietaryRestrictions || [];
+
+    await this.updateDietaryPreferences(
+      restrictions.includes(restriction) ? restrictions : [...restrictions, restriction],
+      prefs?.allergies || [],
+      context
+    );
+  }
+
+  // Reads the dishes off a menu (or dish) photo and checks each one against
+  // the user's saved restrictions and allergies
+  private async processMenuImage(
+    image: NonNullable<WhatsAppMessage['image']>,
+    context: ConversationContext
+  ): Promise<void> {
+    let dishes: string[];
+    try {
+      const media = await this.messenger.downloadMedia(context.userId, image.id);
+      const text = await this.menuTextExtractor!.extractText(media.data, media.mimeType || image.mime_type);
+      dishes = extractDishNames(text);
+    } catch (error) {
+      if (isTransientError(error)) {
+        throw error;
+      }
+      logger.error('Error analyzing menu photo', { error });
+      await this.messenger.sendTextMessage(context.userId, "Sorry, I couldn't read that photo. Please try again.");
+      return;
+    }
+
+    if (dishes.length === 0) {
+      await this.messenger.sendTextMessage(
+        context.userId,
+        "I couldn't find any dishes in that photo. Try a closer, well-lit shot of the menu."
+      );
+      return;
+    }
+
+    const dietary = this.features.isEnabled('dietaryRestrictions');
+    const prefs = dietary ? await this.getCustomerPreferences(context.userId) : null;
+    const restrictions = prefs?.dietaryRestrictions || [];
+    const allergies = prefs?.allergies || [];
+    const dishName = (dish: string) => dish.split(' - ')[0];
+
+    if (restrictions.length === 0 && allergies.length === 0) {
+      let message = `📖 I found ${dishes.length} dishes:\n`;
+      message += dishes.slice(0, MAX_DISHES_PER_SECTION).map(dish => `• ${dishName(dish)}`).join('\n');
+      if (dietary && this.features.isEnabled('customerPreferences')) {
+        message += `\n\nTell me your dietary restrictions or allergies (e.g. "I'm vegetarian and allergic to nuts") and I'll flag what's safe for you.`;
+      }
+      await this.messenger.sendTextMessage(context.userId, message);
+      return;
+    }
+
+    const analyses = dishes.map(dish => DietaryRestrictionsHandler.analyzeDish(dish, restrictions, allergies));
+    const safe = analyses.filter(analysis => analysis.safe);
+    const risky = analyses.filter(analysis => !analysis.safe);
+
+    let message = `📖 **Menu check** (${dishes.length} dishes)\n\n`;
+    if (safe.length > 0) {
+      message += `✅ **Looks OK for you:**\n`;
+      message += safe.slice(0, MAX_DISHES_PER_SECTION).map(analysis => `• ${dishName(analysis.dish)}`).join('\n');
+      message += '\n\n';
+    }
+    if (risky.length > 0) {
+      message += `⚠️ **Avoid or ask:**\n`;
+      message += risky.slice(0, MAX_DISHES_PER_SECTION)
+        .map(analysis => `• ${dishName(analysis.dish)} - ${analysis.risks.join(', ')}`)
+        .join('\n');
+      message += '\n\n';
+    }
+    message += `I can only go by what's written, so always confirm ingredients with the staff.`;
+
+    await this.messenger.sendTextMessage(context.userId, message);
   }
 
   private async processLocationMessage(
@@ -202,7 +712,7 @@ export class RestaurantConciergeAgent {
       location: { lat: location.latitude, lng: location.longitude },
     };
 
-    await this.whatsapp.sendTextMessage(
+    await this.messenger.sendTextMessage(
       context.userId,
       `📍 Got your location${location.name ? ` (${location.name})` : ''}! Now searching for restaurants nearby...`
     );
@@ -214,61 +724,88 @@ export class RestaurantConciergeAgent {
     // If this is the first message, show main menu
     if (context.messageHistory.length === 1) {
       const customerPrefs = await this.getCustomerPreferences(context.userId);
-      await this.whatsapp.sendMainMenu(context.userId, customerPrefs?.name);
+      await this.messenger.sendMainMenu(context.userId, customerPrefs?.name);
       return;
     }
 
-    // Parse dietary restrictions and preferences
-    const dietaryInfo = DietaryRestrictionsHandler.parseDietaryInformation(text);
-    
-    if (dietaryInfo.restrictions.length > 0 || dietaryInfo.allergies.length > 0) {
-      await this.updateDietaryPreferences(dietaryInfo.restrictions, dietaryInfo.allergies, context);
+    const parsed = await this.intentParser.parse(text, { timezone: await this.getUserTimezone(context) });
+    const { slots } = parsed;
+    metrics.intents.inc({ intent: parsed.intent });
+
+    // Dietary restrictions and allergies are saved as preferences
+    if (parsed.intent === 'preferences' && (slots.dietaryRestrictions?.length || slots.allergies?.length)) {
+      if (!this.features.isEnabled('dietaryRestrictions')) {
+        await this.messenger.sendTextMessage(
+          context.userId,
+          "Sorry, I can't take dietary restrictions into account right now. Please check with the restaurant directly."
+        );
+        return;
+      }
+      await this.updateDietaryPreferences(slots.dietaryRestrictions || [], slots.allergies || [], context);
       return;
     }
 
-    // Check if it looks like a location
-    if (this.isLocationQuery(text)) {
-      context.searchCriteria = {
-        ...context.searchCriteria,
-      };
-      delete context.searchCriteria?.location; // Will be geocoded in search
-      
-      await this.searchRestaurantsWithQuery(text, context);
+    // Booking comes before location keywords: "book dinner for 2 tomorrow" is
+    // for the dialog. Only with no restaurant chosen yet does a place in the
+    // request ("a table for 4 near the park") mean finding one first.
+    if (parsed.intent === 'reservation') {
+      if (!this.features.isEnabled('reservationBooking')) {
+        await this.sendBookingUnavailable(context);
+      } else if (!context.pendingReservation && slots.location) {
+        delete context.searchCriteria?.location;
+        await this.searchRestaurantsWithQuery(text, context, slots);
+      } else {
+        await this.parseReservationRequest(text, context);
+      }
+      return;
+    }
+
+    // A location means a search; it will be geocoded by the search tool
+    if (slots.location) {
+      delete context.searchCriteria?.location;
+      await this.searchRestaurantsWithQuery(text, context, slots);
       return;
     }
 
-    // Check if it looks like a reservation request
-    if (this.isReservationQuery(text)) {
-      await this.parseReservationRequest(text, context);
+    if (parsed.intent === 'search') {
+      await this.searchRestaurantsWithQuery(text, context, slots);
       return;
     }
 
-    // General search query
-    if (this.isRestaurantSearchQuery(text)) {
-      await this.searchRestaurantsWithQuery(text, context);
+    if (parsed.intent === 'help') {
+      await this.showHelp(context);
       return;
     }
 
     // Default: show help or search suggestions
-    await this.whatsapp.sendTextMessage(
+    const booking = this.features.isEnabled('reservationBooking');
+    const suggestions = [
+      '"Find Italian restaurants near me"',
+      ...(this.features.isEnabled('locationSharing') ? ['Share your location 📍'] : []),
+      '"Vegetarian restaurants in Manhattan"',
+      ...(booking ? ['"Book a table for 4 tonight"'] : []),
+      "Type 'help' for more options",
+    ];
+    await this.messenger.sendTextMessage(
       context.userId,
-      `I'm here to help you find restaurants and make reservations! Try:\n\n• "Find Italian restaurants near me"\n• Share your location 📍\n• "Vegetarian restaurants in Manhattan"\n• "Book a table for 4 tonight"\n• Type 'help' for more options`
+      `I'm here to help you find restaurants${booking ? ' and make reservations' : ''}! Try:\n\n${suggestions.map(line => `• ${line}`).join('\n')}`
     );
   }
 
-  private isLocationQuery(text: string): boolean {
-    const locationKeywords = ['near', 'in', 'at', 'around', 'close to', 'by'];
-    return locationKeywords.some(keyword => text.toLowerCase().includes(keyword));
-  }
-
-  private isReservationQuery(text: string): boolean {
-    const reservationKeywords = ['book', 'reserve', 'reservation', 'table', 'tonight', 'tomorrow', 'for 2', 'for 4', 'pm', 'am'];
-    return reservationKeywords.some(keyword => text.toLowerCase().includes(keyword));
+  private async sendBookingUnavailable(context: ConversationContext): Promise<void> {
+    this.clearPendingReservation(context);
+    await this.messenger.sendTextMessage(
+      context.userId,
+      "Sorry, I can't book tables right now. Please contact the restaurant directly to make a reservation."
+    );
   }
 
-  private isRestaurantSearchQuery(text: string): boolean {
-    const searchKeywords = ['restaurant', 'food', 'eat', 'dining', 'cuisine', 'italian', 'chinese', 'mexican', 'find', 'looking for'];
-    return searchKeywords.some(keyword => text.toLowerCase().includes(keyword));
+  private clearPendingReservation(context: ConversationContext): void {
+    context.pendingReservation = undefined;
+    context.reservationDialog = undefined;
+    if (context.currentIntent === 'reservation') {
+      context.currentIntent = undefined;
+    }
   }
 
   private async startRestaurantSearch(context: ConversationContext): Promise<void> {
@@ -277,36 +814,42 @@ export class RestaurantConciergeAgent {
     // Check if user has default location
     const customerPrefs = await this.getCustomerPreferences(context.userId);
     if (customerPrefs?.defaultLocation) {
-      await this.whatsapp.sendTextMessage(
+      const options = [
+        ...(this.features.isEnabled('locationSharing') ? ['Share your current location 📍'] : []),
+        'Type a different address',
+        "Tell me what kind of food you're looking for",
+      ];
+      await this.messenger.sendTextMessage(
         context.userId,
-        `I can search near your default location (${customerPrefs.defaultLocation.address}) or you can:\n\n• Share your current location 📍\n• Type a different address\n• Tell me what kind of food you're looking for`
+        `I can search near your default location (${customerPrefs.defaultLocation.address}) or you can:\n\n${options.map(line => `• ${line}`).join('\n')}`
       );
       
       context.searchCriteria = {
         location: customerPrefs.defaultLocation,
       };
     } else {
-      await this.whatsapp.sendLocationRequest(context.userId);
+      await this.messenger.sendLocationRequest(context.userId);
     }
   }
 
-  private async searchRestaurantsWithQuery(query: string, context: ConversationContext): Promise<void> {
+  private async searchRestaurantsWithQuery(query: string, context: ConversationContext, slots?: IntentSlots): Promise<void> {
     if (!this.googlePlacesClient) {
-      await this.whatsapp.sendTextMessage(context.userId, "Sorry, restaurant search is currently unavailable. Please try again later.");
+      await this.messenger.sendTextMessage(context.userId, "Sorry, restaurant search is currently unavailable. Please try again later.");
       return;
     }
 
     try {
       const customerPrefs = await this.getCustomerPreferences(context.userId);
       
-      // Extract location from query or use default
-      let location = query;
-      if (customerPrefs?.defaultLocation && !this.isLocationQuery(query)) {
+      const searchSlots = slots || (await this.intentParser.parse(query)).slots;
+
+      // Use the location from the query or fall back to the default
+      let location = searchSlots.location || query;
+      if (customerPrefs?.defaultLocation && !searchSlots.location) {
         location = customerPrefs.defaultLocation.address;
       }
 
-      // Parse cuisine from query
-      const cuisine = this.extractCuisineFromQuery(query);
+      const cuisine = searchSlots.cuisine;
 
       const searchParams = {
         location,
@@ -319,13 +862,14 @@ export class RestaurantConciergeAgent {
       const result = await this.googlePlacesClient.callTool({
         name: 'search_restaurants',
         arguments: searchParams,
-      });
+      }, undefined, this.mcpRequestOptions());
 
       const searchResults = JSON.parse((result.content[0] as any).text as string);
       let restaurants: Restaurant[] = searchResults.restaurants || [];
 
       // Filter by dietary restrictions if available
-      if (customerPrefs?.dietaryRestrictions && customerPrefs.dietaryRestrictions.length > 0) {
+      const dietary = this.features.isEnabled('dietaryRestrictions');
+      if (dietary && customerPrefs?.dietaryRestrictions && customerPrefs.dietaryRestrictions.length > 0) {
         const filtered = DietaryRestrictionsHandler.filterRestaurantsByDietary(
           restaurants,
           customerPrefs.dietaryRestrictions,
@@ -337,7 +881,7 @@ export class RestaurantConciergeAgent {
       context.lastSearchResults = restaurants;
       
       if (restaurants.length > 0) {
-        await this.whatsapp.sendRestaurantList(context.userId, restaurants.map(r => ({
+        await this.messenger.sendRestaurantList(context.userId, restaurants.map(r => ({
           id: r.id,
           name: r.name,
           address: r.address,
@@ -345,58 +889,38 @@ export class RestaurantConciergeAgent {
           priceLevel: r.priceLevel,
         })));
       } else {
-        await this.whatsapp.sendTextMessage(
+        await this.messenger.sendTextMessage(
           context.userId,
-          "I couldn't find any restaurants matching your criteria. Try:\n• Expanding your search area\n• Different cuisine types\n• Adjusting dietary restrictions"
+          `I couldn't find any restaurants matching your criteria. Try:\n• Expanding your search area\n• Different cuisine types${dietary ? '\n• Adjusting dietary restrictions' : ''}`
         );
       }
 
     } catch (error) {
-      console.error('Error searching restaurants:', error);
-      await this.whatsapp.sendTextMessage(
+      // Leave timeouts and outages to the queue's retries
+      if (isTransientError(error)) {
+        throw error;
+      }
+      logger.error('Error searching restaurants', { error });
+      await this.messenger.sendTextMessage(
         context.userId,
         "Sorry, I had trouble searching for restaurants. Please try again with a different query."
       );
     }
   }
 
-  private extractCuisineFromQuery(query: string): string | undefined {
-    const cuisineKeywords = {
-      'italian': ['italian', 'pizza', 'pasta', 'italian food'],
-      'chinese': ['chinese', 'chinese food', 'asian'],
-      'mexican': ['mexican', 'tacos', 'burritos', 'mexican food'],
-      'japanese': ['japanese', 'sushi', 'ramen', 'japanese food'],
-      'indian': ['indian', 'curry', 'indian food'],
-      'thai': ['thai', 'pad thai', 'thai food'],
-      'french': ['french', 'french food'],
-      'american': ['american', 'burger', 'bbq', 'american food'],
-      'mediterranean': ['mediterranean', 'greek', 'mediterranean food'],
-    };
-
-    const lowerQuery = query.toLowerCase();
-    for (const [cuisine, keywords] of Object.entries(cuisineKeywords)) {
-      if (keywords.some(keyword => lowerQuery.includes(keyword))) {
-        return cuisine;
-      }
-    }
-    return undefined;
-  }
-
   private async searchRestaurants(context: ConversationContext): Promise<void> {
     if (!context.searchCriteria?.location || !this.googlePlacesClient) {
-      await this.whatsapp.sendLocationRequest(context.userId);
+      await this.messenger.sendLocationRequest(context.userId);
       return;
     }
 
-    await this.searchRestaurantsWithQuery(
-      `${context.searchCriteria.location.lat},${context.searchCriteria.location.lng}`,
-      context
-    );
+    const coordinates = `${context.searchCriteria.location.lat},${context.searchCriteria.location.lng}`;
+    await this.searchRestaurantsWithQuery(coordinates, context, { location: coordinates });
   }
 
   private async showRestaurantDetails(restaurantId: string, context: ConversationContext): Promise<void> {
     if (!this.googlePlacesClient) {
-      await this.whatsapp.sendTextMessage(context.userId, "Sorry, restaurant details are currently unavailable.");
+      await this.messenger.sendTextMessage(context.userId, "Sorry, restaurant details are currently unavailable.");
       return;
     }
 
@@ -404,11 +928,13 @@ export class RestaurantConciergeAgent {
       const result = await this.googlePlacesClient.callTool({
         name: 'get_restaurant_details',
         arguments: { placeId: restaurantId },
-      });
+      }, undefined, this.mcpRequestOptions());
 
       const restaurant: Restaurant = JSON.parse((result.content[0] as any).text as string);
+
+      await this.sendRestaurantMedia(restaurant, context);
       
-      await this.whatsapp.sendRestaurantDetails(context.userId, {
+      await this.messenger.sendRestaurantDetails(context.userId, {
         id: restaurant.id,
         name: restaurant.name,
         address: restaurant.address,
@@ -421,8 +947,14 @@ export class RestaurantConciergeAgent {
         } : undefined,
       });
 
+      recordBookingStep('details_viewed');
+      if (!this.features.isEnabled('reservationBooking')) {
+        return;
+      }
+
       // Store current restaurant for potential booking
       context.currentIntent = 'reservation';
+      context.reservationDialog = undefined;
       context.pendingReservation = {
         restaurantId: restaurant.id,
         customerId: context.userId,
@@ -433,150 +965,129 @@ export class RestaurantConciergeAgent {
       };
 
     } catch (error) {
-      console.error('Error getting restaurant details:', error);
-      await this.whatsapp.sendTextMessage(context.userId, "Sorry, I couldn't get the restaurant details. Please try again.");
+      if (isTransientError(error)) {
+        throw error;
+      }
+      logger.error('Error getting restaurant details', { error });
+      await this.messenger.sendTextMessage(context.userId, "Sorry, I couldn't get the restaurant details. Please try again.");
+    }
+  }
+
+  // Photo, map pin and menu go out before the details card so its buttons end
+  // up last in the chat. Each is optional; a failure doesn't stop the others.
+  private async sendRestaurantMedia(restaurant: Restaurant, context: ConversationContext): Promise<void> {
+    if (restaurant.photos?.length > 0) {
+      await this.sendOptional('photo', () => this.messenger.sendImage(context.userId, {
+        link: restaurant.photos[0],
+        caption: `${restaurant.name} ⭐ ${restaurant.rating}/5`,
+      }));
+    }
+
+    if (restaurant.location) {
+      await this.sendOptional('location', () => this.messenger.sendLocation(context.userId, {
+        latitude: restaurant.location.lat,
+        longitude: restaurant.location.lng,
+        name: restaurant.name,
+        address: restaurant.address,
+      }));
+    }
+
+    // WhatsApp can only attach actual files; a menu web page goes out as a link
+    if (restaurant.menuUrl && /\.pdf(\?|$)/i.test(restaurant.menuUrl)) {
+      await this.sendOptional('menu', () => this.messenger.sendDocument(context.userId, {
+        link: restaurant.menuUrl!,
+        filename: `${restaurant.name} menu.pdf`,
+        caption: `📄 ${restaurant.name} menu`,
+      }));
+    } else if (restaurant.menuUrl) {
+      await this.sendOptional('menu', () => this.messenger.sendTextMessage(context.userId, `📄 Menu: ${restaurant.menuUrl}`));
+    }
+  }
+
+  private async sendOptional(label: string, send: () => Promise<unknown>): Promise<void> {
+    try {
+      await send();
+    } catch (error) {
+      logger.error('Failed to send restaurant media', { media: label, error });
     }
   }
 
   private async startReservationProcess(restaurantId: string, context: ConversationContext): Promise<void> {
     const restaurant = context.lastSearchResults?.find(r => r.id === restaurantId);
     if (!restaurant) {
-      await this.whatsapp.sendTextMessage(context.userId, "Sorry, I couldn't find that restaurant. Please search again.");
+      await this.messenger.sendTextMessage(context.userId, "Sorry, I couldn't find that restaurant. Please search again.");
       return;
     }
 
-    context.currentIntent = 'reservation';
+    const customerPrefs = await this.getCustomerPreferences(context.userId);
     context.pendingReservation = {
       restaurantId,
       customerId: context.userId,
       contactInfo: {
-        name: '',
+        name: customerPrefs?.name || '',
         phone: context.userId,
       },
     };
 
-    await this.whatsapp.sendReservationForm(context.userId, restaurant.name);
+    recordBookingStep('booking_started');
+
+    // The form invites a one-shot answer; the dialog then asks only for what's missing
+    await this.reservationDialog.start(context, restaurant.name);
+    await this.messenger.sendReservationForm(context.userId, restaurant.name);
   }
 
   private async parseReservationRequest(text: string, context: ConversationContext): Promise<void> {
     if (!context.pendingReservation) {
-      await this.whatsapp.sendTextMessage(context.userId, "Please select a restaurant first before making a reservation.");
+      await this.messenger.sendTextMessage(context.userId, "Please select a restaurant first before making a reservation.");
       return;
     }
 
-    // Parse reservation details from text
-    const partySize = this.extractPartySize(text);
-    const date = this.extractDate(text);
-    const time = this.extractTime(text);
-    const specialRequests = this.extractSpecialRequests(text);
-
-    if (!partySize || !date || !time) {
-      await this.whatsapp.sendTextMessage(
-        context.userId,
-        "I need more information. Please provide:\n• Date (e.g., 'tomorrow', 'Friday')\n• Time (e.g., '7 PM', '19:00')\n• Number of people\n\nExample: 'Tomorrow 7PM for 4 people'"
-      );
-      return;
-    }
-
-    // Get customer name
-    const customerPrefs = await this.getCustomerPreferences(context.userId);
-    const customerName = customerPrefs?.name || 'Guest';
-
-    context.pendingReservation = {
-      ...context.pendingReservation,
-      partySize,
-      date,
-      time,
-      specialRequests: specialRequests || undefined,
-      contactInfo: {
-        name: customerName,
+    // Prefill the name from saved preferences so the dialog can skip that step
+    if (!context.pendingReservation.contactInfo?.name) {
+      const customerPrefs = await this.getCustomerPreferences(context.userId);
+      context.pendingReservation.contactInfo = {
+        name: customerPrefs?.name || '',
         phone: context.userId,
-      },
-    };
-
-    await this.bookReservation(context);
-  }
-
-  private extractPartySize(text: string): number | null {
-    const matches = text.match(/(\d+)\s*(people|person|ppl|guests?)/i);
-    if (matches) {
-      return parseInt(matches[1]);
-    }
-
-    const forMatches = text.match(/for\s+(\d+)/i);
-    if (forMatches) {
-      return parseInt(forMatches[1]);
+      };
     }
 
-    return null;
+    const restaurant = context.lastSearchResults?.find(r => r.id === context.pendingReservation!.restaurantId);
+    const result = await this.reservationDialog.start(context, restaurant?.name, text);
+    await this.handleReservationDialogResult(result, context);
   }
 
-  private extractDate(text: string): string | null {
-    const today = new Date();
-    const lowerText = text.toLowerCase();
-
-    if (lowerText.includes('today')) {
-      return today.toISOString().split('T')[0];
-    }
-
-    if (lowerText.includes('tomorrow')) {
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      return tomorrow.toISOString().split('T')[0];
-    }
-
-    // Try to match date formats
-    const dateMatches = text.match(/(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})/);
-    if (dateMatches) {
-      const month = parseInt(dateMatches[1]);
-      const day = parseInt(dateMatches[2]);
-      const year = dateMatches[3].length === 2 ? 2000 + parseInt(dateMatches[3]) : parseInt(dateMatches[3]);
-      return new Date(year, month - 1, day).toISOString().split('T')[0];
+  private async handleReservationDialogResult(result: ReservationDialogResult, context: ConversationContext): Promise<void> {
+    if (result.action === 'book') {
+      await this.bookReservation(context);
+      return;
     }
 
-    return null;
+    await this.messenger.sendTextMessage(context.userId, result.message);
   }
 
-  private extractTime(text: string): string | null {
-    const timeMatches = text.match(/(\d{1,2}):?(\d{2})?\s*(pm|am)/i);
-    if (timeMatches) {
-      let hour = parseInt(timeMatches[1]);
-      const minute = timeMatches[2] ? parseInt(timeMatches[2]) : 0;
-      const period = timeMatches[3].toLowerCase();
-
-      if (period === 'pm' && hour !== 12) {
-        hour += 12;
-      } else if (period === 'am' && hour === 12) {
-        hour = 0;
-      }
-
-      return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
-    }
-
-    const militaryTime = text.match(/(\d{1,2}):(\d{2})/);
-    if (militaryTime) {
-      return `${militaryTime[1].padStart(2, '0')}:${militaryTime[2]}`;
-    }
-
-    return null;
+  private async extractReservationSlots(text: string, context: ConversationContext): Promise<ReservationSlotValues> {
+    const { slots, clarification } = await this.intentParser.parse(text, {
+      timezone: await this.getUserTimezone(context),
+      date: context.pendingReservation?.date,
+    });
+    return {
+      date: slots.date,
+      time: slots.time,
+      partySize: slots.partySize,
+      specialRequests: slots.specialRequests,
+      clarification,
+    };
   }
 
-  private extractSpecialRequests(text: string): string | null {
-    const specialKeywords = ['vegetarian', 'vegan', 'gluten', 'allergy', 'birthday', 'anniversary', 'celebration'];
-    const sentences = text.split(/[.!?]+/);
-    
-    for (const sentence of sentences) {
-      if (specialKeywords.some(keyword => sentence.toLowerCase().includes(keyword))) {
-        return sentence.trim();
-      }
-    }
-
-    return null;
+  // Falls back to DEFAULT_TIMEZONE inside the date resolver when unset
+  private async getUserTimezone(context: ConversationContext): Promise<string | undefined> {
+    const prefs = await this.getCustomerPreferences(context.userId);
+    return prefs?.timezone;
   }
 
   private async bookReservation(context: ConversationContext): Promise<void> {
     if (!context.pendingReservation || !this.openTableClient) {
-      await this.whatsapp.sendTextMessage(context.userId, "Sorry, I can't complete the reservation right now. Please try again later.");
+      await this.messenger.sendTextMessage(context.userId, "Sorry, I can't complete the reservation right now. Please try again later.");
       return;
     }
 
@@ -591,17 +1102,25 @@ export class RestaurantConciergeAgent {
           customerName: context.pendingReservation.contactInfo.name,
           customerPhone: context.pendingReservation.contactInfo.phone,
           customerEmail: context.pendingReservation.contactInfo.email,
-          specialRequests: context.pendingReservation.specialRequests,
+          specialRequests: context.pendingReservation.specialRequests || undefined,
+          idempotencyKey: this.reservationIdempotencyKey(context, context.pendingReservation),
         },
-      });
+      }, undefined, this.mcpRequestOptions());
 
       const reservationResult = JSON.parse(result.content[0].text as string);
 
+      // A duplicate of the confirming message is already booking this table
+      if (reservationResult.inProgress) {
+        logger.info('Skipping booking already in progress');
+        return;
+      }
+
       if (reservationResult.success) {
+        recordBookingStep('confirmed');
         const restaurant = context.lastSearchResults?.find(r => r.id === context.pendingReservation!.restaurantId);
         
-        await this.whatsapp.sendReservationConfirmation(context.userId, {
-          restaurantName: restaurant?.name || 'Restaurant',
+        await this.messenger.sendReservationConfirmation(context.userId, {
+          restaurantName: restaurant?.name || context.reservationDialog?.restaurantName || 'Restaurant',
           date: context.pendingReservation.date!,
           time: context.pendingReservation.time!,
           partySize: context.pendingReservation.partySize!,
@@ -621,32 +1140,57 @@ export class RestaurantConciergeAgent {
               partySize: context.pendingReservation.partySize,
               status: reservationResult.reservation.status,
             },
-          });
+          }, undefined, this.mcpRequestOptions());
         }
 
         // Clear pending reservation
         context.pendingReservation = undefined;
+        context.reservationDialog = undefined;
         context.currentIntent = undefined;
 
       } else {
-        await this.whatsapp.sendTextMessage(
+        await this.messenger.sendTextMessage(
           context.userId,
           `Sorry, I couldn't complete your reservation: ${reservationResult.error}\n\nPlease try a different time or contact the restaurant directly.`
         );
+
+        // Keep the other details and ask only for a new time
+        if (context.reservationDialog) {
+          const result = this.reservationDialog.reopenSlot(context, 'time');
+          await this.handleReservationDialogResult(result, context);
+        }
       }
 
     } catch (error) {
-      console.error('Error booking reservation:', error);
-      await this.whatsapp.sendTextMessage(
+      if (isTransientError(error)) {
+        throw error;
+      }
+      logger.error('Error booking reservation', { error });
+      await this.messenger.sendTextMessage(
         context.userId,
         "Sorry, I had trouble booking your reservation. Please try again or contact the restaurant directly."
       );
     }
   }
 
+  // The confirming message's id, so redeliveries and queue retries of it map to
+  // one booking while a later, deliberate booking of the same slot still goes through.
+  // Without one, the booking itself, so retries of it still can't book twice.
+  private reservationIdempotencyKey(
+    context: ConversationContext,
+    reservation: NonNullable<ConversationContext['pendingReservation']>
+  ): string {
+    const messageId = currentLogContext()?.correlationId || context.messageHistory.at(-1)?.id;
+    if (messageId) {
+      return `${context.userId}:${messageId}`;
+    }
+    const { restaurantId, date, time, partySize } = reservation;
+    return `${context.userId}:${restaurantId}:${date}T${time}:${partySize}`;
+  }
+
   private async addToFavorites(restaurantId: string, context: ConversationContext): Promise<void> {
     if (!this.customerPrefsClient) {
-      await this.whatsapp.sendTextMessage(context.userId, "Sorry, I can't save favorites right now.");
+      await this.messenger.sendTextMessage(context.userId, "Sorry, I can't save favorites right now.");
       return;
     }
 
@@ -657,17 +1201,20 @@ export class RestaurantConciergeAgent {
           userId: context.userId,
           restaurantId,
         },
-      });
+      }, undefined, this.mcpRequestOptions());
 
       const restaurant = context.lastSearchResults?.find(r => r.id === restaurantId);
-      await this.whatsapp.sendTextMessage(
+      await this.messenger.sendTextMessage(
         context.userId,
         `❤️ Added ${restaurant?.name || 'restaurant'} to your favorites!`
       );
 
     } catch (error) {
-      console.error('Error adding to favorites:', error);
-      await this.whatsapp.sendTextMessage(context.userId, "Sorry, I couldn't add that to your favorites. Please try again.");
+      if (isTransientError(error)) {
+        throw error;
+      }
+      logger.error('Error adding to favorites', { error });
+      await this.messenger.sendTextMessage(context.userId, "Sorry, I couldn't add that to your favorites. Please try again.");
     }
   }
 
@@ -676,8 +1223,8 @@ export class RestaurantConciergeAgent {
     allergies: string[],
     context: ConversationContext
   ): Promise<void> {
-    if (!this.customerPrefsClient) {
-      await this.whatsapp.sendTextMessage(context.userId, "Sorry, I can't save your preferences right now.");
+    if (!this.customerPrefsClient || !this.features.isEnabled('customerPreferences')) {
+      await this.messenger.sendTextMessage(context.userId, "Sorry, I can't save your preferences right now.");
       return;
     }
 
@@ -697,8 +1244,9 @@ export class RestaurantConciergeAgent {
           priceRange: currentPrefs?.priceRange,
           defaultLocation: currentPrefs?.defaultLocation,
           searchRadius: currentPrefs?.searchRadius,
+          timezone: currentPrefs?.timezone,
         },
-      });
+      }, undefined, this.mcpRequestOptions());
 
       const restrictionNames = restrictions.map(r => DietaryRestrictionsHandler.getRestrictionDisplayName(r));
       let message = `✅ Updated your dietary preferences!\n\n`;
@@ -713,16 +1261,20 @@ export class RestaurantConciergeAgent {
       
       message += `\nI'll use these preferences when searching for restaurants.`;
 
-      await this.whatsapp.sendTextMessage(context.userId, message);
+      await this.messenger.sendTextMessage(context.userId, message);
 
     } catch (error) {
-      console.error('Error updating dietary preferences:', error);
-      await this.whatsapp.sendTextMessage(context.userId, "Sorry, I couldn't save your preferences. Please try again.");
+      if (isTransientError(error)) {
+        throw error;
+      }
+      logger.error('Error updating dietary preferences', { error });
+      await this.messenger.sendTextMessage(context.userId, "Sorry, I couldn't save your preferences. Please try again.");
     }
   }
 
+  // Nothing saved is used while customer preferences are switched off
   private async getCustomerPreferences(userId: string): Promise<CustomerPreferences | null> {
-    if (!this.customerPrefsClient) {
+    if (!this.customerPrefsClient || !this.features.isEnabled('customerPreferences')) {
       return null;
     }
 
@@ -730,22 +1282,36 @@ export class RestaurantConciergeAgent {
       const result = await this.customerPrefsClient.callTool({
         name: 'get_customer_preferences',
         arguments: { userId },
-      });
+      }, undefined, this.mcpRequestOptions());
 
       const data = JSON.parse(result.content[0].text as string);
       return data.found ? data.preferences : null;
 
     } catch (error) {
-      console.error('Error getting customer preferences:', error);
+      logger.error('Error getting customer preferences', { error });
       return null;
     }
   }
 
   private async showPreferences(context: ConversationContext): Promise<void> {
+    if (!this.features.isEnabled('customerPreferences')) {
+      await this.messenger.sendTextMessage(context.userId, "Sorry, saved preferences aren't available right now.");
+      return;
+    }
+
+    const dietary = this.features.isEnabled('dietaryRestrictions');
     const prefs = await this.getCustomerPreferences(context.userId);
     
+    if (!prefs && dietary) {
+      await this.messenger.sendDietaryRestrictionsMenu(context.userId);
+      return;
+    }
+
     if (!prefs) {
-      await this.whatsapp.sendDietaryRestrictionsMenu(context.userId);
+      await this.messenger.sendTextMessage(
+        context.userId,
+        "You haven't saved any preferences yet. Tap ❤️ Add to Favorites on a restaurant to start your list."
+      );
       return;
     }
 
@@ -755,12 +1321,12 @@ export class RestaurantConciergeAgent {
       message += `👤 Name: ${prefs.name}\n`;
     }
     
-    if (prefs.dietaryRestrictions.length > 0) {
+    if (dietary && prefs.dietaryRestrictions.length > 0) {
       const restrictions = prefs.dietaryRestrictions.map(r => DietaryRestrictionsHandler.getRestrictionDisplayName(r));
       message += `🥗 Dietary: ${restrictions.join(', ')}\n`;
     }
     
-    if (prefs.allergies.length > 0) {
+    if (dietary && prefs.allergies.length > 0) {
       message += `⚠️ Allergies: ${prefs.allergies.join(', ')}\n`;
     }
     
@@ -773,17 +1339,24 @@ export class RestaurantConciergeAgent {
     }
     
     message += `🔍 Search radius: ${(prefs.searchRadius / 1000).toFixed(1)}km\n`;
-    message += `❤️ Favorite restaurants: ${prefs.favoriteRestaurants.length}\n\n`;
-    message += `To update, just tell me your preferences in natural language!`;
+    message += `❤️ Favorite restaurants: ${prefs.favoriteRestaurants.length}`;
+    if (dietary) {
+      message += `\n\nTo update, just tell me your preferences in natural language!`;
+    }
 
-    await this.whatsapp.sendTextMessage(context.userId, message);
+    await this.messenger.sendTextMessage(context.userId, message);
   }
 
   private async useDefaultLocation(context: ConversationContext): Promise<void> {
+    if (!this.features.isEnabled('customerPreferences')) {
+      await this.messenger.sendTextMessage(context.userId, "Sorry, saved locations aren't available right now. Please type an address.");
+      return;
+    }
+
     const prefs = await this.getCustomerPreferences(context.userId);
     
     if (!prefs?.defaultLocation) {
-      await this.whatsapp.sendTextMessage(
+      await this.messenger.sendTextMessage(
         context.userId,
         "You don't have a default location set. Please share your location or type an address."
       );
@@ -794,7 +1367,7 @@ export class RestaurantConciergeAgent {
       location: prefs.defaultLocation,
     };
 
-    await this.whatsapp.sendTextMessage(
+    await this.messenger.sendTextMessage(
       context.userId,
       `📍 Using your default location: ${prefs.defaultLocation.address}\n\nSearching for restaurants...`
     );
@@ -802,10 +1375,43 @@ export class RestaurantConciergeAgent {
     await this.searchRestaurants(context);
   }
 
+  // Only mentions what is switched on
   private async showHelp(context: ConversationContext): Promise<void> {
-    const helpText = `🤖 **Restaurant Concierge Help**\n\n**What I can do:**\n• Find restaurants near you\n• Make real reservations\n• Remember your dietary restrictions\n• Save your favorite places\n• Handle complex food allergies\n\n**How to use me:**\n• Share your location 📍 or type an address\n• Tell me what you want: "Italian food near Times Square"\n• Set dietary needs: "I'm vegetarian and gluten-free"\n• Make reservations: "Book a table for 4 tonight at 7PM"\n\n**Quick commands:**\n• 'Find restaurants' - Start searching\n• 'My preferences' - View/update settings\n• Send location - Find nearby restaurants\n\n**Tips:**\n• I understand natural language - just talk to me!\n• I'll remember your preferences across conversations\n• Always double-check reservation details with the restaurant`;
-
-    await this.whatsapp.sendTextMessage(context.userId, helpText);
+    const booking = this.features.isEnabled('reservationBooking');
+    const preferences = this.features.isEnabled('customerPreferences');
+    const dietary = preferences && this.features.isEnabled('dietaryRestrictions');
+    const location = this.features.isEnabled('locationSharing');
+    const menuPhotos = Boolean(this.menuTextExtractor) && this.features.isEnabled('menuAnalysis');
+    const bullets = (lines: Array<string | false>) => lines.filter(Boolean).map(line => `• ${line}`).join('\n');
+
+    const sections = [
+      `**What I can do:**\n${bullets([
+        'Find restaurants near you',
+        booking && 'Make real reservations',
+        dietary && 'Remember your dietary restrictions',
+        preferences && 'Save your favorite places',
+        dietary && 'Handle complex food allergies',
+        menuPhotos && 'Read a menu photo and flag dishes to avoid',
+      ])}`,
+      `**How to use me:**\n${bullets([
+        location ? 'Share your location 📍 or type an address' : 'Type an address or neighbourhood',
+        'Tell me what you want: "Italian food near Times Square"',
+        dietary && 'Set dietary needs: "I\'m vegetarian and gluten-free"',
+        booking && 'Make reservations: "Book a table for 4 tonight at 7PM"',
+      ])}`,
+      `**Quick commands:**\n${bullets([
+        "'Find restaurants' - Start searching",
+        preferences && "'My preferences' - View/update settings",
+        location && 'Send location - Find nearby restaurants',
+      ])}`,
+      `**Tips:**\n${bullets([
+        'I understand natural language - just talk to me!',
+        preferences && "I'll remember your preferences across conversations",
+        booking && 'Always double-check reservation details with the restaurant',
+      ])}`,
+    ];
+
+    await this.messenger.sendTextMessage(context.userId, `🤖 **Restaurant Concierge Help**\n\n${sections.join('\n\n')}`);
   }
 
   // Webhook verification for WhatsApp
@@ -813,8 +1419,8 @@ export class RestaurantConciergeAgent {
     return this.whatsapp.verifyWebhook(mode, token, challenge);
   }
 
-  // Parse incoming webhook messages
-  parseIncomingMessage(webhookBody: any): WhatsAppMessage | null {
-    return this.whatsapp.parseIncomingMessage(webhookBody);
+  // Parse every message and status update in an incoming webhook
+  parseWebhookEvents(webhookBody: any): WhatsAppWebhookEvents {
+    return WhatsAppBusinessAPI.parseWebhookEvents(webhookBody);
   }
 }
\ No newline at end of file
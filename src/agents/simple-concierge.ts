@@ -1,6 +1,13 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
+import { captureRawBody, requireWebhookSignature } from '../utils/webhook-signature.js';
+import { auditAdminAction, requireAdmin } from '../utils/admin-auth.js';
+import { WhatsAppBusinessAPI } from '../integrations/whatsapp.js';
+import { HealthMonitor, registerHealthRoutes } from '../utils/health-checks.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('simple-concierge');
 
 dotenv.config();
 
@@ -14,19 +21,13 @@ export class SimpleConciergeAgent {
 
   private setupMiddleware(): void {
     this.app.use(cors());
-    this.app.use(express.json());
+    this.app.use(express.json({ verify: captureRawBody }));
     this.app.use(express.urlencoded({ extended: true }));
   }
 
   private setupRoutes(): void {
-    // Health check
-    this.app.get('/health', (req, res) => {
-      res.json({ 
-        status: 'healthy', 
-        timestamp: new Date().toISOString(),
-        service: 'restaurant-concierge-agent' 
-      });
-    });
+    // No dependencies to wait for, so ready whenever it is live
+    registerHealthRoutes(this.app, new HealthMonitor('restaurant-concierge-agent'));
 
     // WhatsApp webhook verification
     this.app.get('/webhook/whatsapp', (req, res) => {
@@ -35,37 +36,34 @@ export class SimpleConciergeAgent {
       const challenge = req.query['hub.challenge'] as string;
 
       if (mode === 'subscribe' && token === process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN) {
-        console.log('WhatsApp webhook verified successfully');
+        logger.info('WhatsApp webhook verified');
         return res.status(200).send(challenge);
       } else {
-        console.log('WhatsApp webhook verification failed');
+        logger.warn('WhatsApp webhook verification failed');
         return res.status(403).send('Verification failed');
       }
     });
 
     // WhatsApp message handler
-    this.app.post('/webhook/whatsapp', async (req, res) => {
+    this.app.post('/webhook/whatsapp', requireWebhookSignature(), async (req, res) => {
       try {
-        console.log('Received WhatsApp webhook:', JSON.stringify(req.body, null, 2));
+        // Extract messages from webhook
+        const { messages, statuses } = WhatsAppBusinessAPI.parseWebhookEvents(req.body);
+        logger.debug('Received WhatsApp webhook', { messages: messages.length, statuses: statuses.length });
         
-        // Extract message from webhook
-        const entry = req.body.entry?.[0];
-        const change = entry?.changes?.[0];
-        const message = change?.value?.messages?.[0];
-        
-        if (message) {
-          console.log('Processing message:', message);
+        for (const message of messages) {
+          logger.info('Processing message', { correlationId: message.id, type: message.type });
           
           // Simple response for now
           const responseMessage = `Hello! I received your message: "${message.text?.body || 'non-text message'}". The Restaurant Concierge Agent is running successfully!`;
           
           // In a real implementation, you would send this via WhatsApp API
-          console.log('Would send response:', responseMessage);
+          logger.info('Would send response', { correlationId: message.id, length: responseMessage.length });
         }
         
         res.status(200).send('OK');
       } catch (error) {
-        console.error('Error processing WhatsApp message:', error);
+        logger.error('Error processing WhatsApp message', { error });
         res.status(500).json({ error: 'Internal server error' });
       }
     });
@@ -79,7 +77,8 @@ export class SimpleConciergeAgent {
       });
     });
 
-    this.app.post('/api/reservations/book', (req, res) => {
+    // Books on behalf of any user, so it needs an operator JWT like the full agent's
+    this.app.post('/api/reservations/book', auditAdminAction('reservation.book'), requireAdmin('operator'), (req, res) => {
       res.json({
         success: true,
         message: 'Reservation booking endpoint - implementation pending',
@@ -94,7 +93,7 @@ export class SimpleConciergeAgent {
 
     // Error handler
     this.app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
-      console.error('Unhandled error:', err);
+      logger.error('Unhandled error', { error: err });
       res.status(500).json({ 
         error: 'Internal server error',
         message: process.env.NODE_ENV === 'development' ? err.message : 'Something went wrong'
@@ -104,10 +103,12 @@ export class SimpleConciergeAgent {
 
   start(port = 3000): void {
     this.app.listen(port, () => {
-      console.log(`🚀 Simple Restaurant Concierge Agent listening on port ${port}`);
-      console.log(`📱 WhatsApp webhook URL: ${process.env.WEBHOOK_BASE_URL || `http://localhost:${port}`}/webhook/whatsapp`);
-      console.log(`🏥 Health check: http://localhost:${port}/health`);
-      console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
+      logger.info('Simple Restaurant Concierge Agent listening', {
+        port,
+        whatsappWebhookUrl: `${process.env.WEBHOOK_BASE_URL || `http://localhost:${port}`}/webhook/whatsapp`,
+        healthCheckUrl: `http://localhost:${port}/health/ready`,
+        environment: process.env.NODE_ENV || 'development',
+      });
     });
   }
 }
\ No newline at end of file
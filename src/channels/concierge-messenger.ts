@@ -0,0 +1,253 @@
+import type { ChannelName, WhatsAppMessage } from '../types/index.js';
+import type { ChannelLocation, ChannelRouter, ChannelSendResult } from './messaging-channel.js';
+import { FeatureFlags } from '../utils/config.js';
+
+// The concierge's messages, built from channel primitives and sent to
+// whichever channel the user is on. Menus only offer the enabled features.
+export class ConciergeMessenger {
+  private router: ChannelRouter;
+  private features: FeatureFlags;
+
+  constructor(router: ChannelRouter, features: FeatureFlags = new FeatureFlags()) {
+    this.router = router;
+    this.features = features;
+  }
+
+  channelOf(userId: string): ChannelName {
+    return this.router.resolve(userId).channel.name;
+  }
+
+  async sendTextMessage(userId: string, text: string): Promise<ChannelSendResult> {
+    const { channel, recipient } = this.router.resolve(userId);
+    return channel.sendText(recipient, text);
+  }
+
+  async sendImage(userId: string, image: { link: string; caption?: string }): Promise<ChannelSendResult> {
+    const { channel, recipient } = this.router.resolve(userId);
+    return channel.sendImage(recipient, image);
+  }
+
+  async sendDocument(
+    userId: string,
+    document: { link: string; filename?: string; caption?: string }
+  ): Promise<ChannelSendResult> {
+    const { channel, recipient } = this.router.resolve(userId);
+    return channel.sendDocument(recipient, document);
+  }
+
+  // Shows as a map pin the user can tap to open directions
+  async sendLocation(userId: string, location: ChannelLocation): Promise<ChannelSendResult> {
+    const { channel, recipient } = this.router.resolve(userId);
+    return channel.sendLocation(recipient, location);
+  }
+
+  async markAsRead(message: WhatsAppMessage): Promise<void> {
+    const { channel } = this.router.resolve(message.from);
+    await channel.markAsRead?.(message.id);
+  }
+
+  async sendTypingIndicator(userId: string): Promise<void> {
+    const { channel, recipient } = this.router.resolve(userId);
+    await channel.sendTypingIndicator?.(recipient);
+  }
+
+  async downloadMedia(userId: string, mediaId: string): Promise<{ data: Buffer; mimeType: string }> {
+    const { channel } = this.router.resolve(userId);
+    if (!channel.downloadMedia) {
+      throw new Error(`The ${channel.name} channel does not support media downloads`);
+    }
+    return channel.downloadMedia(mediaId);
+  }
+
+  async sendRestaurantList(
+    userId: string,
+    restaurants: Array<{
+      id: string;
+      name: string;
+      address: string;
+      rating: number;
+      priceLevel: number;
+    }>
+  ): Promise<ChannelSendResult> {
+    if (restaurants.length === 0) {
+      return this.sendTextMessage(userId, "I couldn't find any restaurants matching your criteria. Please try adjusting your search parameters.");
+    }
+
+    const { channel, recipient } = this.router.resolve(userId);
+    const prompt = this.features.isEnabled('reservationBooking')
+      ? 'Select one to see details and make a reservation:'
+      : 'Select one to see details:';
+    return channel.sendList(
+      recipient,
+      `I found ${restaurants.length} restaurant${restaurants.length === 1 ? '' : 's'} for you. ${prompt}`,
+      'View Restaurants',
+      [{
+        title: 'Found Restaurants',
+        rows: restaurants.slice(0, 10).map(restaurant => ({
+          id: `restaurant_${restaurant.id}`,
+          title: `${restaurant.name}`,
+          description: `⭐ ${restaurant.rating}/5 • ${'💰'.repeat(restaurant.priceLevel)} • ${restaurant.address.substring(0, 50)}...`,
+        })),
+      }],
+      {
+        header: '🍽️ Restaurant Options',
+        footer: 'Powered by Restaurant Concierge',
+      }
+    );
+  }
+
+  async sendRestaurantDetails(
+    userId: string,
+    restaurant: {
+      id: string;
+      name: string;
+      address: string;
+      phone?: string;
+      rating: number;
+      priceLevel: number;
+      cuisine: string[];
+      openingHours?: { weekdayText: string[] };
+    }
+  ): Promise<ChannelSendResult> {
+    const priceSymbols = '💰'.repeat(restaurant.priceLevel);
+    const cuisineText = restaurant.cuisine.join(', ');
+    const hoursText = restaurant.openingHours?.weekdayText?.slice(0, 3).join('\n') || 'Hours not available';
+
+    let details = `🍽️ **${restaurant.name}**\n\n`;
+    details += `📍 ${restaurant.address}\n`;
+    details += `⭐ ${restaurant.rating}/5 • ${priceSymbols}\n`;
+    details += `🍴 ${cuisineText}\n\n`;
+    details += `⏰ **Hours:**\n${hoursText}\n\n`;
+
+    if (restaurant.phone) {
+      details += `📞 ${restaurant.phone}\n\n`;
+    }
+
+    const booking = this.features.isEnabled('reservationBooking');
+    details += booking ? `Would you like to make a reservation?` : `Please contact the restaurant directly to book a table.`;
+
+    const { channel, recipient } = this.router.resolve(userId);
+    return channel.sendButtons(recipient, details, [
+      ...(booking ? [{ id: `book_${restaurant.id}`, title: '📅 Make Reservation' }] : []),
+      ...(this.features.isEnabled('customerPreferences')
+        ? [{ id: `favorite_${restaurant.id}`, title: '❤️ Add to Favorites' }]
+        : []),
+      { id: 'search_more', title: '🔍 Search More' },
+    ]);
+  }
+
+  async sendReservationForm(userId: string, restaurantName: string): Promise<ChannelSendResult> {
+    const text = `📅 **Make a Reservation at ${restaurantName}**\n\nPlease provide the following details:\n\n1. **Date** (e.g., "Tomorrow", "Friday", "Dec 25")\n2. **Time** (e.g., "7:00 PM", "19:00")\n3. **Party size** (number of people)\n4. **Special requests** (dietary restrictions, occasion, etc.) - optional\n\nExample: "Tomorrow 7PM for 4 people, one person is vegetarian"`;
+
+    return this.sendTextMessage(userId, text);
+  }
+
+  async sendReservationConfirmation(
+    userId: string,
+    reservation: {
+      restaurantName: string;
+      date: string;
+      time: string;
+      partySize: number;
+      confirmationCode?: string;
+      status: string;
+    }
+  ): Promise<ChannelSendResult> {
+    let message = `✅ **Reservation ${reservation.status.toUpperCase()}**\n\n`;
+    message += `🍽️ **Restaurant:** ${reservation.restaurantName}\n`;
+    message += `📅 **Date:** ${reservation.date}\n`;
+    message += `⏰ **Time:** ${reservation.time}\n`;
+    message += `👥 **Party Size:** ${reservation.partySize} ${reservation.partySize === 1 ? 'person' : 'people'}\n`;
+
+    if (reservation.confirmationCode) {
+      message += `🎫 **Confirmation Code:** ${reservation.confirmationCode}\n`;
+    }
+
+    message += `\n📝 Please arrive 15 minutes early and bring a valid ID.`;
+
+    return this.sendTextMessage(userId, message);
+  }
+
+  async sendLocationRequest(userId: string): Promise<ChannelSendResult> {
+    const sharing = this.features.isEnabled('locationSharing');
+    const defaultLocation = this.features.isEnabled('customerPreferences');
+    const options = [
+      ...(sharing ? ['Share your current location using the 📎 attachment button'] : []),
+      'Type an address or city name',
+      ...(defaultLocation ? ['Use your default location from preferences'] : []),
+    ];
+
+    const { channel, recipient } = this.router.resolve(userId);
+    return channel.sendButtons(
+      recipient,
+      `📍 To find restaurants near you, I need your location. You can:\n\n${options.map((option, index) => `${index + 1}. ${option}`).join('\n')}`,
+      [
+        ...(defaultLocation ? [{ id: 'use_default_location', title: '📍 Use Default Location' }] : []),
+        { id: 'type_address', title: '✏️ Type Address' },
+        ...(sharing ? [{ id: 'help_location', title: '❓ Help' }] : []),
+      ]
+    );
+  }
+
+  async sendDietaryRestrictionsMenu(userId: string): Promise<ChannelSendResult> {
+    const { channel, recipient } = this.router.resolve(userId);
+    return channel.sendList(
+      recipient,
+      'Please select your dietary restrictions and preferences. I\'ll help you find suitable restaurants:',
+      'Select Preferences',
+      [
+        {
+          title: 'Dietary Restrictions',
+          rows: [
+            { id: 'vegetarian', title: '🥬 Vegetarian', description: 'No meat or fish' },
+            { id: 'vegan', title: '🌱 Vegan', description: 'No animal products' },
+            { id: 'gluten_free', title: '🌾 Gluten-Free', description: 'No wheat, barley, rye' },
+            { id: 'dairy_free', title: '🥛 Dairy-Free', description: 'No milk products' },
+          ],
+        },
+        {
+          title: 'Allergies',
+          rows: [
+            { id: 'nut_free', title: '🥜 Nut-Free', description: 'No nuts or nut oils' },
+            { id: 'shellfish_free', title: '🦐 Shellfish-Free', description: 'No shellfish or crustaceans' },
+          ],
+        },
+        {
+          title: 'Religious/Cultural',
+          rows: [
+            { id: 'halal', title: '☪️ Halal', description: 'Islamic dietary laws' },
+            { id: 'kosher', title: '✡️ Kosher', description: 'Jewish dietary laws' },
+          ],
+        },
+      ],
+      { header: '🥗 Dietary Preferences' }
+    );
+  }
+
+  async sendMainMenu(userId: string, userName?: string): Promise<ChannelSendResult> {
+    const greeting = userName ? `Hello ${userName}! 👋` : 'Hello! 👋';
+    const preferences = this.features.isEnabled('customerPreferences');
+    const capabilities = [
+      'Find restaurants based on your preferences',
+      ...(this.features.isEnabled('reservationBooking') ? ['Make real reservations through OpenTable'] : []),
+      // Restrictions are remembered as part of the saved preferences
+      ...(preferences && this.features.isEnabled('dietaryRestrictions') ? ['Remember your dietary restrictions'] : []),
+      ...(preferences ? ['Save your favorite places'] : []),
+    ];
+
+    const { channel, recipient } = this.router.resolve(userId);
+    return channel.sendButtons(
+      recipient,
+      `${greeting}\n\nI'm your personal restaurant concierge! I can help you:\n\n${capabilities.map(line => `• ${line}`).join('\n')}\n\nWhat would you like to do?`,
+      [
+        { id: 'search_restaurants', title: '🔍 Find Restaurants' },
+        ...(preferences ? [{ id: 'my_preferences', title: '⚙️ My Preferences' }] : []),
+        { id: 'help', title: '❓ Help' },
+      ],
+      {
+        header: '🍽️ Restaurant Concierge',
+        footer: 'AI-powered dining assistant',
+      }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import type { ChannelName, InboundMessage } from '../types/index.js';
+
+export interface ChannelButton {
+  id: string;
+  title: string;
+}
+
+export interface ChannelListSection {
+  title: string;
+  rows: Array<{
+    id: string;
+    title: string;
+    description?: string;
+  }>;
+}
+
+export interface ChannelInteractiveOptions {
+  header?: string;
+  footer?: string;
+}
+
+export interface ChannelLocation {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+}
+
+export interface ChannelSendResult {
+  messageId: string;
+}
+
+export type InboundHandler = (messages: InboundMessage[]) => Promise<void>;
+
+// A messenger the concierge can talk through. Adapters normalize inbound
+// traffic into InboundMessage and render the send primitives as well as the
+// platform allows; buttons and lists fall back to numbered text replies.
+export interface MessagingChannel {
+  readonly name: ChannelName;
+
+  onInbound(handler: InboundHandler): void;
+
+  sendText(to: string, text: string): Promise<ChannelSendResult>;
+  sendButtons(to: string, body: string, buttons: ChannelButton[], options?: ChannelInteractiveOptions): Promise<ChannelSendResult>;
+  sendList(
+    to: string,
+    body: string,
+    buttonLabel: string,
+    sections: ChannelListSection[],
+    options?: ChannelInteractiveOptions
+  ): Promise<ChannelSendResult>;
+  sendLocation(to: string, location: ChannelLocation): Promise<ChannelSendResult>;
+  sendImage(to: string, image: { link: string; caption?: string }): Promise<ChannelSendResult>;
+  sendDocument(to: string, document: { link: string; filename?: string; caption?: string }): Promise<ChannelSendResult>;
+
+  // Not every channel has read receipts, typing indicators or downloadable media
+  markAsRead?(messageId: string): Promise<void>;
+  sendTypingIndicator?(to: string): Promise<void>;
+  downloadMedia?(mediaId: string): Promise<{ data: Buffer; mimeType: string }>;
+}
+
+// User ids are namespaced by channel ("telegram:123") except WhatsApp's,
+// which stay bare phone numbers as they were before other channels existed
+export function channelUserId(channel: ChannelName, id: string): string {
+  return channel === 'whatsapp' ? id : `${channel}:${id}`;
+}
+
+// Inverse of channelUserId; bare ids belong to WhatsApp
+export function splitChannelUserId(userId: string): { channel: string; id: string } {
+  const separator = userId.indexOf(':');
+  if (separator > 0) {
+    return { channel: userId.slice(0, separator), id: userId.slice(separator + 1) };
+  }
+  return { channel: 'whatsapp', id: userId };
+}
+
+export class ChannelRouter {
+  private channels: Map<ChannelName, MessagingChannel> = new Map();
+
+  // A later channel replaces an earlier one with the same name
+  constructor(channels: MessagingChannel[]) {
+    for (const channel of channels) {
+      this.channels.set(channel.name, channel);
+    }
+    if (!this.channels.has('whatsapp')) {
+      throw new Error('ChannelRouter requires a WhatsApp channel');
+    }
+  }
+
+  list(): MessagingChannel[] {
+    return Array.from(this.channels.values());
+  }
+
+  // Finds the channel a user belongs to and their id on that channel
+  resolve(userId: string): { channel: MessagingChannel; recipient: string } {
+    const { channel: name, id } = splitChannelUserId(userId);
+    const channel = this.channels.get(name as ChannelName);
+    if (channel) {
+      return { channel, recipient: id };
+    }
+    return { channel: this.channels.get('whatsapp')!, recipient: userId };
+  }
+}
@@ -0,0 +1,55 @@
+import type { ChannelButton, ChannelListSection } from './messaging-channel.js';
+
+// Text fallback for buttons and lists: options are listed with numbers and a
+// later "2" from the same user is mapped back to the option's id
+export class NumberedChoices {
+  private pending: Map<string, ChannelButton[]> = new Map();
+  private maxUsers: number;
+
+  constructor(maxUsers = 10000) {
+    this.maxUsers = maxUsers;
+  }
+
+  renderButtons(to: string, body: string, buttons: ChannelButton[]): string {
+    this.remember(to, buttons);
+    const lines = buttons.map((button, index) => `${index + 1}. ${button.title}`);
+    return `${body}\n\n${lines.join('\n')}\n\nReply with a number to choose.`;
+  }
+
+  renderList(to: string, body: string, sections: ChannelListSection[]): string {
+    const options: ChannelButton[] = [];
+    let text = body;
+
+    for (const section of sections) {
+      text += `\n\n${section.title}`;
+      for (const row of section.rows) {
+        options.push({ id: row.id, title: row.title });
+        text += `\n${options.length}. ${row.title}${row.description ? ` - ${row.description}` : ''}`;
+      }
+    }
+
+    this.remember(to, options);
+    return `${text}\n\nReply with a number to choose.`;
+  }
+
+  // Returns the option a bare-number reply refers to, if any
+  resolve(from: string, text: string): ChannelButton | undefined {
+    const match = text.trim().match(/^(\d{1,2})\.?$/);
+    const options = this.pending.get(from);
+    if (!match || !options) {
+      return undefined;
+    }
+    return options[parseInt(match[1]) - 1];
+  }
+
+  private remember(to: string, options: ChannelButton[]): void {
+    this.pending.delete(to);
+    this.pending.set(to, options);
+    if (this.pending.size > this.maxUsers) {
+      const oldest = this.pending.keys().next().value;
+      if (oldest !== undefined) {
+        this.pending.delete(oldest);
+      }
+    }
+  }
+}
@@ -0,0 +1,301 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import type { InboundMessage } from '../types/index.js';
+import {
+  channelUserId,
+  type ChannelButton,
+  type ChannelInteractiveOptions,
+  type ChannelListSection,
+  type ChannelLocation,
+  type ChannelSendResult,
+  type InboundHandler,
+  type MessagingChannel,
+} from './messaging-channel.js';
+import { NumberedChoices } from './numbered-choices.js';
+import { DEFAULT_HTTP_TIMEOUT_MS, DeliveryUnknownError, requestNeverSent } from '../utils/http.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('telegram-channel');
+
+export interface TelegramConfig {
+  botToken: string;
+  apiBaseUrl?: string;
+  requestTimeoutMs?: number;
+}
+
+const DEFAULT_API_BASE_URL = 'https://api.telegram.org';
+const SECRET_TOKEN_HEADER = 'x-telegram-bot-api-secret-token';
+
+// Telegram rejects inline keyboard buttons whose callback_data is over 64 bytes
+const MAX_CALLBACK_DATA_BYTES = 64;
+
+type InlineKeyboard = Array<Array<{ text: string; callback_data: string }>>;
+
+function composeText(body: string, options: ChannelInteractiveOptions = {}): string {
+  return [options.header, body, options.footer].filter(Boolean).join('\n\n');
+}
+
+// Talks to the Telegram Bot API. Reply buttons become inline keyboards, list
+// rows become one keyboard button each with their descriptions in the text.
+export class TelegramChannel implements MessagingChannel {
+  readonly name = 'telegram' as const;
+  private config: TelegramConfig;
+  private apiBaseUrl: string;
+  private timeout: number;
+  private handler?: InboundHandler;
+  private numberedChoices = new NumberedChoices();
+
+  constructor(config: TelegramConfig) {
+    this.config = config;
+    this.apiBaseUrl = config.apiBaseUrl || DEFAULT_API_BASE_URL;
+    this.timeout = config.requestTimeoutMs || DEFAULT_HTTP_TIMEOUT_MS;
+  }
+
+  onInbound(handler: InboundHandler): void {
+    this.handler = handler;
+  }
+
+  // Handles one webhook update; resolves once the inbound handler has accepted it
+  async receive(update: any): Promise<void> {
+    if (update?.callback_query) {
+      // Stops the spinner on the tapped button
+      this.call('answerCallbackQuery', { callback_query_id: update.callback_query.id }).catch(error => {
+        logger.error('Failed to answer Telegram callback query', { error });
+      });
+    }
+
+    const message = this.parseUpdate(update);
+    if (message && this.handler) {
+      await this.handler([message]);
+    }
+  }
+
+  parseUpdate(update: any): InboundMessage | null {
+    if (update?.callback_query) {
+      return this.parseCallbackQuery(update.callback_query);
+    }
+
+    const message = update?.message;
+    if (!message?.chat?.id) {
+      return null;
+    }
+
+    const parsed: InboundMessage = {
+      id: `tg_${message.chat.id}_${message.message_id}`,
+      from: channelUserId('telegram', String(message.chat.id)),
+      to: 'telegram',
+      timestamp: message.date,
+      type: 'text',
+      channel: this.name,
+    };
+
+    if (typeof message.text === 'string') {
+      const choice = this.numberedChoices.resolve(String(message.chat.id), message.text);
+      if (choice) {
+        parsed.type = 'interactive';
+        parsed.interactive = { type: 'button_reply', button_reply: choice };
+      } else {
+        // Bot commands like "/help@ConciergeBot" map onto the plain keywords
+        parsed.text = { body: message.text.replace(/^\/(\w+)(@\w+)?/, '$1') };
+      }
+    } else if (message.venue || message.location) {
+      parsed.type = 'location';
+      parsed.location = {
+        latitude: (message.venue?.location || message.location).latitude,
+        longitude: (message.venue?.location || message.location).longitude,
+        name: message.venue?.title,
+        address: message.venue?.address,
+      };
+    } else if (message.photo?.length) {
+      // Photos arrive in several sizes, smallest first
+      parsed.type = 'image';
+      parsed.image = { id: message.photo[message.photo.length - 1].file_id, mime_type: 'image/jpeg' };
+    } else if (message.voice || message.audio) {
+      const audio = message.voice || message.audio;
+      parsed.type = 'audio';
+      parsed.audio = { id: audio.file_id, mime_type: audio.mime_type || 'audio/ogg', voice: Boolean(message.voice) };
+    } else {
+      parsed.type = 'document';
+    }
+
+    return parsed;
+  }
+
+  sendText(to: string, text: string): Promise<ChannelSendResult> {
+    return this.call('sendMessage', { chat_id: to, text });
+  }
+
+  sendButtons(
+    to: string,
+    body: string,
+    buttons: ChannelButton[],
+    options: ChannelInteractiveOptions = {}
+  ): Promise<ChannelSendResult> {
+    if (!this.fitsCallbackData(buttons)) {
+      return this.sendText(to, this.numberedChoices.renderButtons(to, composeText(body, options), buttons));
+    }
+
+    const keyboard: InlineKeyboard = buttons.map(button => [{ text: button.title, callback_data: button.id }]);
+    return this.call('sendMessage', {
+      chat_id: to,
+      text: composeText(body, options),
+      reply_markup: { inline_keyboard: keyboard },
+    });
+  }
+
+  sendList(
+    to: string,
+    body: string,
+    _buttonLabel: string,
+    sections: ChannelListSection[],
+    options: ChannelInteractiveOptions = {}
+  ): Promise<ChannelSendResult> {
+    const rows = sections.flatMap(section => section.rows);
+    if (!this.fitsCallbackData(rows)) {
+      return this.sendText(to, this.numberedChoices.renderList(to, composeText(body, options), sections));
+    }
+
+    let text = body;
+    for (const section of sections) {
+      text += `\n\n${section.title}`;
+      for (const row of section.rows) {
+        text += `\n• ${row.title}${row.description ? ` - ${row.description}` : ''}`;
+      }
+    }
+
+    const keyboard: InlineKeyboard = rows.map(row => [{ text: row.title, callback_data: row.id }]);
+    return this.call('sendMessage', {
+      chat_id: to,
+      text: composeText(text, options),
+      reply_markup: { inline_keyboard: keyboard },
+    });
+  }
+
+  // Venues show a name and address with the pin; plain locations don't
+  sendLocation(to: string, location: ChannelLocation): Promise<ChannelSendResult> {
+    if (location.name) {
+      return this.call('sendVenue', {
+        chat_id: to,
+        latitude: location.latitude,
+        longitude: location.longitude,
+        title: location.name,
+        address: location.address || '',
+      });
+    }
+
+    return this.call('sendLocation', {
+      chat_id: to,
+      latitude: location.latitude,
+      longitude: location.longitude,
+    });
+  }
+
+  sendImage(to: string, image: { link: string; caption?: string }): Promise<ChannelSendResult> {
+    return this.call('sendPhoto', { chat_id: to, photo: image.link, caption: image.caption });
+  }
+
+  sendDocument(to: string, document: { link: string; filename?: string; caption?: string }): Promise<ChannelSendResult> {
+    return this.call('sendDocument', { chat_id: to, document: document.link, caption: document.caption });
+  }
+
+  // Shows "typing…" for up to five seconds or until the next message
+  async sendTypingIndicator(to: string): Promise<void> {
+    try {
+      await this.call('sendChatAction', { chat_id: to, action: 'typing' });
+    } catch (error) {
+      logger.error('Failed to send Telegram typing indicator', { error });
+    }
+  }
+
+  // File ids resolve to a path that is downloaded with the bot token
+  async downloadMedia(mediaId: string): Promise<{ data: Buffer; mimeType: string }> {
+    try {
+      const file = await axios.get(`${this.apiBaseUrl}/bot${this.config.botToken}/getFile`, {
+        params: { file_id: mediaId },
+        timeout: this.timeout,
+      });
+      const response = await axios.get(
+        `${this.apiBaseUrl}/file/bot${this.config.botToken}/${file.data.result.file_path}`,
+        { responseType: 'arraybuffer', timeout: this.timeout }
+      );
+      const contentType = String(response.headers['content-type'] || '');
+
+      return {
+        data: Buffer.from(response.data),
+        // Telegram mostly serves octet-stream; the caller falls back to the message's mime type
+        mimeType: contentType === 'application/octet-stream' ? '' : contentType,
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(`Telegram media download failed: ${error.response?.data?.description || error.message}`, { cause: error });
+      }
+      throw error;
+    }
+  }
+
+  private fitsCallbackData(options: ChannelButton[]): boolean {
+    return options.every(option => Buffer.byteLength(option.id) <= MAX_CALLBACK_DATA_BYTES);
+  }
+
+  private parseCallbackQuery(query: any): InboundMessage | null {
+    const chatId = query.message?.chat?.id;
+    if (!chatId || !query.data) {
+      return null;
+    }
+
+    // The button label isn't sent back, so look it up on the message it was attached to
+    const keyboard: InlineKeyboard = query.message.reply_markup?.inline_keyboard || [];
+    const button = keyboard.flat().find(candidate => candidate.callback_data === query.data);
+
+    return {
+      id: `tg_cb_${query.id}`,
+      from: channelUserId('telegram', String(chatId)),
+      to: 'telegram',
+      timestamp: Math.floor(Date.now() / 1000),
+      type: 'interactive',
+      interactive: {
+        type: 'button_reply',
+        button_reply: { id: query.data, title: button?.text || query.data },
+      },
+      channel: this.name,
+    };
+  }
+
+  private async call(method: string, payload: Record<string, unknown>): Promise<ChannelSendResult> {
+    try {
+      const response = await axios.post(`${this.apiBaseUrl}/bot${this.config.botToken}/${method}`, payload, {
+        timeout: this.timeout,
+      });
+      return { messageId: String(response.data.result?.message_id ?? '') };
+    } catch (error) {
+      if (axios.isAxiosError(error) && !error.response && !requestNeverSent(error)) {
+        throw new DeliveryUnknownError(`Telegram API error: ${error.message}`, { cause: error });
+      }
+      if (axios.isAxiosError(error)) {
+        throw new Error(`Telegram API error: ${error.response?.data?.description || error.message}`, { cause: error });
+      }
+      throw error;
+    }
+  }
+}
+
+// Telegram echoes the secret_token given to setWebhook in a header on every
+// update. Fails closed: without a configured secret every update is refused.
+export function requireTelegramSecretToken(secret = process.env.TELEGRAM_WEBHOOK_SECRET): RequestHandler {
+  if (!secret) {
+    logger.error('TELEGRAM_WEBHOOK_SECRET is not set - all Telegram webhook updates will be rejected');
+  }
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const received = Buffer.from(req.get(SECRET_TOKEN_HEADER) || '');
+    const expected = Buffer.from(secret || '');
+
+    if (!secret || received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,319 @@
+import crypto from 'crypto';
+import type { Server } from 'http';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import type { InboundMessage } from '../types/index.js';
+import {
+  channelUserId,
+  type ChannelButton,
+  type ChannelInteractiveOptions,
+  type ChannelListSection,
+  type ChannelLocation,
+  type ChannelSendResult,
+  type InboundHandler,
+  type MessagingChannel,
+} from './messaging-channel.js';
+import { NumberedChoices } from './numbered-choices.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('web-chat-channel');
+
+export interface WebChatOptions {
+  path?: string;
+  maxBufferedEvents?: number; // per session, while no socket is connected
+  maxSessions?: number;
+  // Origins of the sites allowed to embed the widget; any origin when empty
+  allowedOrigins?: string[];
+}
+
+// Frames sent to the browser
+export type WebChatEvent =
+  | { type: 'session'; sessionId: string }
+  | { type: 'error'; error: string }
+  | { type: 'typing' } // cleared by the next message
+  | { type: 'text'; id: string; text: string }
+  | { type: 'buttons'; id: string; text: string; buttons: ChannelButton[]; header?: string; footer?: string }
+  | {
+      type: 'list';
+      id: string;
+      text: string;
+      buttonLabel: string;
+      sections: ChannelListSection[];
+      header?: string;
+      footer?: string;
+    }
+  | ({ type: 'location'; id: string } & ChannelLocation)
+  | { type: 'image'; id: string; link: string; caption?: string }
+  | { type: 'document'; id: string; link: string; filename?: string; caption?: string };
+
+interface WebChatSession {
+  id: string;
+  sockets: Set<WebSocket>;
+  interactive: boolean;
+  outbox: WebChatEvent[];
+}
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const MAX_FRAME_BYTES = 64 * 1024;
+
+// Browser chat over a WebSocket on the app's HTTP server. Clients open with
+// {"type":"hello","sessionId"?,"interactive"?} and get their session id back;
+// reconnecting with it resumes the conversation and flushes missed replies.
+// Clients that don't render buttons get numbered text options instead.
+export class WebChatChannel implements MessagingChannel {
+  readonly name = 'webchat' as const;
+  private path: string;
+  private maxBufferedEvents: number;
+  private maxSessions: number;
+  private allowedOrigins: string[];
+  private server?: WebSocketServer;
+  private sessions: Map<string, WebChatSession> = new Map();
+  private handler?: InboundHandler;
+  private numberedChoices = new NumberedChoices();
+
+  constructor(options: WebChatOptions = {}) {
+    this.path = options.path || '/webchat';
+    this.maxBufferedEvents = options.maxBufferedEvents || 50;
+    this.maxSessions = options.maxSessions || 10000;
+    this.allowedOrigins = options.allowedOrigins || [];
+  }
+
+  onInbound(handler: InboundHandler): void {
+    this.handler = handler;
+  }
+
+  attach(httpServer: Server): void {
+    this.server = new WebSocketServer({
+      server: httpServer,
+      path: this.path,
+      maxPayload: MAX_FRAME_BYTES,
+      verifyClient: (info: { origin: string }) => this.allowedOrigins.length === 0 || this.allowedOrigins.includes(info.origin),
+    });
+    this.server.on('connection', socket => {
+      let session: WebChatSession | undefined;
+
+      socket.on('message', async (data: RawData) => {
+        let frame: any;
+        try {
+          frame = JSON.parse(data.toString());
+        } catch {
+          this.deliver(socket, { type: 'error', error: 'Invalid JSON' });
+          return;
+        }
+
+        if (!session || frame?.type === 'hello') {
+          session = this.openSession(socket, frame, session);
+          if (frame?.type === 'hello') {
+            return;
+          }
+        }
+
+        const message = this.parseFrame(session, frame);
+        if (!message) {
+          this.deliver(socket, { type: 'error', error: 'Unsupported message' });
+          return;
+        }
+
+        try {
+          await this.handler?.([message]);
+        } catch (error) {
+          logger.error('Failed to accept web chat message', { error });
+          this.deliver(socket, { type: 'error', error: 'Message could not be delivered, please retry' });
+        }
+      });
+
+      socket.on('close', () => {
+        session?.sockets.delete(socket);
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    for (const client of this.server.clients) {
+      client.close(1001, 'Server shutting down');
+    }
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+  }
+
+  async sendText(to: string, text: string): Promise<ChannelSendResult> {
+    return this.emit(to, { type: 'text', id: this.eventId(), text });
+  }
+
+  async sendButtons(
+    to: string,
+    body: string,
+    buttons: ChannelButton[],
+    options: ChannelInteractiveOptions = {}
+  ): Promise<ChannelSendResult> {
+    if (!this.sessions.get(to)?.interactive) {
+      const text = [options.header, this.numberedChoices.renderButtons(to, body, buttons), options.footer];
+      return this.sendText(to, text.filter(Boolean).join('\n\n'));
+    }
+
+    return this.emit(to, { type: 'buttons', id: this.eventId(), text: body, buttons, ...options });
+  }
+
+  async sendList(
+    to: string,
+    body: string,
+    buttonLabel: string,
+    sections: ChannelListSection[],
+    options: ChannelInteractiveOptions = {}
+  ): Promise<ChannelSendResult> {
+    if (!this.sessions.get(to)?.interactive) {
+      const text = [options.header, this.numberedChoices.renderList(to, body, sections), options.footer];
+      return this.sendText(to, text.filter(Boolean).join('\n\n'));
+    }
+
+    return this.emit(to, { type: 'list', id: this.eventId(), text: body, buttonLabel, sections, ...options });
+  }
+
+  async sendTypingIndicator(to: string): Promise<void> {
+    // Only worth showing to someone who is watching
+    if (this.sessions.get(to)?.sockets.size) {
+      this.emit(to, { type: 'typing' });
+    }
+  }
+
+  async sendLocation(to: string, location: ChannelLocation): Promise<ChannelSendResult> {
+    return this.emit(to, { type: 'location', id: this.eventId(), ...location });
+  }
+
+  async sendImage(to: string, image: { link: string; caption?: string }): Promise<ChannelSendResult> {
+    return this.emit(to, { type: 'image', id: this.eventId(), ...image });
+  }
+
+  async sendDocument(to: string, document: { link: string; filename?: string; caption?: string }): Promise<ChannelSendResult> {
+    return this.emit(to, { type: 'document', id: this.eventId(), ...document });
+  }
+
+  // Reuses the session named in a hello frame when we still have it (or it
+  // survived a restart in the session store), otherwise starts a new one
+  private openSession(socket: WebSocket, frame: any, current?: WebChatSession): WebChatSession {
+    current?.sockets.delete(socket);
+
+    const requestedId = typeof frame?.sessionId === 'string' && SESSION_ID_PATTERN.test(frame.sessionId)
+      ? frame.sessionId
+      : undefined;
+    const sessionId = requestedId || crypto.randomUUID();
+
+    const session = this.getOrCreateSession(sessionId);
+    session.sockets.add(socket);
+    if (frame?.type === 'hello') {
+      session.interactive = frame.interactive === true;
+    }
+
+    this.deliver(socket, { type: 'session', sessionId });
+    for (const event of session.outbox.splice(0)) {
+      this.deliver(socket, event);
+    }
+    return session;
+  }
+
+  private parseFrame(session: WebChatSession, frame: any): InboundMessage | null {
+    const from = channelUserId('webchat', session.id);
+    // A client-supplied id lets a resent frame be recognised as a duplicate
+    const clientId = typeof frame?.id === 'string' && frame.id.length <= 64 ? frame.id : crypto.randomUUID();
+    const message: InboundMessage = {
+      id: `web_${session.id}_${clientId}`,
+      from,
+      to: 'webchat',
+      timestamp: Math.floor(Date.now() / 1000),
+      type: 'text',
+      channel: this.name,
+    };
+
+    switch (frame?.type) {
+      case 'text': {
+        if (typeof frame.text !== 'string' || !frame.text.trim()) {
+          return null;
+        }
+        const choice = this.numberedChoices.resolve(session.id, frame.text);
+        if (choice) {
+          message.type = 'interactive';
+          message.interactive = { type: 'button_reply', button_reply: choice };
+        } else {
+          message.text = { body: frame.text };
+        }
+        return message;
+      }
+
+      case 'reply':
+        if (typeof frame.replyId !== 'string') {
+          return null;
+        }
+        message.type = 'interactive';
+        message.interactive = {
+          type: 'button_reply',
+          button_reply: { id: frame.replyId, title: typeof frame.title === 'string' ? frame.title : frame.replyId },
+        };
+        return message;
+
+      case 'location':
+        if (typeof frame.latitude !== 'number' || typeof frame.longitude !== 'number') {
+          return null;
+        }
+        message.type = 'location';
+        message.location = {
+          latitude: frame.latitude,
+          longitude: frame.longitude,
+          name: frame.name,
+          address: frame.address,
+        };
+        return message;
+
+      default:
+        return null;
+    }
+  }
+
+  // Replies for a session with no open socket (including one from before a
+  // restart) are held until it reconnects
+  private emit(to: string, event: WebChatEvent): ChannelSendResult {
+    const session = this.getOrCreateSession(to);
+
+    if (session.sockets.size === 0) {
+      session.outbox.push(event);
+      session.outbox.splice(0, Math.max(0, session.outbox.length - this.maxBufferedEvents));
+    } else {
+      for (const socket of session.sockets) {
+        this.deliver(socket, event);
+      }
+    }
+
+    return { messageId: 'id' in event ? event.id : '' };
+  }
+
+  private deliver(socket: WebSocket, event: WebChatEvent): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(event));
+    }
+  }
+
+  private eventId(): string {
+    return `web_out_${crypto.randomUUID()}`;
+  }
+
+  private getOrCreateSession(sessionId: string): WebChatSession {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = { id: sessionId, sockets: new Set(), interactive: false, outbox: [] };
+      this.sessions.set(sessionId, session);
+      this.evictIdleSessions();
+    }
+    return session;
+  }
+
+  private evictIdleSessions(): void {
+    for (const [id, session] of this.sessions) {
+      if (this.sessions.size <= this.maxSessions) {
+        return;
+      }
+      if (session.sockets.size === 0) {
+        this.sessions.delete(id);
+      }
+    }
+  }
+}
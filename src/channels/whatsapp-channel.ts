@@ -0,0 +1,123 @@
+import type { InboundMessage, WhatsAppWebhookEvents } from '../types/index.js';
+import type { WhatsAppBusinessAPI } from '../integrations/whatsapp.js';
+import type {
+  ChannelButton,
+  ChannelInteractiveOptions,
+  ChannelListSection,
+  ChannelLocation,
+  ChannelSendResult,
+  InboundHandler,
+  MessagingChannel,
+} from './messaging-channel.js';
+
+// Cloud API limits on interactive messages; longer values are rejected outright
+const MAX_BUTTONS = 3;
+const MAX_LIST_ROWS = 10;
+const MAX_BUTTON_TITLE = 20;
+const MAX_ROW_TITLE = 24;
+const MAX_ROW_DESCRIPTION = 72;
+const MAX_HEADER = 60;
+
+function truncate(text: string, max: number): string {
+  const chars = Array.from(text);
+  return chars.length > max ? `${chars.slice(0, max - 1).join('')}…` : text;
+}
+
+export class WhatsAppChannel implements MessagingChannel {
+  readonly name = 'whatsapp' as const;
+  private api: WhatsAppBusinessAPI;
+  private handler?: InboundHandler;
+
+  constructor(api: WhatsAppBusinessAPI) {
+    this.api = api;
+  }
+
+  onInbound(handler: InboundHandler): void {
+    this.handler = handler;
+  }
+
+  // Records delivery statuses and hands the messages on; resolves once the
+  // inbound handler has accepted them
+  async receive(events: WhatsAppWebhookEvents): Promise<void> {
+    for (const status of events.statuses) {
+      this.api.deliveryTracker.recordStatus(status);
+    }
+
+    const messages: InboundMessage[] = events.messages.map(message => ({ ...message, channel: this.name }));
+    if (messages.length > 0 && this.handler) {
+      await this.handler(messages);
+    }
+  }
+
+  sendText(to: string, text: string): Promise<ChannelSendResult> {
+    return this.api.sendTextMessage(to, text);
+  }
+
+  sendButtons(
+    to: string,
+    body: string,
+    buttons: ChannelButton[],
+    options: ChannelInteractiveOptions = {}
+  ): Promise<ChannelSendResult> {
+    if (buttons.length > MAX_BUTTONS) {
+      return this.sendList(to, body, 'Choose', [{ title: 'Options', rows: buttons }], options);
+    }
+
+    return this.api.sendButtons(
+      to,
+      body,
+      buttons.map(button => ({ id: button.id, title: truncate(button.title, MAX_BUTTON_TITLE) })),
+      this.interactiveOptions(options)
+    );
+  }
+
+  sendList(
+    to: string,
+    body: string,
+    buttonLabel: string,
+    sections: ChannelListSection[],
+    options: ChannelInteractiveOptions = {}
+  ): Promise<ChannelSendResult> {
+    let remaining = MAX_LIST_ROWS;
+    const limited = sections
+      .map(section => {
+        const rows = section.rows.slice(0, remaining).map(row => ({
+          id: row.id,
+          title: truncate(row.title, MAX_ROW_TITLE),
+          description: row.description ? truncate(row.description, MAX_ROW_DESCRIPTION) : undefined,
+        }));
+        remaining -= rows.length;
+        return { title: truncate(section.title, MAX_ROW_TITLE), rows };
+      })
+      .filter(section => section.rows.length > 0);
+
+    return this.api.sendList(to, body, truncate(buttonLabel, MAX_BUTTON_TITLE), limited, this.interactiveOptions(options));
+  }
+
+  sendLocation(to: string, location: ChannelLocation): Promise<ChannelSendResult> {
+    return this.api.sendLocation(to, location);
+  }
+
+  sendImage(to: string, image: { link: string; caption?: string }): Promise<ChannelSendResult> {
+    return this.api.sendImage(to, image);
+  }
+
+  sendDocument(to: string, document: { link: string; filename?: string; caption?: string }): Promise<ChannelSendResult> {
+    return this.api.sendDocument(to, document);
+  }
+
+  markAsRead(messageId: string): Promise<void> {
+    return this.api.markMessageAsRead(messageId);
+  }
+
+  downloadMedia(mediaId: string): Promise<{ data: Buffer; mimeType: string }> {
+    return this.api.downloadMedia(mediaId);
+  }
+
+  private interactiveOptions(options: ChannelInteractiveOptions): ChannelInteractiveOptions {
+    return {
+      header: options.header ? truncate(options.header, MAX_HEADER) : undefined,
+      footer: options.footer ? truncate(options.footer, MAX_HEADER) : undefined,
+    };
+  }
+}
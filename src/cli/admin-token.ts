@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+
+import { program } from 'commander';
+import chalk from 'chalk';
+import dotenv from 'dotenv';
+import { isAdminRole, issueAdminToken } from '../utils/admin-auth.js';
+
+dotenv.config();
+
+program
+  .name('admin-token')
+  .description('Issue a JWT for the admin API, signed with JWT_SECRET')
+  .argument('<subject>', 'Who the token is for; recorded in the audit log')
+  .option('-r, --role <role>', 'viewer (read-only) or operator', 'viewer')
+  .option('-e, --expires-in <duration>', 'Lifetime, e.g. 8h or 30d', '8h')
+  .action((subject: string, options: { role: string; expiresIn: string }) => {
+    if (!isAdminRole(options.role)) {
+      console.error(chalk.red(`Unknown role "${options.role}"; use viewer or operator`));
+      process.exit(1);
+    }
+
+    try {
+      console.log(issueAdminToken({ subject, role: options.role }, { expiresIn: options.expiresIn }));
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    }
+  });
+
+program.parse();
@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+
+import { program } from 'commander';
+import chalk from 'chalk';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  diffTranscripts,
+  runConversation,
+  type ConversationScript,
+  type Transcript,
+} from '../transcripts/transcript-harness.js';
+import { configureLogger } from '../utils/logger.js';
+import { loggerOptionsFromEnv } from '../utils/config.js';
+
+interface TranscriptOptions {
+  update?: boolean;
+  dir: string;
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf-8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+program
+  .name('run-transcripts')
+  .description('Replay scripted conversations and compare the replies with golden transcripts')
+  .argument('[names...]', 'Only run these conversations')
+  .option('-u, --update', 'Re-record the golden transcripts')
+  .option('-d, --dir <directory>', 'Transcript directory', path.join('data', 'transcripts'))
+  .action(async (names: string[], options: TranscriptOptions) => {
+    // Keep the agents' logs out of the report unless asked for
+    configureLogger({ level: loggerOptionsFromEnv().level || 'warn', format: 'pretty' });
+    const conversationsDir = path.join(options.dir, 'conversations');
+    const goldenDir = path.join(options.dir, 'golden');
+
+    const files = (await fs.readdir(conversationsDir))
+      .filter(file => file.endsWith('.json'))
+      .filter(file => names.length === 0 || names.includes(path.basename(file, '.json')))
+      .sort();
+
+    if (files.length === 0) {
+      console.log(chalk.yellow(`No conversations found in ${conversationsDir}`));
+      process.exit(1);
+    }
+
+    let failures = 0;
+    for (const file of files) {
+      const script = (await readJson<ConversationScript>(path.join(conversationsDir, file)))!;
+      const goldenFile = path.join(goldenDir, file);
+
+      let transcript: Transcript;
+      try {
+        transcript = await runConversation(script);
+      } catch (error) {
+        failures++;
+        console.log(chalk.red(`✗ ${script.name}: ${error instanceof Error ? error.message : String(error)}`));
+        continue;
+      }
+
+      if (options.update) {
+        await fs.mkdir(goldenDir, { recursive: true });
+        await fs.writeFile(goldenFile, JSON.stringify(transcript, null, 2) + '\n');
+        console.log(chalk.blue(`✎ ${script.name} recorded`));
+        continue;
+      }
+
+      const golden = await readJson<Transcript>(goldenFile);
+      if (!golden) {
+        failures++;
+        console.log(chalk.red(`✗ ${script.name}: no golden transcript, run with --update to record one`));
+        continue;
+      }
+
+      const difference = diffTranscripts(golden, transcript);
+      if (difference) {
+        failures++;
+        console.log(chalk.red(`✗ ${script.name}`));
+        console.log(chalk.gray(difference));
+      } else {
+        console.log(chalk.green(`✓ ${script.name}`));
+      }
+    }
+
+    const verb = options.update ? 'recorded' : 'match';
+    console.log(`\n${files.length - failures}/${files.length} conversations ${verb}`);
+    process.exit(failures > 0 ? 1 : 0);
+  });
+
+program.parse();
@@ -1,17 +1,39 @@
 import { EnhancedConciergeAgent } from './agents/enhanced-concierge.js';
+import { configureLogger, createLogger } from './utils/logger.js';
+import { loadEnhancedConfig, type EnhancedConfig } from './utils/config.js';
 
-const agent = new EnhancedConciergeAgent();
-const port = parseInt(process.env.PORT || '3000');
+const logger = createLogger('server');
 
-agent.start(port);
+// The agent module has loaded .env by now
+let config: EnhancedConfig;
+try {
+  config = loadEnhancedConfig();
+} catch (error) {
+  logger.error('Refusing to start', { error });
+  process.exit(1);
+}
+configureLogger(config.logging);
+
+const agent = new EnhancedConciergeAgent(config);
+
+agent.start(config.port);
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
-  console.log('SIGTERM received, shutting down gracefully');
+  logger.info('SIGTERM received, shutting down gracefully');
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
-  console.log('SIGINT received, shutting down gracefully');
+  logger.info('SIGINT received, shutting down gracefully');
   process.exit(0);
-});
\ No newline at end of file
+});
+
+// Re-reads the feature flag overrides file, e.g. after `kill -HUP <pid>`
+process.on('SIGHUP', () => {
+  try {
+    agent.reloadFeatureFlags();
+  } catch (error) {
+    logger.error('Failed to reload feature flags; keeping the previous values', { error });
+  }
+});
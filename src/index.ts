@@ -1,44 +1,160 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
+import path from 'path';
 import { RestaurantConciergeAgent } from './agents/restaurant-concierge.js';
+import { createSessionStore } from './utils/session-store.js';
+import { createMessageDeduplicator } from './utils/message-deduplicator.js';
+import { createMessageJobStore } from './utils/message-queue.js';
+import { captureRawBody, requireWebhookSignature } from './utils/webhook-signature.js';
+import { auditAdminAction, requireAdmin } from './utils/admin-auth.js';
+import { registerAdminRoutes } from './utils/admin-api.js';
+import { createSpeechToText } from './utils/speech-to-text.js';
+import { createMenuTextExtractor } from './utils/menu-reader.js';
+import { createInProcessToolProviders, createStdioToolProviders } from './utils/tool-providers.js';
+import {
+  HealthMonitor,
+  mcpServerChecks,
+  redisCheck,
+  registerHealthRoutes,
+  sqliteCheck,
+  whatsappCredentialsCheck,
+} from './utils/health-checks.js';
+import { TemplateError, TemplateRegistry, isTemplateName } from './integrations/template-registry.js';
+import type { MessagingChannel } from './channels/messaging-channel.js';
+import { TelegramChannel, requireTelegramSecretToken } from './channels/telegram-channel.js';
+import { WebChatChannel } from './channels/web-chat-channel.js';
+import { configureLogger, createLogger } from './utils/logger.js';
+import { registerMetricsRoute, trackActiveSessions } from './utils/metrics.js';
+import { createRateLimiter, rateLimit } from './utils/rate-limiter.js';
+import { FeatureFlags, loadConfig, type AppConfig } from './utils/config.js';
 
 dotenv.config();
 
+const logger = createLogger('server');
+
+// Fail fast on missing secrets rather than on the first webhook; until then
+// the logger uses its defaults
+let config: AppConfig;
+try {
+  config = loadConfig();
+} catch (error) {
+  logger.error('Refusing to start', { error });
+  process.exit(1);
+}
+configureLogger(config.logging);
+
+// Capabilities offered to users; the overrides file is re-read on SIGHUP or
+// POST /admin/features/reload
+const featureFlags = new FeatureFlags(config.features, config.featureFlagsPath);
+try {
+  featureFlags.load();
+} catch (error) {
+  logger.error('Failed to load feature flag overrides; using the environment values', { error });
+}
+
 const app = express();
-const port = process.env.PORT || 3000;
+const port = config.port;
+app.set('trust proxy', config.trustProxy);
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody }));
 app.use(express.urlencoded({ extended: true }));
 
+// Admin and operator endpoints take a JWT whose role is at least the one named
+const requireViewer = requireAdmin('viewer', config.jwtSecret);
+const requireOperator = requireAdmin('operator', config.jwtSecret);
+
+// Conversation state lives in Redis when configured so it survives restarts
+// and can be shared between instances
+const sessionStore = createSessionStore({
+  ...config.redis,
+  sessionTimeoutMinutes: config.sessionTimeoutMinutes,
+});
+
+// Drops WhatsApp webhook retries of messages that were already handled
+const messageDeduplicator = createMessageDeduplicator({
+  ...config.redis,
+  ttlSeconds: config.messageDedupTtlSeconds,
+});
+
+// Accepted messages and dead letters are kept in Redis when configured so
+// they survive restarts
+const messageJobStore = createMessageJobStore({ ...config.redis });
+
+// Sliding-window rate limits, shared between instances through Redis: one
+// budget per user for chat messages on every channel, one per authenticated
+// caller or IP for the HTTP API
+const messageRateLimiter = createRateLimiter({
+  ...config.redis,
+  limit: config.rateLimits.userMessagesPerMinute,
+});
+const apiRateLimiter = createRateLimiter({
+  ...config.redis,
+  limit: config.rateLimits.requestsPerMinute,
+});
+
+// Approved WhatsApp templates for messages sent outside the 24h window
+const templateRegistry = new TemplateRegistry(config.templatesPath);
+try {
+  templateRegistry.load();
+} catch (error) {
+  logger.error('Failed to load WhatsApp template catalogue', { error });
+}
+
+// Channels offered next to WhatsApp, each enabled by its own settings
+const channels: MessagingChannel[] = [];
+const telegramChannel = config.telegram
+  ? new TelegramChannel({ botToken: config.telegram.botToken })
+  : undefined;
+if (telegramChannel) {
+  channels.push(telegramChannel);
+}
+const webChatChannel = config.webChat ? new WebChatChannel(config.webChat) : undefined;
+if (webChatChannel) {
+  channels.push(webChatChannel);
+}
+
+// The MCP servers run as supervised child processes unless hosted in-process
+const toolProviders = config.mcp.mode === 'in-process'
+  ? createInProcessToolProviders()
+  : createStdioToolProviders({ maxRestarts: config.mcp.maxRestarts });
+
 // Initialize the restaurant concierge agent
 const agent = new RestaurantConciergeAgent({
-  whatsapp: {
-    accessToken: process.env.WHATSAPP_ACCESS_TOKEN!,
-    phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID!,
-    businessAccountId: process.env.WHATSAPP_BUSINESS_ACCOUNT_ID!,
-    webhookVerifyToken: process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN!,
-  },
-  openai: process.env.OPENAI_API_KEY ? {
-    apiKey: process.env.OPENAI_API_KEY,
-    model: process.env.OPENAI_MODEL || 'gpt-4',
-  } : undefined,
-  anthropic: process.env.ANTHROPIC_API_KEY ? {
-    apiKey: process.env.ANTHROPIC_API_KEY,
-  } : undefined,
-});
-
-// Health check endpoint
-app.get('/health', (req, res) => {
-  res.json({ 
-    status: 'healthy', 
-    timestamp: new Date().toISOString(),
-    service: 'restaurant-concierge-agent' 
-  });
+  whatsapp: config.whatsapp,
+  openai: config.openai,
+  anthropic: config.anthropic,
+  speechToText: createSpeechToText({ ...config.speechToText, openai: config.openai }),
+  // Created whenever a provider is available; the menuAnalysis flag decides
+  // per message whether it is used
+  menuTextExtractor: createMenuTextExtractor({ ...config.menuAnalysis, openai: config.openai }),
+  featureFlags,
+  templateRegistry,
+  channels,
+  toolProviders,
+  messageRateLimiter,
+  sessionStore,
+  messageDeduplicator,
+  messageJobStore,
+  messageRetry: config.messageRetry,
+  timezone: config.timezone,
 });
 
+// Liveness and readiness probes; readiness covers everything a conversation needs
+const healthMonitor = new HealthMonitor('restaurant-concierge-agent', [
+  ...mcpServerChecks(() => agent.getToolProviderStatus()),
+  sqliteCheck(config.databasePath),
+  ...(config.redis ? [redisCheck(config.redis)] : []),
+  whatsappCredentialsCheck(() => agent.verifyWhatsAppCredentials()),
+]);
+registerHealthRoutes(app, healthMonitor);
+
+// Prometheus scrape endpoint
+trackActiveSessions(() => sessionStore.count());
+registerMetricsRoute(app);
+
 // WhatsApp webhook verification
 app.get('/webhook/whatsapp', (req, res) => {
   const mode = req.query['hub.mode'] as string;
@@ -48,65 +164,153 @@ app.get('/webhook/whatsapp', (req, res) => {
   const verificationResult = agent.verifyWebhook(mode, token, challenge);
   
   if (verificationResult) {
-    console.log('WhatsApp webhook verified successfully');
+    logger.info('WhatsApp webhook verified');
     return res.status(200).send(challenge);
   } else {
-    console.log('WhatsApp webhook verification failed');
+    logger.warn('WhatsApp webhook verification failed');
     return res.status(403).send('Verification failed');
   }
 });
 
 // WhatsApp webhook message handler
-app.post('/webhook/whatsapp', async (req, res) => {
+app.post('/webhook/whatsapp', requireWebhookSignature(config.webhookSecret), async (req, res) => {
   try {
-    const message = agent.parseIncomingMessage(req.body);
+    const events = agent.parseWebhookEvents(req.body);
     
-    if (message) {
-      // Process message asynchronously to respond quickly to WhatsApp
-      setImmediate(async () => {
-        try {
-          await agent.handleIncomingMessage(message);
-        } catch (error) {
-          console.error('Error processing WhatsApp message:', error);
-        }
-      });
+    if (events.messages.length > 0 || events.statuses.length > 0) {
+      // Only acknowledge once messages are queued; processing continues in the
+      // background, and a failure here makes WhatsApp redeliver the batch
+      await agent.handleWebhookEvents(events);
       
       res.status(200).send('OK');
     } else {
-      res.status(200).send('No message to process');
+      res.status(200).send('No events to process');
     }
   } catch (error) {
-    console.error('Error handling WhatsApp webhook:', error);
+    logger.error('Error handling WhatsApp webhook', { error });
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// API endpoint for direct message processing (for n8n workflows)
-app.post('/api/concierge/message', async (req, res) => {
+// Telegram Bot API webhook, registered with setWebhook and TELEGRAM_WEBHOOK_SECRET
+// as its secret_token
+if (telegramChannel && config.telegram) {
+  app.post('/webhook/telegram', requireTelegramSecretToken(config.telegram.webhookSecret), async (req, res) => {
+    try {
+      // As with WhatsApp, a failure before the update is queued makes Telegram redeliver it
+      await telegramChannel.receive(req.body);
+      res.status(200).send('OK');
+    } catch (error) {
+      logger.error('Error handling Telegram webhook', { error });
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+}
+
+// Embeddable chat widget and a demo page for the web chat channel
+if (webChatChannel) {
+  app.use('/webchat', express.static(path.join(process.cwd(), 'public', 'webchat')));
+}
+
+// API endpoint for direct message processing (for n8n workflows); takes an
+// operator JWT since it acts on behalf of any user
+app.post(
+  '/api/concierge/message',
+  auditAdminAction('message.process'),
+  requireOperator,
+  rateLimit('api', apiRateLimiter),
+  async (req, res) => {
+    try {
+      const { message } = req.body;
+
+      if (!message) {
+        return res.status(400).json({ error: 'Message is required' });
+      }
+
+      await agent.handleIncomingMessage(message);
+      res.json({ success: true, message: 'Message processed successfully' });
+    } catch (error) {
+      logger.error('Error processing message via API', { error });
+      res.status(500).json({ 
+        error: 'Failed to process message',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
+// Proactive notifications (e.g. reminders from n8n); picks session text or a
+// template depending on when the user last wrote to us
+app.post('/api/concierge/notify', auditAdminAction('user.notify'), requireOperator, async (req, res) => {
+  const { userId, template, parameters } = req.body;
+
+  if (!userId || typeof template !== 'string' || !isTemplateName(template)) {
+    return res.status(400).json({ error: 'userId and a known template are required' });
+  }
+
   try {
-    const { message } = req.body;
-    
-    if (!message) {
-      return res.status(400).json({ error: 'Message is required' });
+    const result = await agent.notifyUser(userId, template, parameters || {});
+    return res.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return res.status(400).json({ error: error.message });
+    }
+    logger.error('Error sending notification', { error });
+    return res.status(500).json({ error: 'Failed to send notification' });
+  }
+});
+
+// Messages that failed permanently or ran out of retries
+app.get('/admin/dead-letters', auditAdminAction('dead_letters.list'), requireViewer, async (req, res) => {
+  try {
+    const deadLetters = await agent.messageQueue.listDeadLetters();
+    res.json({ count: deadLetters.length, deadLetters });
+  } catch (error) {
+    logger.error('Error listing dead letters', { error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/admin/dead-letters/:id/retry', auditAdminAction('dead_letters.retry'), requireOperator, async (req, res) => {
+  try {
+    const job = await agent.messageQueue.retryDeadLetter(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Dead letter not found' });
     }
+    return res.json({ success: true, job });
+  } catch (error) {
+    logger.error('Error retrying dead letter', { error });
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Conversations and customer records for operators, with JWT roles
+registerAdminRoutes(app, agent, config.jwtSecret);
 
-    await agent.handleIncomingMessage(message);
-    res.json({ success: true, message: 'Message processed successfully' });
+app.get('/admin/whatsapp/send-metrics', auditAdminAction('send_metrics.view'), requireViewer, (req, res) => {
+  res.json(agent.getSendMetrics());
+});
+
+// Picks up edits to the template catalogue without a restart
+app.post('/admin/templates/reload', auditAdminAction('templates.reload'), requireOperator, (req, res) => {
+  try {
+    templateRegistry.load();
+    return res.json({ success: true, templates: templateRegistry.list().map(template => template.name) });
   } catch (error) {
-    console.error('Error processing message via API:', error);
-    res.status(500).json({ 
-      error: 'Failed to process message',
-      details: error instanceof Error ? error.message : 'Unknown error'
+    logger.error('Error reloading WhatsApp template catalogue', { error });
+    return res.status(400).json({
+      error: 'Invalid template catalogue',
+      details: error instanceof Error ? error.message : 'Unknown error',
     });
   }
 });
 
 // Error handling middleware
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error('Unhandled error:', err);
+  logger.error('Unhandled error', { error: err });
   res.status(500).json({ 
     error: 'Internal server error',
-    message: process.env.NODE_ENV === 'development' ? err.message : 'Something went wrong'
+    message: config.environment === 'development' ? err.message : 'Something went wrong'
   });
 });
 
@@ -116,20 +320,69 @@ app.use('*', (req, res) => {
 });
 
 // Start the server
-app.listen(port, () => {
-  console.log(`🚀 Restaurant Concierge Agent listening on port ${port}`);
-  console.log(`📱 WhatsApp webhook URL: ${process.env.WEBHOOK_BASE_URL || `http://localhost:${port}`}/webhook/whatsapp`);
-  console.log(`🏥 Health check: http://localhost:${port}/health`);
-  console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
+const server = app.listen(port, () => {
+  const baseUrl = config.publicBaseUrl || `http://localhost:${port}`;
+  logger.info('Restaurant Concierge Agent listening', {
+    port,
+    whatsappWebhookUrl: `${baseUrl}/webhook/whatsapp`,
+    ...(telegramChannel ? { telegramWebhookUrl: `${baseUrl}/webhook/telegram` } : {}),
+    ...(webChatChannel ? { webChatUrl: `ws://localhost:${port}${config.webChat?.path || '/webchat'}` } : {}),
+    healthCheckUrl: `http://localhost:${port}/health/ready`,
+    environment: config.environment,
+  });
+
+  // Replay queued messages once the MCP servers are up
+  agent.init()
+    .then(status => {
+      const notReady = Object.entries(status).filter(([, server]) => server.state !== 'ready').map(([name]) => name);
+      if (notReady.length > 0) {
+        logger.warn('MCP servers not ready', { servers: notReady });
+      } else {
+        logger.info('MCP servers ready');
+      }
+      return agent.messageQueue.recover();
+    })
+    .then(count => {
+      if (count > 0) {
+        logger.info('Recovered queued messages from before the last shutdown', { count });
+      }
+    })
+    .catch(error => logger.error('Failed to recover queued messages', { error }));
 });
+webChatChannel?.attach(server);
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
-  console.log('SIGTERM received, shutting down gracefully');
+process.on('SIGTERM', async () => {
+  logger.info('SIGTERM received, shutting down gracefully');
+  await sessionStore.close();
+  await messageDeduplicator.close();
+  await messageRateLimiter.close();
+  await apiRateLimiter.close();
+  await agent.messageQueue.close();
+  await webChatChannel?.close();
+  await agent.close();
+  await healthMonitor.close();
   process.exit(0);
 });
 
-process.on('SIGINT', () => {
-  console.log('SIGINT received, shutting down gracefully');
+process.on('SIGINT', async () => {
+  logger.info('SIGINT received, shutting down gracefully');
+  await sessionStore.close();
+  await messageDeduplicator.close();
+  await messageRateLimiter.close();
+  await apiRateLimiter.close();
+  await agent.messageQueue.close();
+  await webChatChannel?.close();
+  await agent.close();
+  await healthMonitor.close();
   process.exit(0);
-});
\ No newline at end of file
+});
+
+// Re-reads the feature flag overrides file, e.g. after `kill -HUP <pid>`
+process.on('SIGHUP', () => {
+  try {
+    agent.reloadFeatureFlags();
+  } catch (error) {
+    logger.error('Failed to reload feature flags; keeping the previous values', { error });
+  }
+});
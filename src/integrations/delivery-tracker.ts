@@ -0,0 +1,93 @@
+import type { WhatsAppDeliveryStatus, WhatsAppStatus } from '../types/index.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('delivery-tracker');
+
+export interface DeliveryRecord {
+  messageId: string;
+  recipientId: string;
+  status: 'accepted' | WhatsAppDeliveryStatus;
+  sentAt: Date;
+  updatedAt: Date;
+  errors?: WhatsAppStatus['errors'];
+}
+
+// WhatsApp reports status transitions out of order, so a late "delivered"
+// must never overwrite an earlier "read"
+const STATUS_RANK: Record<DeliveryRecord['status'], number> = {
+  accepted: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: 4,
+};
+
+const DEFAULT_MAX_TRACKED_MESSAGES = 10000;
+
+export class DeliveryTracker {
+  private records: Map<string, DeliveryRecord> = new Map();
+  private maxTrackedMessages: number;
+
+  constructor(maxTrackedMessages = DEFAULT_MAX_TRACKED_MESSAGES) {
+    this.maxTrackedMessages = maxTrackedMessages;
+  }
+
+  recordSent(messageId: string, recipientId: string): void {
+    const now = new Date();
+    this.records.set(messageId, {
+      messageId,
+      recipientId,
+      status: 'accepted',
+      sentAt: now,
+      updatedAt: now,
+    });
+    this.evictOldest();
+  }
+
+  recordStatus(status: WhatsAppStatus): DeliveryRecord {
+    const existing = this.records.get(status.id);
+    const updatedAt = new Date(status.timestamp * 1000);
+
+    const record: DeliveryRecord = existing || {
+      messageId: status.id,
+      recipientId: status.recipientId,
+      status: status.status,
+      sentAt: updatedAt,
+      updatedAt,
+    };
+
+    if (!existing || STATUS_RANK[status.status] >= STATUS_RANK[record.status]) {
+      record.status = status.status;
+      record.updatedAt = updatedAt;
+      record.errors = status.errors;
+    }
+
+    this.records.set(status.id, record);
+    this.evictOldest();
+
+    if (status.status === 'failed') {
+      const reason = status.errors?.map(error => `${error.code} ${error.title}`).join(', ') || 'unknown error';
+      logger.error('WhatsApp message delivery failed', { messageId: status.id, to: status.recipientId, reason });
+    }
+
+    return record;
+  }
+
+  getStatus(messageId: string): DeliveryRecord | undefined {
+    return this.records.get(messageId);
+  }
+
+  getFailedDeliveries(): DeliveryRecord[] {
+    return Array.from(this.records.values()).filter(record => record.status === 'failed');
+  }
+
+  private evictOldest(): void {
+    while (this.records.size > this.maxTrackedMessages) {
+      const oldest = this.records.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.records.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import {
+  WhatsAppAuthExpiredError,
+  WhatsAppInvalidRecipientError,
+  WhatsAppRateLimitError,
+  WhatsAppReengagementRequiredError,
+} from './whatsapp-errors.js';
+import { metrics } from '../utils/metrics.js';
+
+export type SendOutcome =
+  | 'sent'
+  | 'rate_limited'
+  | 'reengagement_required'
+  | 'invalid_recipient'
+  | 'auth_expired'
+  | 'failed';
+
+export interface SendMetricsSnapshot {
+  outcomes: Record<SendOutcome, number>;
+  retries: number;
+  throttledMs: number; // time spent waiting on our own rate limiter
+  averageLatencyMs: number;
+}
+
+export function sendOutcomeFor(error: unknown): SendOutcome {
+  if (error instanceof WhatsAppRateLimitError) return 'rate_limited';
+  if (error instanceof WhatsAppReengagementRequiredError) return 'reengagement_required';
+  if (error instanceof WhatsAppInvalidRecipientError) return 'invalid_recipient';
+  if (error instanceof WhatsAppAuthExpiredError) return 'auth_expired';
+  return 'failed';
+}
+
+export class SendMetrics {
+  private outcomes: Record<SendOutcome, number> = {
+    sent: 0,
+    rate_limited: 0,
+    reengagement_required: 0,
+    invalid_recipient: 0,
+    auth_expired: 0,
+    failed: 0,
+  };
+  private retries = 0;
+  private throttledMs = 0;
+  private totalLatencyMs = 0;
+  private completedSends = 0;
+
+  recordOutcome(outcome: SendOutcome, latencyMs: number): void {
+    this.outcomes[outcome]++;
+    metrics.whatsappSends.inc({ outcome });
+    this.totalLatencyMs += latencyMs;
+    this.completedSends++;
+  }
+
+  recordRetry(): void {
+    this.retries++;
+  }
+
+  recordThrottle(waitMs: number): void {
+    this.throttledMs += waitMs;
+  }
+
+  snapshot(): SendMetricsSnapshot {
+    return {
+      outcomes: { ...this.outcomes },
+      retries: this.retries,
+      throttledMs: this.throttledMs,
+      averageLatencyMs: this.completedSends > 0 ? Math.round(this.totalLatencyMs / this.completedSends) : 0,
+    };
+  }
+}
@@ -0,0 +1,215 @@
+import fs from 'fs';
+import { z } from 'zod';
+import type { WhatsAppMessage } from '../types/index.js';
+
+// Parameters each template needs. Adding a template means adding it here and
+// to TEMPLATE_PARAMETERS and the catalogue file; the catalogue's parameters
+// are checked against this on load.
+export interface TemplateParameters {
+  reservation_confirmation: {
+    customerName: string;
+    restaurantName: string;
+    date: string;
+    time: string;
+    partySize: number | string;
+    confirmationCode: string;
+  };
+  reservation_reminder: {
+    restaurantName: string;
+    date: string;
+    time: string;
+    partySize: number | string;
+  };
+  reservation_cancelled: {
+    restaurantName: string;
+    date: string;
+    time: string;
+  };
+}
+
+export type TemplateName = keyof TemplateParameters;
+
+// Runtime copy of TemplateParameters; the mapped type makes the compiler keep
+// the two in step, so load() can hold the catalogue to the same names
+const TEMPLATE_PARAMETERS: { [K in TemplateName]: Record<keyof TemplateParameters[K], true> } = {
+  reservation_confirmation: {
+    customerName: true, restaurantName: true, date: true, time: true, partySize: true, confirmationCode: true,
+  },
+  reservation_reminder: { restaurantName: true, date: true, time: true, partySize: true },
+  reservation_cancelled: { restaurantName: true, date: true, time: true },
+};
+
+const TEMPLATE_NAMES = Object.keys(TEMPLATE_PARAMETERS) as TemplateName[];
+
+const TemplateDefinitionSchema = z.object({
+  name: z.string().min(1),
+  language: z.string().min(2),
+  description: z.string().optional(),
+  // Order matters: parameters fill {{1}}, {{2}}, ... of the approved template
+  parameters: z.array(z.object({
+    name: z.string().min(1),
+    component: z.enum(['header', 'body']).default('body'),
+    maxLength: z.number().int().positive().optional(),
+  })),
+  // Free-form equivalent used while the 24h customer service window is open
+  sessionText: z.string().min(1),
+});
+
+const TemplateCatalogueSchema = z.object({
+  templates: z.array(TemplateDefinitionSchema),
+});
+
+export type TemplateDefinition = z.infer<typeof TemplateDefinitionSchema>;
+
+export interface TemplateComponent {
+  type: 'header' | 'body';
+  parameters: Array<{ type: 'text'; text: string }>;
+}
+
+export interface BuiltTemplate {
+  name: string;
+  language: string;
+  components: TemplateComponent[];
+}
+
+export const DEFAULT_TEMPLATE_CATALOGUE_PATH = './data/whatsapp-templates.json';
+
+// WhatsApp only allows free-form messages within 24 hours of the user's last message
+const CUSTOMER_SERVICE_WINDOW_SECONDS = 24 * 60 * 60;
+
+// Raised for unknown templates and missing or invalid parameters
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+export function isTemplateName(name: string): name is TemplateName {
+  return (TEMPLATE_NAMES as string[]).includes(name);
+}
+
+// Message history only holds inbound messages, so the newest one is the
+// user's last message
+export function isWithinCustomerServiceWindow(messageHistory: WhatsAppMessage[] = [], now = new Date()): boolean {
+  const lastTimestamp = Math.max(0, ...messageHistory.map(message => message.timestamp || 0));
+  return lastTimestamp > 0 && now.getTime() / 1000 - lastTimestamp < CUSTOMER_SERVICE_WINDOW_SECONDS;
+}
+
+export class TemplateRegistry {
+  private templates: Map<string, TemplateDefinition> = new Map();
+  private cataloguePath: string;
+
+  constructor(cataloguePath = process.env.WHATSAPP_TEMPLATES_PATH || DEFAULT_TEMPLATE_CATALOGUE_PATH) {
+    this.cataloguePath = cataloguePath;
+  }
+
+  // Re-reading picks up catalogue edits without a restart. The previous
+  // catalogue stays in place if the new one is invalid.
+  load(): void {
+    const raw = JSON.parse(fs.readFileSync(this.cataloguePath, 'utf8'));
+    const catalogue = TemplateCatalogueSchema.parse(raw);
+
+    const templates = new Map(catalogue.templates.map(template => [template.name, template]));
+    const problems = TEMPLATE_NAMES.filter(name => !templates.has(name)).map(name => `missing ${name}`);
+    for (const template of catalogue.templates) {
+      problems.push(...this.checkParameters(template));
+    }
+    if (problems.length > 0) {
+      throw new TemplateError(`Template catalogue ${this.cataloguePath} is invalid: ${problems.join('; ')}`);
+    }
+
+    this.templates = templates;
+  }
+
+  get isLoaded(): boolean {
+    return this.templates.size > 0;
+  }
+
+  list(): TemplateDefinition[] {
+    return Array.from(this.templates.values());
+  }
+
+  build<K extends TemplateName>(name: K, params: TemplateParameters[K]): BuiltTemplate {
+    const template = this.getTemplate(name);
+    const values = this.resolveParameters(template, params);
+    const components: TemplateComponent[] = [];
+
+    for (const type of ['header', 'body'] as const) {
+      const parameters = template.parameters
+        .filter(parameter => parameter.component === type)
+        .map(parameter => ({ type: 'text' as const, text: values[parameter.name] }));
+
+      if (parameters.length > 0) {
+        components.push({ type, parameters });
+      }
+    }
+
+    return { name: template.name, language: template.language, components };
+  }
+
+  renderSessionText<K extends TemplateName>(name: K, params: TemplateParameters[K]): string {
+    const template = this.getTemplate(name);
+    const values = this.resolveParameters(template, params);
+    return template.sessionText.replace(/\{\{(\w+)\}\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+  }
+
+  private getTemplate(name: string): TemplateDefinition {
+    if (!this.isLoaded) {
+      this.load();
+    }
+
+    const template = this.templates.get(name);
+    if (!template) {
+      throw new TemplateError(`Unknown WhatsApp template: ${name}`);
+    }
+    return template;
+  }
+
+  // Every parameter must be one the code supplies, and every placeholder in the
+  // session text one of the listed parameters
+  private checkParameters(template: TemplateDefinition): string[] {
+    if (!isTemplateName(template.name)) {
+      return [`unknown template ${template.name}`];
+    }
+
+    const known = Object.keys(TEMPLATE_PARAMETERS[template.name]);
+    const listed = template.parameters.map(parameter => parameter.name);
+    const problems: string[] = [];
+
+    for (const [index, name] of listed.entries()) {
+      if (!known.includes(name)) {
+        problems.push(`${template.name} has unknown parameter ${name}`);
+      } else if (listed.indexOf(name) !== index) {
+        problems.push(`${template.name} lists parameter ${name} twice`);
+      }
+    }
+
+    for (const [, name] of template.sessionText.matchAll(/\{\{(\w+)\}\}/g)) {
+      if (!listed.includes(name)) {
+        problems.push(`${template.name} session text uses unlisted parameter ${name}`);
+      }
+    }
+
+    return problems;
+  }
+
+  private resolveParameters(template: TemplateDefinition, params: object): Record<string, string> {
+    const values: Record<string, string> = {};
+
+    for (const parameter of template.parameters) {
+      const value = (params as Record<string, unknown>)[parameter.name];
+      if (value === undefined || value === null || value === '') {
+        throw new TemplateError(`Template ${template.name} is missing parameter ${parameter.name}`);
+      }
+
+      const text = String(value);
+      if (parameter.maxLength && text.length > parameter.maxLength) {
+        throw new TemplateError(`Template ${template.name} parameter ${parameter.name} exceeds ${parameter.maxLength} characters`);
+      }
+      values[parameter.name] = text;
+    }
+
+    return values;
+  }
+}
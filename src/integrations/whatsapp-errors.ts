@@ -0,0 +1,99 @@
+import axios from 'axios';
+import { requestNeverSent } from '../utils/http.js';
+
+// Graph API error codes, see
+// https://developers.facebook.com/docs/whatsapp/cloud-api/support/error-codes
+const RATE_LIMIT_CODES = [4, 80007, 130429, 131056];
+const REENGAGEMENT_CODES = [131047];
+const INVALID_RECIPIENT_CODES = [131021, 131026, 131030];
+const AUTH_EXPIRED_CODES = [190];
+const TEMPORARY_CODES = [1, 2, 131000, 131016];
+
+export class WhatsAppAPIError extends Error {
+  readonly code?: number;
+  readonly status?: number;
+  // Whether sending the same message again later may succeed
+  readonly retryable: boolean;
+
+  constructor(message: string, options: { code?: number; status?: number; retryable?: boolean; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'WhatsAppAPIError';
+    this.code = options.code;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+// Throughput (130429) or per-recipient pair rate (131056) exceeded
+export class WhatsAppRateLimitError extends WhatsAppAPIError {
+  constructor(message: string, options: { code?: number; status?: number; cause?: unknown } = {}) {
+    super(message, { ...options, retryable: true });
+    this.name = 'WhatsAppRateLimitError';
+  }
+}
+
+// The 24h customer service window has closed; only a template can be sent
+export class WhatsAppReengagementRequiredError extends WhatsAppAPIError {
+  constructor(message: string, options: { code?: number; status?: number; cause?: unknown } = {}) {
+    super(message, options);
+    this.name = 'WhatsAppReengagementRequiredError';
+  }
+}
+
+export class WhatsAppInvalidRecipientError extends WhatsAppAPIError {
+  constructor(message: string, options: { code?: number; status?: number; cause?: unknown } = {}) {
+    super(message, options);
+    this.name = 'WhatsAppInvalidRecipientError';
+  }
+}
+
+export class WhatsAppAuthExpiredError extends WhatsAppAPIError {
+  constructor(message: string, options: { code?: number; status?: number; cause?: unknown } = {}) {
+    super(message, options);
+    this.name = 'WhatsAppAuthExpiredError';
+  }
+}
+
+// The request timed out or the connection dropped, so WhatsApp may or may not
+// have accepted the message; resending could deliver it twice
+export class WhatsAppDeliveryUnknownError extends WhatsAppAPIError {
+  constructor(message: string, options: { code?: number; status?: number; cause?: unknown } = {}) {
+    super(message, options);
+    this.name = 'WhatsAppDeliveryUnknownError';
+  }
+}
+
+// Maps a failed Graph API call onto the error class callers can act on
+export function classifyWhatsAppError(error: unknown): unknown {
+  if (!axios.isAxiosError(error)) {
+    return error;
+  }
+
+  const status = error.response?.status;
+  const code: number | undefined = error.response?.data?.error?.code;
+  const message = `WhatsApp API error: ${error.response?.data?.error?.message || error.message}`;
+  const options = { code, status, cause: error };
+
+  if ((code !== undefined && RATE_LIMIT_CODES.includes(code)) || status === 429) {
+    return new WhatsAppRateLimitError(message, options);
+  }
+  if (code !== undefined && REENGAGEMENT_CODES.includes(code)) {
+    return new WhatsAppReengagementRequiredError(message, options);
+  }
+  if (code !== undefined && INVALID_RECIPIENT_CODES.includes(code)) {
+    return new WhatsAppInvalidRecipientError(message, options);
+  }
+  if ((code !== undefined && AUTH_EXPIRED_CODES.includes(code)) || status === 401) {
+    return new WhatsAppAuthExpiredError(message, options);
+  }
+
+  // Without a response only a failed connect is known not to have arrived
+  if (status === undefined) {
+    return requestNeverSent(error)
+      ? new WhatsAppAPIError(message, { ...options, retryable: true })
+      : new WhatsAppDeliveryUnknownError(message, options);
+  }
+
+  const retryable = status >= 500 || (code !== undefined && TEMPORARY_CODES.includes(code));
+  return new WhatsAppAPIError(message, { ...options, retryable });
+}
@@ -1,13 +1,55 @@
 import axios from 'axios';
-import type { WhatsAppMessage } from '../types/index.js';
+import type {
+  WhatsAppMessage,
+  WhatsAppStatus,
+  WhatsAppWebhookEvents,
+  WhatsAppInteractiveReply,
+} from '../types/index.js';
+import { DeliveryTracker } from './delivery-tracker.js';
+import type { BuiltTemplate } from './template-registry.js';
+import { SendMetrics, sendOutcomeFor } from './send-metrics.js';
+import { classifyWhatsAppError, WhatsAppAPIError, WhatsAppRateLimitError } from './whatsapp-errors.js';
+import { KeyedTokenBuckets, TokenBucket } from '../utils/token-bucket.js';
+import { DEFAULT_HTTP_TIMEOUT_MS } from '../utils/http.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('whatsapp');
 
 export interface WhatsAppBusinessConfig {
   accessToken: string;
   phoneNumberId: string;
   businessAccountId: string;
   webhookVerifyToken: string;
+  // Graph API root including the version, e.g. a local simulator
+  graphApiUrl?: string;
+  sendLimits?: WhatsAppSendLimits;
+  requestTimeoutMs?: number;
 }
 
+const DEFAULT_GRAPH_API_URL = 'https://graph.facebook.com/v18.0';
+
+export interface WhatsAppSendLimits {
+  messagesPerSecond?: number; // per business number
+  recipientBurst?: number;
+  recipientMessagesPerMinute?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+}
+
+// Cloud API default throughput is 80 msg/s per number; pair rate limits kick
+// in when one user gets many messages in quick succession
+const DEFAULT_SEND_LIMITS: Required<WhatsAppSendLimits> = {
+  messagesPerSecond: 80,
+  recipientBurst: 10,
+  recipientMessagesPerMinute: 20,
+  maxRetries: 3,
+  retryBaseDelayMs: 500,
+};
+
+// Pair rate limits clear slowly, so back off harder than for other errors
+const PAIR_RATE_LIMIT_CODE = 131056;
+const PAIR_RATE_LIMIT_DELAY_MS = 6000;
+
 export interface WhatsAppTextMessage {
   to: string;
   type: 'text';
@@ -63,6 +105,29 @@ export interface WhatsAppLocationMessage {
   };
 }
 
+// Media is sent either by a public link WhatsApp fetches itself or by the
+// id of media previously uploaded to the Graph API
+export interface WhatsAppImageMessage {
+  to: string;
+  type: 'image';
+  image: {
+    link?: string;
+    id?: string;
+    caption?: string;
+  };
+}
+
+export interface WhatsAppDocumentMessage {
+  to: string;
+  type: 'document';
+  document: {
+    link?: string;
+    id?: string;
+    caption?: string;
+    filename?: string;
+  };
+}
+
 export interface WhatsAppTemplateMessage {
   to: string;
   type: 'template';
@@ -88,41 +153,111 @@ export type WhatsAppOutgoingMessage =
   | WhatsAppTextMessage 
   | WhatsAppInteractiveMessage 
   | WhatsAppLocationMessage 
+  | WhatsAppImageMessage
+  | WhatsAppDocumentMessage
   | WhatsAppTemplateMessage;
 
 export class WhatsAppBusinessAPI {
   private config: WhatsAppBusinessConfig;
+  private graphURL: string;
   private baseURL: string;
+  private timeout: number;
+  private sendLimits: Required<WhatsAppSendLimits>;
+  private businessBucket: TokenBucket;
+  private recipientBuckets: KeyedTokenBuckets;
+  readonly deliveryTracker = new DeliveryTracker();
+  readonly sendMetrics = new SendMetrics();
 
   constructor(config: WhatsAppBusinessConfig) {
     this.config = config;
-    this.baseURL = `https://graph.facebook.com/v18.0/${config.phoneNumberId}`;
+    this.graphURL = (config.graphApiUrl || DEFAULT_GRAPH_API_URL).replace(/\/+$/, '');
+    this.baseURL = `${this.graphURL}/${config.phoneNumberId}`;
+    this.timeout = config.requestTimeoutMs || DEFAULT_HTTP_TIMEOUT_MS;
+
+    this.sendLimits = { ...DEFAULT_SEND_LIMITS };
+    for (const [key, value] of Object.entries(config.sendLimits || {})) {
+      if (value !== undefined) {
+        this.sendLimits[key as keyof WhatsAppSendLimits] = value;
+      }
+    }
+    this.businessBucket = new TokenBucket(this.sendLimits.messagesPerSecond, this.sendLimits.messagesPerSecond);
+    this.recipientBuckets = new KeyedTokenBuckets(
+      this.sendLimits.recipientBurst,
+      this.sendLimits.recipientMessagesPerMinute / 60
+    );
   }
 
+  // Throws a WhatsAppAPIError subclass once retries are exhausted or the
+  // failure isn't retryable. Timeouts aren't retried: the message may have
+  // gone out (WhatsAppDeliveryUnknownError).
   async sendMessage(message: WhatsAppOutgoingMessage): Promise<{ messageId: string }> {
-    try {
-      const response = await axios.post(
-        `${this.baseURL}/messages`,
-        message,
-        {
-          headers: {
-            'Authorization': `Bearer ${this.config.accessToken}`,
-            'Content-Type': 'application/json',
-          },
+    const payload = {
+      messaging_product: 'whatsapp',
+      recipient_type: 'individual',
+      ...message,
+    };
+    const startedAt = Date.now();
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForSendSlot(message.to);
+
+      try {
+        const response = await axios.post(
+          `${this.baseURL}/messages`,
+          payload,
+          {
+            headers: {
+              'Authorization': `Bearer ${this.config.accessToken}`,
+              'Content-Type': 'application/json',
+            },
+            timeout: this.timeout,
+          }
+        );
+
+        const messageId = response.data.messages[0].id;
+        this.deliveryTracker.recordSent(messageId, message.to);
+        this.sendMetrics.recordOutcome('sent', Date.now() - startedAt);
+
+        return {
+          messageId,
+        };
+      } catch (error) {
+        const classified = classifyWhatsAppError(error);
+
+        if (classified instanceof WhatsAppAPIError && classified.retryable && attempt < this.sendLimits.maxRetries) {
+          const delay = this.retryDelay(classified, attempt);
+          logger.warn('WhatsApp send failed, retrying', {
+            to: message.to,
+            code: classified.code,
+            delayMs: delay,
+            error: classified.message,
+          });
+          this.sendMetrics.recordRetry();
+          await new Promise(resolve => setTimeout(resolve, delay));
+          continue;
         }
-      );
 
-      return {
-        messageId: response.data.messages[0].id,
-      };
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        throw new Error(`WhatsApp API error: ${error.response?.data?.error?.message || error.message}`);
+        this.sendMetrics.recordOutcome(sendOutcomeFor(classified), Date.now() - startedAt);
+        throw classified;
       }
-      throw error;
     }
   }
 
+  private async waitForSendSlot(to: string): Promise<void> {
+    const waitMs = Math.max(this.businessBucket.reserve(), this.recipientBuckets.reserve(to));
+    if (waitMs > 0) {
+      this.sendMetrics.recordThrottle(waitMs);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+
+  private retryDelay(error: WhatsAppAPIError, attempt: number): number {
+    const base = error instanceof WhatsAppRateLimitError && error.code === PAIR_RATE_LIMIT_CODE
+      ? PAIR_RATE_LIMIT_DELAY_MS
+      : this.sendLimits.retryBaseDelayMs;
+    return base * 2 ** attempt;
+  }
+
   async sendTextMessage(to: string, text: string): Promise<{ messageId: string }> {
     const message: WhatsAppTextMessage = {
       to,
@@ -133,237 +268,80 @@ export class WhatsAppBusinessAPI {
     return this.sendMessage(message);
   }
 
-  async sendRestaurantList(
-    to: string, 
-    restaurants: Array<{
-      id: string;
-      name: string;
-      address: string;
-      rating: number;
-      priceLevel: number;
-    }>
-  ): Promise<{ messageId: string }> {
-    if (restaurants.length === 0) {
-      return this.sendTextMessage(to, "I couldn't find any restaurants matching your criteria. Please try adjusting your search parameters.");
-    }
-
-    const sections = [{
-      title: "Found Restaurants",
-      rows: restaurants.slice(0, 10).map(restaurant => ({
-        id: `restaurant_${restaurant.id}`,
-        title: `${restaurant.name}`,
-        description: `⭐ ${restaurant.rating}/5 • ${'💰'.repeat(restaurant.priceLevel)} • ${restaurant.address.substring(0, 50)}...`,
-      })),
-    }];
-
-    const message: WhatsAppInteractiveMessage = {
+  // Templates are the only messages allowed outside the 24h customer service window
+  async sendTemplate(to: string, template: BuiltTemplate): Promise<{ messageId: string }> {
+    const message: WhatsAppTemplateMessage = {
       to,
-      type: 'interactive',
-      interactive: {
-        type: 'list',
-        header: {
-          type: 'text',
-          text: '🍽️ Restaurant Options',
-        },
-        body: {
-          text: `I found ${restaurants.length} restaurant${restaurants.length === 1 ? '' : 's'} for you. Select one to see details and make a reservation:`,
-        },
-        footer: {
-          text: 'Powered by Restaurant Concierge',
-        },
-        action: {
-          button: 'View Restaurants',
-          sections,
-        },
+      type: 'template',
+      template: {
+        name: template.name,
+        language: { code: template.language },
+        components: template.components,
       },
     };
 
     return this.sendMessage(message);
   }
 
-  async sendRestaurantDetails(
-    to: string,
-    restaurant: {
-      id: string;
-      name: string;
-      address: string;
-      phone?: string;
-      rating: number;
-      priceLevel: number;
-      cuisine: string[];
-      openingHours?: { weekdayText: string[] };
-    }
-  ): Promise<{ messageId: string }> {
-    const priceSymbols = '💰'.repeat(restaurant.priceLevel);
-    const cuisineText = restaurant.cuisine.join(', ');
-    const hoursText = restaurant.openingHours?.weekdayText?.slice(0, 3).join('\n') || 'Hours not available';
-
-    let details = `🍽️ **${restaurant.name}**\n\n`;
-    details += `📍 ${restaurant.address}\n`;
-    details += `⭐ ${restaurant.rating}/5 • ${priceSymbols}\n`;
-    details += `🍴 ${cuisineText}\n\n`;
-    details += `⏰ **Hours:**\n${hoursText}\n\n`;
-    
-    if (restaurant.phone) {
-      details += `📞 ${restaurant.phone}\n\n`;
-    }
-
-    details += `Would you like to make a reservation?`;
-
-    const message: WhatsAppInteractiveMessage = {
+  async sendImage(to: string, image: { link: string; caption?: string }): Promise<{ messageId: string }> {
+    const message: WhatsAppImageMessage = {
       to,
-      type: 'interactive',
-      interactive: {
-        type: 'button',
-        body: {
-          text: details,
-        },
-        action: {
-          buttons: [
-            {
-              type: 'reply',
-              reply: {
-                id: `book_${restaurant.id}`,
-                title: '📅 Make Reservation',
-              },
-            },
-            {
-              type: 'reply',
-              reply: {
-                id: `favorite_${restaurant.id}`,
-                title: '❤️ Add to Favorites',
-              },
-            },
-            {
-              type: 'reply',
-              reply: {
-                id: 'search_more',
-                title: '🔍 Search More',
-              },
-            },
-          ],
-        },
-      },
+      type: 'image',
+      image,
     };
 
     return this.sendMessage(message);
   }
 
-  async sendReservationForm(
+  async sendDocument(
     to: string,
-    restaurantName: string
+    document: { link: string; filename?: string; caption?: string }
   ): Promise<{ messageId: string }> {
-    const text = `📅 **Make a Reservation at ${restaurantName}**\n\nPlease provide the following details:\n\n1. **Date** (e.g., "Tomorrow", "Friday", "Dec 25")\n2. **Time** (e.g., "7:00 PM", "19:00")\n3. **Party size** (number of people)\n4. **Special requests** (dietary restrictions, occasion, etc.) - optional\n\nExample: "Tomorrow 7PM for 4 people, one person is vegetarian"`;
+    const message: WhatsAppDocumentMessage = {
+      to,
+      type: 'document',
+      document,
+    };
 
-    return this.sendTextMessage(to, text);
+    return this.sendMessage(message);
   }
 
-  async sendReservationConfirmation(
+  // Shows as a map pin the user can tap to open directions
+  async sendLocation(
     to: string,
-    reservation: {
-      restaurantName: string;
-      date: string;
-      time: string;
-      partySize: number;
-      confirmationCode?: string;
-      status: string;
-    }
+    location: { latitude: number; longitude: number; name?: string; address?: string }
   ): Promise<{ messageId: string }> {
-    let message = `✅ **Reservation ${reservation.status.toUpperCase()}**\n\n`;
-    message += `🍽️ **Restaurant:** ${reservation.restaurantName}\n`;
-    message += `📅 **Date:** ${reservation.date}\n`;
-    message += `⏰ **Time:** ${reservation.time}\n`;
-    message += `👥 **Party Size:** ${reservation.partySize} ${reservation.partySize === 1 ? 'person' : 'people'}\n`;
-    
-    if (reservation.confirmationCode) {
-      message += `🎫 **Confirmation Code:** ${reservation.confirmationCode}\n`;
-    }
-
-    message += `\n📝 Please arrive 15 minutes early and bring a valid ID.`;
-
-    return this.sendTextMessage(to, message);
-  }
-
-  async sendLocationRequest(to: string): Promise<{ messageId: string }> {
-    const message: WhatsAppInteractiveMessage = {
+    const message: WhatsAppLocationMessage = {
       to,
-      type: 'interactive',
-      interactive: {
-        type: 'button',
-        body: {
-          text: '📍 To find restaurants near you, I need your location. You can:\n\n1. Share your current location using the 📎 attachment button\n2. Type an address or city name\n3. Use your default location from preferences',
-        },
-        action: {
-          buttons: [
-            {
-              type: 'reply',
-              reply: {
-                id: 'use_default_location',
-                title: '📍 Use Default Location',
-              },
-            },
-            {
-              type: 'reply',
-              reply: {
-                id: 'type_address',
-                title: '✏️ Type Address',
-              },
-            },
-            {
-              type: 'reply',
-              reply: {
-                id: 'help_location',
-                title: '❓ Help',
-              },
-            },
-          ],
-        },
-      },
+      type: 'location',
+      location,
     };
 
     return this.sendMessage(message);
   }
 
-  async sendDietaryRestrictionsMenu(to: string): Promise<{ messageId: string }> {
+  // WhatsApp allows up to three reply buttons per message
+  async sendButtons(
+    to: string,
+    body: string,
+    buttons: Array<{ id: string; title: string }>,
+    options: { header?: string; footer?: string } = {}
+  ): Promise<{ messageId: string }> {
     const message: WhatsAppInteractiveMessage = {
       to,
       type: 'interactive',
       interactive: {
-        type: 'list',
-        header: {
-          type: 'text',
-          text: '🥗 Dietary Preferences',
-        },
+        type: 'button',
+        header: options.header ? { type: 'text', text: options.header } : undefined,
         body: {
-          text: 'Please select your dietary restrictions and preferences. I\'ll help you find suitable restaurants:',
+          text: body,
         },
+        footer: options.footer ? { text: options.footer } : undefined,
         action: {
-          button: 'Select Preferences',
-          sections: [
-            {
-              title: 'Dietary Restrictions',
-              rows: [
-                { id: 'vegetarian', title: '🥬 Vegetarian', description: 'No meat or fish' },
-                { id: 'vegan', title: '🌱 Vegan', description: 'No animal products' },
-                { id: 'gluten_free', title: '🌾 Gluten-Free', description: 'No wheat, barley, rye' },
-                { id: 'dairy_free', title: '🥛 Dairy-Free', description: 'No milk products' },
-              ],
-            },
-            {
-              title: 'Allergies',
-              rows: [
-                { id: 'nut_free', title: '🥜 Nut-Free', description: 'No nuts or nut oils' },
-                { id: 'shellfish_free', title: '🦐 Shellfish-Free', description: 'No shellfish or crustaceans' },
-              ],
-            },
-            {
-              title: 'Religious/Cultural',
-              rows: [
-                { id: 'halal', title: '☪️ Halal', description: 'Islamic dietary laws' },
-                { id: 'kosher', title: '✡️ Kosher', description: 'Jewish dietary laws' },
-              ],
-            },
-          ],
+          buttons: buttons.map(button => ({
+            type: 'reply',
+            reply: button,
+          })),
         },
       },
     };
@@ -371,48 +349,27 @@ export class WhatsAppBusinessAPI {
     return this.sendMessage(message);
   }
 
-  async sendMainMenu(to: string, userName?: string): Promise<{ messageId: string }> {
-    const greeting = userName ? `Hello ${userName}! 👋` : 'Hello! 👋';
-    
+  // Lists open a picker of up to ten rows across all sections
+  async sendList(
+    to: string,
+    body: string,
+    buttonLabel: string,
+    sections: Array<{ title: string; rows: Array<{ id: string; title: string; description?: string }> }>,
+    options: { header?: string; footer?: string } = {}
+  ): Promise<{ messageId: string }> {
     const message: WhatsAppInteractiveMessage = {
       to,
       type: 'interactive',
       interactive: {
-        type: 'button',
-        header: {
-          type: 'text',
-          text: '🍽️ Restaurant Concierge',
-        },
+        type: 'list',
+        header: options.header ? { type: 'text', text: options.header } : undefined,
         body: {
-          text: `${greeting}\n\nI'm your personal restaurant concierge! I can help you:\n\n• Find restaurants based on your preferences\n• Make real reservations through OpenTable\n• Remember your dietary restrictions\n• Save your favorite places\n\nWhat would you like to do?`,
-        },
-        footer: {
-          text: 'AI-powered dining assistant',
+          text: body,
         },
+        footer: options.footer ? { text: options.footer } : undefined,
         action: {
-          buttons: [
-            {
-              type: 'reply',
-              reply: {
-                id: 'search_restaurants',
-                title: '🔍 Find Restaurants',
-              },
-            },
-            {
-              type: 'reply',
-              reply: {
-                id: 'my_preferences',
-                title: '⚙️ My Preferences',
-              },
-            },
-            {
-              type: 'reply',
-              reply: {
-                id: 'help',
-                title: '❓ Help',
-              },
-            },
-          ],
+          button: buttonLabel,
+          sections,
         },
       },
     };
@@ -434,10 +391,49 @@ export class WhatsAppBusinessAPI {
             'Authorization': `Bearer ${this.config.accessToken}`,
             'Content-Type': 'application/json',
           },
+          timeout: this.timeout,
         }
       );
     } catch (error) {
-      console.error('Failed to mark message as read:', error);
+      logger.error('Failed to mark message as read', { error });
+    }
+  }
+
+  // Inbound media is fetched in two steps: the media id resolves to a
+  // short-lived URL, which needs the same bearer token to download
+  async downloadMedia(mediaId: string): Promise<{ data: Buffer; mimeType: string }> {
+    try {
+      const headers = { 'Authorization': `Bearer ${this.config.accessToken}` };
+      const media = await axios.get(`${this.graphURL}/${mediaId}`, { headers, timeout: this.timeout });
+      const file = await axios.get(media.data.url, { headers, responseType: 'arraybuffer', timeout: this.timeout });
+
+      return {
+        data: Buffer.from(file.data),
+        mimeType: media.data.mime_type,
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(`WhatsApp media download failed: ${error.response?.data?.error?.message || error.message}`, { cause: error });
+      }
+      throw error;
+    }
+  }
+
+  // Looks up the business phone number, which fails if the access token is
+  // invalid or expired or the number doesn't belong to it
+  async verifyCredentials(): Promise<{ displayPhoneNumber?: string; verifiedName?: string }> {
+    try {
+      const response = await axios.get(this.baseURL, {
+        params: { fields: 'display_phone_number,verified_name' },
+        headers: { 'Authorization': `Bearer ${this.config.accessToken}` },
+        timeout: this.timeout,
+      });
+      return {
+        displayPhoneNumber: response.data.display_phone_number,
+        verifiedName: response.data.verified_name,
+      };
+    } catch (error) {
+      throw classifyWhatsAppError(error);
     }
   }
 
@@ -448,21 +444,44 @@ export class WhatsAppBusinessAPI {
     return null;
   }
 
-  parseIncomingMessage(webhookBody: any): WhatsAppMessage | null {
-    try {
-      const entry = webhookBody.entry?.[0];
-      const change = entry?.changes?.[0];
-      const message = change?.value?.messages?.[0];
+  // A single delivery can batch several entries, changes, messages and
+  // status updates; everything is returned, in payload order
+  static parseWebhookEvents(webhookBody: any): WhatsAppWebhookEvents {
+    const events: WhatsAppWebhookEvents = { messages: [], statuses: [] };
+
+    for (const entry of webhookBody?.entry || []) {
+      for (const change of entry?.changes || []) {
+        const value = change?.value;
+        if (!value) {
+          continue;
+        }
 
-      if (!message) {
-        return null;
+        for (const message of value.messages || []) {
+          const parsedMessage = WhatsAppBusinessAPI.parseMessage(message, value.metadata?.phone_number_id);
+          if (parsedMessage) {
+            events.messages.push(parsedMessage);
+          }
+        }
+
+        for (const status of value.statuses || []) {
+          const parsedStatus = WhatsAppBusinessAPI.parseStatus(status);
+          if (parsedStatus) {
+            events.statuses.push(parsedStatus);
+          }
+        }
       }
+    }
 
+    return events;
+  }
+
+  private static parseMessage(message: any, phoneNumberId: string): WhatsAppMessage | null {
+    try {
       const parsedMessage: WhatsAppMessage = {
         id: message.id,
         from: message.from,
-        to: change.value.metadata.phone_number_id,
-        timestamp: message.timestamp,
+        to: phoneNumberId,
+        timestamp: parseInt(message.timestamp),
         type: message.type as any,
       };
 
@@ -485,12 +504,58 @@ export class WhatsAppBusinessAPI {
             sha256: message.image.sha256,
           };
           break;
+        case 'audio':
+          parsedMessage.audio = {
+            id: message.audio.id,
+            mime_type: message.audio.mime_type,
+            sha256: message.audio.sha256,
+            voice: message.audio.voice,
+          };
+          break;
+        case 'interactive':
+          parsedMessage.interactive = {
+            type: message.interactive.type,
+            button_reply: WhatsAppBusinessAPI.parseInteractiveReply(message.interactive.button_reply),
+            list_reply: WhatsAppBusinessAPI.parseInteractiveReply(message.interactive.list_reply),
+          };
+          break;
       }
 
       return parsedMessage;
     } catch (error) {
-      console.error('Failed to parse incoming message:', error);
+      logger.error('Failed to parse incoming message', { error });
       return null;
     }
   }
+
+  // Reply ids are kept verbatim; they embed case-sensitive Google place IDs
+  private static parseInteractiveReply(reply: any): WhatsAppInteractiveReply | undefined {
+    if (!reply?.id) {
+      return undefined;
+    }
+
+    return {
+      id: reply.id,
+      title: reply.title,
+      description: reply.description,
+    };
+  }
+
+  private static parseStatus(status: any): WhatsAppStatus | null {
+    if (!status?.id || !status.status) {
+      return null;
+    }
+
+    return {
+      id: status.id,
+      recipientId: status.recipient_id,
+      status: status.status,
+      timestamp: parseInt(status.timestamp),
+      errors: status.errors?.map((error: any) => ({
+        code: error.code,
+        title: error.title,
+        message: error.message || error.error_data?.details,
+      })),
+    };
+  }
 }
\ No newline at end of file
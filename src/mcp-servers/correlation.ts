@@ -0,0 +1,26 @@
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { createLogger, withLogContext } from '../utils/logger.js';
+
+const logger = createLogger('mcp-server');
+
+// Handles each request inside the correlation id the agent sent in its
+// params._meta, so the server's logs line up with the agent's. Call once the
+// server is connected to the transport.
+export function propagateCorrelationIds(transport: Transport): void {
+  const handle = transport.onmessage;
+  if (!handle) {
+    return;
+  }
+
+  transport.onmessage = (message) => {
+    const { method, params } = message as { method?: string; params?: { name?: unknown; _meta?: { correlationId?: unknown } } };
+    const correlationId = params?._meta?.correlationId;
+
+    withLogContext(typeof correlationId === 'string' ? { correlationId } : {}, () => {
+      if (method === 'tools/call') {
+        logger.debug('Tool call received', { tool: params?.name });
+      }
+      handle(message);
+    });
+  };
+}
@@ -2,6 +2,7 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
@@ -9,7 +10,13 @@ import {
 import sqlite3 from 'sqlite3';
 import { promisify } from 'util';
 import { z } from 'zod';
+import { isEntryPoint } from './entry-point.js';
+import { propagateCorrelationIds } from './correlation.js';
 import type { CustomerPreferences, DietaryRestrictionType } from '../types/index.js';
+import { configureLogger, createLogger } from '../utils/logger.js';
+import { loggerOptionsFromEnv } from '../utils/config.js';
+
+const logger = createLogger('customer-preferences');
 
 const DATABASE_PATH = process.env.DATABASE_PATH || './data/restaurant-concierge.db';
 
@@ -35,6 +42,7 @@ const UpdatePreferencesSchema = z.object({
   }).optional().describe('Default search location'),
   searchRadius: z.number().optional().describe('Default search radius in meters'),
   allergies: z.array(z.string()).optional().describe('Food allergies'),
+  timezone: z.string().optional().describe('IANA timezone, e.g. America/New_York'),
 });
 
 const AddFavoriteRestaurantSchema = z.object({
@@ -52,7 +60,7 @@ const SearchPreferencesSchema = z.object({
   userId: z.string().optional().describe('Search by user ID'),
 });
 
-class CustomerPreferencesServer {
+export class CustomerPreferencesServer {
   private server: Server;
   private db: sqlite3.Database;
 
@@ -91,6 +99,7 @@ class CustomerPreferencesServer {
         default_location_address TEXT,
         search_radius INTEGER DEFAULT 5000,
         allergies TEXT DEFAULT '[]',
+        timezone TEXT,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
       );
@@ -113,21 +122,23 @@ class CustomerPreferencesServer {
 
     this.db.exec(createTables, (err) => {
       if (err) {
-        console.error('Failed to create database tables:', err);
+        logger.error('Failed to create database tables', { error: err });
+        return;
       }
+
+      // Databases created before the timezone column existed need it added
+      this.db.run('ALTER TABLE customer_preferences ADD COLUMN timezone TEXT', (alterErr) => {
+        if (alterErr && !alterErr.message.includes('duplicate column')) {
+          logger.error('Failed to migrate customer_preferences table', { error: alterErr });
+        }
+      });
     });
   }
 
   private setupErrorHandling(): void {
     this.server.onerror = (error) => {
-      console.error('[MCP Error]', error);
+      logger.error('MCP server error', { error });
     };
-
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      this.db.close();
-      process.exit(0);
-    });
   }
 
   private setupToolHandlers(): void {
@@ -206,6 +217,10 @@ class CustomerPreferencesServer {
                 items: { type: 'string' },
                 description: 'Food allergies',
               },
+              timezone: {
+                type: 'string',
+                description: 'IANA timezone used to interpret dates and times (optional)',
+              },
             },
             required: ['userId', 'whatsappNumber'],
           },
@@ -389,6 +404,7 @@ class CustomerPreferencesServer {
           } : undefined,
           searchRadius: row.search_radius || 5000,
           allergies: JSON.parse(row.allergies || '[]'),
+          timezone: row.timezone || undefined,
           createdAt: new Date(row.created_at),
           updatedAt: new Date(row.updated_at),
         };
@@ -416,8 +432,8 @@ class CustomerPreferencesServer {
         INSERT OR REPLACE INTO customer_preferences (
           user_id, whatsapp_number, name, favorite_restaurants, dietary_restrictions,
           cuisine_preferences, price_range_min, price_range_max, default_location_lat,
-          default_location_lng, default_location_address, search_radius, allergies, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+          default_location_lng, default_location_address, search_radius, allergies, timezone, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
       `;
 
       const values = [
@@ -434,6 +450,7 @@ class CustomerPreferencesServer {
         params.defaultLocation?.address || null,
         params.searchRadius || 5000,
         JSON.stringify(params.allergies || []),
+        params.timezone || null,
       ];
 
       this.db.run(query, values, function(err) {
@@ -620,6 +637,7 @@ class CustomerPreferencesServer {
           } : undefined,
           searchRadius: row.search_radius || 5000,
           allergies: JSON.parse(row.allergies || '[]'),
+          timezone: row.timezone || undefined,
           createdAt: new Date(row.created_at),
           updatedAt: new Date(row.updated_at),
         };
@@ -732,11 +750,29 @@ class CustomerPreferencesServer {
     });
   }
 
-  async run(): Promise<void> {
-    const transport = new StdioServerTransport();
+  async connect(transport: Transport): Promise<void> {
     await this.server.connect(transport);
+    propagateCorrelationIds(transport);
+  }
+
+  async close(): Promise<void> {
+    await this.server.close();
+    this.db.close();
+  }
+
+  async run(): Promise<void> {
+    process.on('SIGINT', async () => {
+      await this.close();
+      process.exit(0);
+    });
+
+    await this.connect(new StdioServerTransport());
   }
 }
 
-const server = new CustomerPreferencesServer();
-server.run().catch(console.error);
\ No newline at end of file
+if (isEntryPoint(import.meta.url)) {
+  // stdout carries the protocol; the agent's process owns the log file
+  configureLogger({ ...loggerOptionsFromEnv(), filePath: undefined, stderr: true });
+  const server = new CustomerPreferencesServer();
+  server.run().catch(error => logger.error('MCP server failed to start', { error }));
+}
\ No newline at end of file
@@ -0,0 +1,16 @@
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+
+// True when the module was started directly (node dist/mcp-servers/<name>.js)
+// rather than imported to host the server in-process
+export function isEntryPoint(moduleUrl: string): boolean {
+  if (!process.argv[1]) {
+    return false;
+  }
+
+  try {
+    return fs.realpathSync(process.argv[1]) === fs.realpathSync(fileURLToPath(moduleUrl));
+  } catch {
+    return false;
+  }
+}
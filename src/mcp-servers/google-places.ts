@@ -2,13 +2,20 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import axios from 'axios';
 import { z } from 'zod';
+import { isEntryPoint } from './entry-point.js';
+import { propagateCorrelationIds } from './correlation.js';
 import type { Restaurant, DietaryOption, DietaryRestrictionType } from '../types/index.js';
+import { configureLogger, createLogger } from '../utils/logger.js';
+import { loggerOptionsFromEnv } from '../utils/config.js';
+
+const logger = createLogger('google-places');
 
 const API_KEY = process.env.GOOGLE_PLACES_API_KEY;
 const BASE_URL = 'https://maps.googleapis.com/maps/api/place';
@@ -26,7 +33,7 @@ const PlaceDetailsParamsSchema = z.object({
   placeId: z.string().describe('Google Places ID for the restaurant'),
 });
 
-class GooglePlacesServer {
+export class GooglePlacesServer {
   private server: Server;
 
   constructor() {
@@ -48,13 +55,8 @@ class GooglePlacesServer {
 
   private setupErrorHandling(): void {
     this.server.onerror = (error) => {
-      console.error('[MCP Error]', error);
+      logger.error('MCP server error', { error });
     };
-
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
   }
 
   private setupToolHandlers(): void {
@@ -371,11 +373,28 @@ class GooglePlacesServer {
     return options;
   }
 
-  async run(): Promise<void> {
-    const transport = new StdioServerTransport();
+  async connect(transport: Transport): Promise<void> {
     await this.server.connect(transport);
+    propagateCorrelationIds(transport);
+  }
+
+  async close(): Promise<void> {
+    await this.server.close();
+  }
+
+  async run(): Promise<void> {
+    process.on('SIGINT', async () => {
+      await this.close();
+      process.exit(0);
+    });
+
+    await this.connect(new StdioServerTransport());
   }
 }
 
-const server = new GooglePlacesServer();
-server.run().catch(console.error);
\ No newline at end of file
+if (isEntryPoint(import.meta.url)) {
+  // stdout carries the protocol; the agent's process owns the log file
+  configureLogger({ ...loggerOptionsFromEnv(), filePath: undefined, stderr: true });
+  const server = new GooglePlacesServer();
+  server.run().catch(error => logger.error('MCP server failed to start', { error }));
+}
\ No newline at end of file
@@ -2,13 +2,21 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import axios from 'axios';
 import { z } from 'zod';
+import { isEntryPoint } from './entry-point.js';
+import { propagateCorrelationIds } from './correlation.js';
 import type { Reservation } from '../types/index.js';
+import { createIdempotencyStore, type IdempotencyStore } from '../utils/idempotency-store.js';
+import { configureLogger, createLogger } from '../utils/logger.js';
+import { loggerOptionsFromEnv } from '../utils/config.js';
+
+const logger = createLogger('opentable');
 
 // const API_KEY = process.env.OPENTABLE_API_KEY;
 const CLIENT_ID = process.env.OPENTABLE_CLIENT_ID;
@@ -35,6 +43,7 @@ const BookReservationSchema = z.object({
   customerPhone: z.string().describe('Customer phone number'),
   customerEmail: z.string().optional().describe('Customer email'),
   specialRequests: z.string().optional().describe('Special requests or dietary restrictions'),
+  idempotencyKey: z.string().optional().describe('Key that identifies retries of the same booking, e.g. the inbound message id'),
 });
 
 const GetReservationSchema = z.object({
@@ -46,12 +55,20 @@ const CancelReservationSchema = z.object({
   reason: z.string().optional().describe('Cancellation reason'),
 });
 
-class OpenTableServer {
+export class OpenTableServer {
   private server: Server;
   private accessToken?: string;
   private tokenExpiry?: Date;
-
-  constructor() {
+  // Successful bookings are remembered so retried calls return the original
+  // reservation instead of booking twice; Redis shares them across instances
+  private bookings: IdempotencyStore;
+
+  constructor(options: { idempotencyStore?: IdempotencyStore } = {}) {
+    this.bookings = options.idempotencyStore || createIdempotencyStore({
+      redisUrl: process.env.REDIS_URL,
+      redisPassword: process.env.REDIS_PASSWORD,
+      keyPrefix: 'concierge:booking:',
+    });
     this.server = new Server(
       {
         name: 'opentable-server',
@@ -70,13 +87,8 @@ class OpenTableServer {
 
   private setupErrorHandling(): void {
     this.server.onerror = (error) => {
-      console.error('[MCP Error]', error);
+      logger.error('MCP server error', { error });
     };
-
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
   }
 
   private async getAccessToken(): Promise<string> {
@@ -175,6 +187,10 @@ class OpenTableServer {
                 type: 'string',
                 description: 'Special requests or dietary restrictions (optional)',
               },
+              idempotencyKey: {
+                type: 'string',
+                description: 'Key identifying retries of the same booking; repeats return the original reservation (optional)',
+              },
             },
             required: ['restaurantId', 'partySize', 'date', 'time', 'customerName', 'customerPhone'],
           },
@@ -311,9 +327,21 @@ class OpenTableServer {
 
   private async bookReservation(args: unknown) {
     const params = BookReservationSchema.parse(args);
-    const token = await this.getAccessToken();
 
+    const key = params.idempotencyKey;
+    if (key) {
+      const claim = await this.bookings.claim(key);
+      if (claim.state === 'completed') {
+        return claim.result;
+      }
+      if (claim.state === 'in-flight') {
+        return this.bookingInProgressResponse();
+      }
+    }
+
+    let posted = false;
     try {
+      const token = await this.getAccessToken();
       const reservationData = {
         restaurant_id: params.restaurantId,
         party_size: params.partySize,
@@ -327,10 +355,12 @@ class OpenTableServer {
         special_requests: params.specialRequests,
       };
 
+      posted = true;
       const response = await axios.post(`${BASE_URL}/reservations`, reservationData, {
         headers: {
           'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
+          ...(params.idempotencyKey ? { 'Idempotency-Key': params.idempotencyKey } : {}),
         },
       });
 
@@ -350,7 +380,7 @@ class OpenTableServer {
         updatedAt: new Date(reservation.updated_at || Date.now()),
       };
 
-      return {
+      const bookingResponse = {
         content: [
           {
             type: 'text',
@@ -362,7 +392,19 @@ class OpenTableServer {
           },
         ],
       };
+
+      if (key) {
+        await this.bookings.complete(key, bookingResponse);
+      }
+
+      return bookingResponse;
     } catch (error) {
+      // Without a response OpenTable may have booked the table, so the claim is
+      // left to expire; the Idempotency-Key header covers a retry after that
+      if (key && !(posted && axios.isAxiosError(error) && !error.response)) {
+        await this.bookings.release(key);
+      }
+
       if (axios.isAxiosError(error)) {
         const errorMessage = error.response?.data?.message || error.message;
         return {
@@ -382,6 +424,21 @@ class OpenTableServer {
     }
   }
 
+  private bookingInProgressResponse() {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            inProgress: true,
+            error: 'This booking is already being processed',
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
   private async getReservation(args: unknown) {
     const params = GetReservationSchema.parse(args);
     const token = await this.getAccessToken();
@@ -538,11 +595,29 @@ class OpenTableServer {
     }
   }
 
-  async run(): Promise<void> {
-    const transport = new StdioServerTransport();
+  async connect(transport: Transport): Promise<void> {
     await this.server.connect(transport);
+    propagateCorrelationIds(transport);
+  }
+
+  async close(): Promise<void> {
+    await this.server.close();
+    await this.bookings.close();
+  }
+
+  async run(): Promise<void> {
+    process.on('SIGINT', async () => {
+      await this.close();
+      process.exit(0);
+    });
+
+    await this.connect(new StdioServerTransport());
   }
 }
 
-const server = new OpenTableServer();
-server.run().catch(console.error);
\ No newline at end of file
+if (isEntryPoint(import.meta.url)) {
+  // stdout carries the protocol; the agent's process owns the log file
+  configureLogger({ ...loggerOptionsFromEnv(), filePath: undefined, stderr: true });
+  const server = new OpenTableServer();
+  server.run().catch(error => logger.error('MCP server failed to start', { error }));
+}
\ No newline at end of file
@@ -1,4 +1,10 @@
 import { SimpleConciergeAgent } from './agents/simple-concierge.js';
+import { configureLogger, createLogger } from './utils/logger.js';
+import { loggerOptionsFromEnv } from './utils/config.js';
+
+// The agent module has loaded .env by now
+configureLogger(loggerOptionsFromEnv());
+const logger = createLogger('server');
 
 const agent = new SimpleConciergeAgent();
 const port = parseInt(process.env.PORT || '3000');
@@ -7,11 +13,11 @@ agent.start(port);
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
-  console.log('SIGTERM received, shutting down gracefully');
+  logger.info('SIGTERM received, shutting down gracefully');
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
-  console.log('SIGINT received, shutting down gracefully');
+  logger.info('SIGINT received, shutting down gracefully');
   process.exit(0);
 });
\ No newline at end of file
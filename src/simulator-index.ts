@@ -0,0 +1,40 @@
+import dotenv from 'dotenv';
+import { WhatsAppCloudSimulator } from './simulator/whatsapp-cloud-simulator.js';
+import { configureLogger, createLogger } from './utils/logger.js';
+import { loggerOptionsFromEnv } from './utils/config.js';
+
+dotenv.config();
+configureLogger(loggerOptionsFromEnv());
+
+const logger = createLogger('simulator');
+
+const port = parseInt(process.env.SIMULATOR_PORT || '4010');
+const agentPort = process.env.PORT || 3000;
+
+const webhookUrl = process.env.SIMULATOR_WEBHOOK_URL || `http://localhost:${agentPort}/webhook/whatsapp`;
+
+const simulator = new WhatsAppCloudSimulator({
+  webhookUrl,
+  webhookSecret: process.env.WEBHOOK_SECRET,
+  phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID,
+  businessAccountId: process.env.WHATSAPP_BUSINESS_ACCOUNT_ID,
+  autoStatuses: process.env.SIMULATOR_AUTO_STATUSES === 'true',
+});
+
+simulator.listen(port).then(() => {
+  logger.info('WhatsApp Cloud API simulator listening', {
+    port,
+    graphApiUrl: simulator.graphApiUrl(),
+    webhookUrl,
+  });
+});
+
+process.on('SIGTERM', async () => {
+  await simulator.close();
+  process.exit(0);
+});
+
+process.on('SIGINT', async () => {
+  await simulator.close();
+  process.exit(0);
+});
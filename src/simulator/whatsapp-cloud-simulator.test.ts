@@ -0,0 +1,171 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import axios from 'axios';
+import express from 'express';
+import type { Server } from 'http';
+import { RestaurantConciergeAgent } from '../agents/restaurant-concierge.js';
+import { RegexIntentParser } from '../utils/intent-parser.js';
+import { StaticToolProvider, type McpServerName, type McpToolClient } from '../utils/tool-providers.js';
+import { captureRawBody, requireWebhookSignature } from '../utils/webhook-signature.js';
+import { configureLogger } from '../utils/logger.js';
+import { WhatsAppCloudSimulator, type SimulatedSend } from './whatsapp-cloud-simulator.js';
+
+const WEBHOOK_SECRET = 'simulator-test-secret';
+const USER = '15550001111';
+
+const FIXTURES: Record<McpServerName, Record<string, unknown>> = {
+  googlePlaces: {
+    search_restaurants: {
+      restaurants: [
+        {
+          id: 'place-bella-vista',
+          name: 'Bella Vista',
+          address: '120 Court Street, Brooklyn, NY 11201',
+          location: { lat: 40.6895, lng: -73.9924 },
+          rating: 4.6,
+          priceLevel: 2,
+          cuisine: ['italian'],
+          photos: [],
+          dietaryOptions: [],
+        },
+      ],
+    },
+  },
+  openTable: {},
+  customerPreferences: {
+    get_customer_preferences: {
+      found: true,
+      preferences: { userId: USER, name: 'Sam', dietaryRestrictions: [], allergies: [], favoriteRestaurants: [] },
+    },
+  },
+};
+
+function fixtureProvider(server: McpServerName): StaticToolProvider {
+  const client: McpToolClient = {
+    callTool: async (params) => {
+      if (!(params.name in FIXTURES[server])) {
+        throw new Error(`No fixture for ${server}.${params.name}`);
+      }
+      return { content: [{ type: 'text' as const, text: JSON.stringify(FIXTURES[server][params.name]) }] };
+    },
+  };
+  return new StaticToolProvider(client);
+}
+
+// The agent replies after the webhook is acknowledged, so wait for the sends
+async function waitForSends(
+  simulator: WhatsAppCloudSimulator,
+  to: string,
+  count: number,
+  timeoutMs = 5000
+): Promise<SimulatedSend[]> {
+  const deadline = Date.now() + timeoutMs;
+  while (simulator.sentMessages(to).length < count) {
+    if (Date.now() > deadline) {
+      throw new Error(`Expected ${count} sends to ${to}, got ${simulator.sentMessages(to).length}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  return simulator.sentMessages(to);
+}
+
+// The real agent behind the same webhook route as the server, talking to the
+// simulator instead of graph.facebook.com
+describe('WhatsApp conversation through the Cloud API simulator', () => {
+  let server: Server;
+  let webhookUrl: string;
+  let simulator: WhatsAppCloudSimulator;
+  let simulatorUrl: string;
+  let agent: RestaurantConciergeAgent;
+
+  beforeAll(async () => {
+    configureLogger({ level: 'error' });
+
+    const app = express();
+    app.use(express.json({ verify: captureRawBody }));
+    app.post('/webhook/whatsapp', requireWebhookSignature(WEBHOOK_SECRET), async (req, res) => {
+      await agent.handleWebhookEvents(agent.parseWebhookEvents(req.body));
+      res.status(200).send('OK');
+    });
+    await new Promise<void>(resolve => {
+      server = app.listen(0, () => resolve());
+    });
+    const address = server.address();
+    webhookUrl = `http://localhost:${typeof address === 'object' && address ? address.port : 0}/webhook/whatsapp`;
+
+    simulator = new WhatsAppCloudSimulator({ webhookUrl, webhookSecret: WEBHOOK_SECRET });
+    simulatorUrl = await simulator.listen();
+
+    agent = new RestaurantConciergeAgent({
+      whatsapp: {
+        accessToken: 'simulator-token',
+        phoneNumberId: '100000000000001',
+        businessAccountId: '100000000000000',
+        webhookVerifyToken: 'simulator-verify',
+        graphApiUrl: simulator.graphApiUrl(),
+        sendLimits: { retryBaseDelayMs: 10 },
+      },
+      toolProviders: {
+        googlePlaces: fixtureProvider('googlePlaces'),
+        openTable: fixtureProvider('openTable'),
+        customerPreferences: fixtureProvider('customerPreferences'),
+      },
+      intentParser: new RegexIntentParser(),
+    });
+    await agent.init();
+  });
+
+  afterAll(async () => {
+    await agent.messageQueue.close();
+    await agent.close();
+    await simulator.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    simulator.reset();
+  });
+
+  it('answers a greeting with the welcome buttons and marks the message read', async () => {
+    const { messageId, status } = await simulator.sendInbound(USER, { type: 'text', text: 'hi' });
+    expect(status).toBe(200);
+
+    const [welcome] = await waitForSends(simulator, USER, 1);
+    expect(welcome.type).toBe('interactive');
+    expect(welcome.payload.interactive.body.text).toContain('Hello Sam!');
+    expect(welcome.payload.interactive.action.buttons.map((button: { reply: { id: string } }) => button.reply.id))
+      .toEqual(['search_restaurants', 'my_preferences', 'help']);
+    expect(simulator.sentMessages().filter(send => send.to !== USER)).toEqual([]);
+
+    const readReceipts = (await axios.get(`${simulatorUrl}/simulator/read-receipts`)).data;
+    expect(readReceipts.messageIds).toContain(messageId);
+  });
+
+  it('lists the restaurants a search finds', async () => {
+    await simulator.sendInbound(USER, { type: 'text', text: 'Italian restaurants in Brooklyn' });
+
+    const [list] = await waitForSends(simulator, USER, 1);
+    expect(list.payload.interactive.type).toBe('list');
+    expect(list.payload.interactive.action.sections[0].rows).toEqual([
+      expect.objectContaining({ id: 'restaurant_place-bella-vista', title: 'Bella Vista' }),
+    ]);
+  });
+
+  it('retries a send the Cloud API rejects with a server error', async () => {
+    // A new user, so the greeting starts a fresh conversation
+    const user = '15550002222';
+    simulator.failNextSends({ status: 500, code: 1, message: 'Service temporarily unavailable' });
+    await simulator.sendInbound(user, { type: 'text', text: 'hi' });
+
+    const sends = await waitForSends(simulator, user, 1);
+    expect(sends).toHaveLength(1);
+    expect(sends[0].payload.interactive.body.text).toContain('Hello');
+  });
+
+  it('refuses webhook deliveries without a valid signature', async () => {
+    const response = await axios.post(webhookUrl, { object: 'whatsapp_business_account', entry: [] }, {
+      validateStatus: () => true,
+    });
+    expect(response.status).toBe(401);
+    expect(simulator.sentMessages()).toEqual([]);
+  });
+});
@@ -0,0 +1,404 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import express, { type Request, type Response } from 'express';
+import type { Server } from 'http';
+import { signWebhookPayload } from '../utils/webhook-signature.js';
+import { createLogger } from '../utils/logger.js';
+import type { WhatsAppDeliveryStatus } from '../types/index.js';
+
+const logger = createLogger('simulator');
+
+export interface WhatsAppSimulatorOptions {
+  webhookUrl: string;
+  webhookSecret?: string; // signs deliveries like Meta's app secret
+  phoneNumberId?: string;
+  displayPhoneNumber?: string;
+  businessAccountId?: string;
+  // Report "sent" and "delivered" for every accepted message, as WhatsApp does
+  autoStatuses?: boolean;
+}
+
+// A message the agent sent through the simulated Cloud API
+export interface SimulatedSend {
+  id: string;
+  to: string;
+  type: string;
+  payload: Record<string, any>;
+  receivedAt: Date;
+}
+
+// What the simulated user sends; serialized into a real webhook payload
+export type SimulatedInbound =
+  | { type: 'text'; text: string }
+  | { type: 'location'; latitude: number; longitude: number; name?: string; address?: string }
+  | { type: 'button_reply'; id: string; title: string; context?: string }
+  | { type: 'list_reply'; id: string; title: string; description?: string; context?: string }
+  | { type: 'image' | 'audio'; mediaId: string; mimeType: string; caption?: string; voice?: boolean };
+
+export interface SimulatedFailure {
+  status: number;
+  code: number;
+  message?: string;
+  count?: number; // how many upcoming sends fail, default 1
+}
+
+interface StoredMedia {
+  data: Buffer;
+  mimeType: string;
+}
+
+const DEFAULT_PHONE_NUMBER_ID = '100000000000001';
+
+// Stands in for graph.facebook.com so the real agent can be driven end to end
+// without a Meta account: point WHATSAPP_GRAPH_API_URL at it, send inbound
+// messages through it, then inspect what the agent replied.
+//
+// Graph API (what the agent calls):
+//   POST /:version/:phoneNumberId/messages   sends and read receipts
+//   GET  /:version/:mediaId                  media lookup, then GET /simulator/media/:id
+//   GET  /:version/:phoneNumberId            business number lookup (credential check)
+// Control and inspection:
+//   POST /simulator/inbound     { from, name?, message: SimulatedInbound }
+//   POST /simulator/statuses    { messageId, status, errorCode? }
+//   POST /simulator/media       { data (base64), mimeType } -> { id }
+//   POST /simulator/failures    SimulatedFailure, applied to upcoming sends
+//   GET  /simulator/messages    ?to= filters by recipient
+//   GET  /simulator/read-receipts
+//   POST /simulator/reset
+export class WhatsAppCloudSimulator {
+  readonly app = express();
+  private options: WhatsAppSimulatorOptions & { phoneNumberId: string };
+  private sends: SimulatedSend[] = [];
+  private readReceipts: string[] = [];
+  private failures: Array<Required<Omit<SimulatedFailure, 'message'>> & { message?: string }> = [];
+  private media: Map<string, StoredMedia> = new Map();
+  private server?: Server;
+  private baseUrl = '';
+
+  constructor(options: WhatsAppSimulatorOptions) {
+    this.options = { ...options, phoneNumberId: options.phoneNumberId || DEFAULT_PHONE_NUMBER_ID };
+    this.app.use(express.json({ limit: '20mb' }));
+    this.setupRoutes();
+  }
+
+  async listen(port = 0): Promise<string> {
+    await new Promise<void>(resolve => {
+      this.server = this.app.listen(port, () => resolve());
+    });
+    const address = this.server!.address();
+    const boundPort = typeof address === 'object' && address ? address.port : port;
+    this.baseUrl = `http://localhost:${boundPort}`;
+    return this.baseUrl;
+  }
+
+  async close(): Promise<void> {
+    if (this.server) {
+      await new Promise<void>(resolve => this.server!.close(() => resolve()));
+      this.server = undefined;
+    }
+  }
+
+  // Value for WHATSAPP_GRAPH_API_URL
+  graphApiUrl(): string {
+    return `${this.baseUrl}/v18.0`;
+  }
+
+  sentMessages(to?: string): SimulatedSend[] {
+    return to ? this.sends.filter(send => send.to === to) : [...this.sends];
+  }
+
+  reset(): void {
+    this.sends = [];
+    this.readReceipts = [];
+    this.failures = [];
+    this.media.clear();
+  }
+
+  failNextSends(failure: SimulatedFailure): void {
+    this.failures.push({ ...failure, count: failure.count || 1 });
+  }
+
+  addMedia(data: Buffer, mimeType: string): string {
+    const id = `sim-media-${crypto.randomUUID()}`;
+    this.media.set(id, { data, mimeType });
+    return id;
+  }
+
+  // Delivers a user message to the agent's webhook; resolves with the
+  // webhook's HTTP status once the agent has acknowledged it
+  async sendInbound(from: string, message: SimulatedInbound, name = 'Test User'): Promise<{ messageId: string; status: number }> {
+    const messageId = `wamid.SIMIN${crypto.randomBytes(12).toString('hex').toUpperCase()}`;
+    const payload = this.webhookEnvelope({
+      contacts: [{ profile: { name }, wa_id: from }],
+      messages: [{ from, id: messageId, timestamp: this.timestamp(), ...this.inboundFields(message) }],
+    });
+
+    const status = await this.deliver(payload);
+    return { messageId, status };
+  }
+
+  async sendStatus(messageId: string, status: WhatsAppDeliveryStatus, errorCode?: number): Promise<number> {
+    const send = this.sends.find(candidate => candidate.id === messageId);
+    const payload = this.webhookEnvelope({
+      statuses: [{
+        id: messageId,
+        status,
+        timestamp: this.timestamp(),
+        recipient_id: send?.to || 'unknown',
+        errors: status === 'failed'
+          ? [{ code: errorCode || 131026, title: 'Message undeliverable', error_data: { details: 'Simulated failure' } }]
+          : undefined,
+      }],
+    });
+
+    return this.deliver(payload);
+  }
+
+  private setupRoutes(): void {
+    this.app.post('/:version/:phoneNumberId/messages', (req, res) => this.handleSend(req, res));
+
+    this.app.get('/simulator/media/:id', (req, res) => {
+      const media = this.media.get(req.params.id);
+      if (!media) {
+        return res.status(404).end();
+      }
+      return res.type(media.mimeType).send(media.data);
+    });
+
+    this.app.post('/simulator/media', (req, res) => {
+      const { data, mimeType } = req.body || {};
+      if (typeof data !== 'string' || typeof mimeType !== 'string') {
+        return res.status(400).json({ error: 'data (base64) and mimeType are required' });
+      }
+      return res.json({ id: this.addMedia(Buffer.from(data, 'base64'), mimeType) });
+    });
+
+    this.app.post('/simulator/inbound', async (req, res) => {
+      const { from, name, message } = req.body || {};
+      if (typeof from !== 'string' || !message?.type) {
+        return res.status(400).json({ error: 'from and message are required' });
+      }
+      try {
+        return res.json(await this.sendInbound(from, message, name));
+      } catch (error) {
+        return res.status(502).json({ error: error instanceof Error ? error.message : 'Webhook delivery failed' });
+      }
+    });
+
+    this.app.post('/simulator/statuses', async (req, res) => {
+      const { messageId, status, errorCode } = req.body || {};
+      if (typeof messageId !== 'string' || typeof status !== 'string') {
+        return res.status(400).json({ error: 'messageId and status are required' });
+      }
+      try {
+        return res.json({ status: await this.sendStatus(messageId, status as WhatsAppDeliveryStatus, errorCode) });
+      } catch (error) {
+        return res.status(502).json({ error: error instanceof Error ? error.message : 'Webhook delivery failed' });
+      }
+    });
+
+    this.app.post('/simulator/failures', (req, res) => {
+      const { status, code, message, count } = req.body || {};
+      if (typeof status !== 'number' || typeof code !== 'number') {
+        return res.status(400).json({ error: 'status and code are required' });
+      }
+      this.failNextSends({ status, code, message, count });
+      return res.json({ pending: this.failures.reduce((total, failure) => total + failure.count, 0) });
+    });
+
+    this.app.get('/simulator/messages', (req, res) => {
+      const messages = this.sentMessages(typeof req.query.to === 'string' ? req.query.to : undefined);
+      res.json({ count: messages.length, messages });
+    });
+
+    this.app.get('/simulator/read-receipts', (req, res) => {
+      res.json({ count: this.readReceipts.length, messageIds: this.readReceipts });
+    });
+
+    this.app.post('/simulator/reset', (req, res) => {
+      this.reset();
+      res.json({ success: true });
+    });
+
+    // Besides sends, the agent looks up media and, for health checks, its own number
+    this.app.get('/:version/:mediaId', (req, res) => {
+      if (req.params.mediaId === this.options.phoneNumberId) {
+        if (!/^Bearer\s+\S+/i.test(req.get('authorization') || '')) {
+          return this.graphError(res, 401, 190, 'Invalid OAuth access token');
+        }
+        return res.json({
+          id: this.options.phoneNumberId,
+          display_phone_number: this.options.displayPhoneNumber || '15550000000',
+          verified_name: 'Restaurant Concierge (simulated)',
+        });
+      }
+
+      const media = this.media.get(req.params.mediaId);
+      if (!media) {
+        return this.graphError(res, 404, 100, 'Unsupported get request. Object does not exist');
+      }
+      return res.json({
+        messaging_product: 'whatsapp',
+        id: req.params.mediaId,
+        mime_type: media.mimeType,
+        url: `${this.baseUrl}/simulator/media/${req.params.mediaId}`,
+      });
+    });
+  }
+
+  private handleSend(req: Request, res: Response): Response {
+    if (!/^Bearer\s+\S+/i.test(req.get('authorization') || '')) {
+      return this.graphError(res, 401, 190, 'Invalid OAuth access token');
+    }
+    if (req.params.phoneNumberId !== this.options.phoneNumberId) {
+      return this.graphError(res, 400, 100, `Unknown phone number id ${req.params.phoneNumberId}`);
+    }
+
+    const body = req.body || {};
+    if (body.status === 'read' && body.message_id) {
+      this.readReceipts.push(body.message_id);
+      return res.json({ success: true });
+    }
+
+    const failure = this.failures[0];
+    if (failure) {
+      failure.count--;
+      if (failure.count <= 0) {
+        this.failures.shift();
+      }
+      return this.graphError(res, failure.status, failure.code, failure.message || 'Simulated failure');
+    }
+
+    if (body.messaging_product !== 'whatsapp' || !body.to || !body.type || !body[body.type]) {
+      return this.graphError(res, 400, 100, 'Invalid parameter');
+    }
+
+    const send: SimulatedSend = {
+      id: `wamid.SIMOUT${crypto.randomBytes(12).toString('hex').toUpperCase()}`,
+      to: body.to,
+      type: body.type,
+      payload: body,
+      receivedAt: new Date(),
+    };
+    this.sends.push(send);
+
+    if (this.options.autoStatuses) {
+      setImmediate(async () => {
+        try {
+          await this.sendStatus(send.id, 'sent');
+          await this.sendStatus(send.id, 'delivered');
+        } catch (error) {
+          logger.error('Simulator failed to report statuses', { messageId: send.id, error });
+        }
+      });
+    }
+
+    return res.json({
+      messaging_product: 'whatsapp',
+      contacts: [{ input: body.to, wa_id: body.to }],
+      messages: [{ id: send.id }],
+    });
+  }
+
+  private inboundFields(message: SimulatedInbound): Record<string, unknown> {
+    switch (message.type) {
+      case 'text':
+        return { type: 'text', text: { body: message.text } };
+      case 'location':
+        return {
+          type: 'location',
+          location: {
+            latitude: message.latitude,
+            longitude: message.longitude,
+            name: message.name,
+            address: message.address,
+          },
+        };
+      case 'button_reply':
+        return {
+          type: 'interactive',
+          context: this.replyContext(message.context),
+          interactive: { type: 'button_reply', button_reply: { id: message.id, title: message.title } },
+        };
+      case 'list_reply':
+        return {
+          type: 'interactive',
+          context: this.replyContext(message.context),
+          interactive: {
+            type: 'list_reply',
+            list_reply: { id: message.id, title: message.title, description: message.description },
+          },
+        };
+      case 'image':
+      case 'audio': {
+        const stored = this.media.get(message.mediaId);
+        const sha256 = stored ? crypto.createHash('sha256').update(stored.data).digest('base64') : undefined;
+        return {
+          type: message.type,
+          [message.type]: {
+            id: message.mediaId,
+            mime_type: message.mimeType,
+            sha256,
+            caption: message.caption,
+            voice: message.type === 'audio' ? Boolean(message.voice) : undefined,
+          },
+        };
+      }
+    }
+  }
+
+  // Replies point back at the interactive message that was tapped
+  private replyContext(messageId?: string): { from: string; id: string } | undefined {
+    return messageId ? { from: this.options.displayPhoneNumber || this.options.phoneNumberId, id: messageId } : undefined;
+  }
+
+  private webhookEnvelope(value: Record<string, unknown>): Record<string, unknown> {
+    return {
+      object: 'whatsapp_business_account',
+      entry: [{
+        id: this.options.businessAccountId || '100000000000000',
+        changes: [{
+          field: 'messages',
+          value: {
+            messaging_product: 'whatsapp',
+            metadata: {
+              display_phone_number: this.options.displayPhoneNumber || '15550000000',
+              phone_number_id: this.options.phoneNumberId,
+            },
+            ...value,
+          },
+        }],
+      }],
+    };
+  }
+
+  private async deliver(payload: Record<string, unknown>): Promise<number> {
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.webhookSecret) {
+      headers['X-Hub-Signature-256'] = signWebhookPayload(body, this.options.webhookSecret);
+    }
+
+    const response = await axios.post(this.options.webhookUrl, body, {
+      headers,
+      validateStatus: () => true,
+    });
+    return response.status;
+  }
+
+  private graphError(res: Response, status: number, code: number, message: string): Response {
+    return res.status(status).json({
+      error: {
+        message,
+        type: 'OAuthException',
+        code,
+        error_data: { messaging_product: 'whatsapp', details: message },
+        fbtrace_id: crypto.randomBytes(8).toString('hex'),
+      },
+    });
+  }
+
+  private timestamp(): string {
+    return Math.floor(Date.now() / 1000).toString();
+  }
+}
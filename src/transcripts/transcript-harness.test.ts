@@ -0,0 +1,65 @@
+import { beforeAll, describe, expect, it } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { diffTranscripts, runConversation, type ConversationScript, type Transcript } from './transcript-harness.js';
+import { configureLogger } from '../utils/logger.js';
+
+// The same conversations `npm run transcripts` replays; re-record the golden
+// files with `npm run transcripts:update` after an intended change
+const TRANSCRIPTS_DIR = path.join(process.cwd(), 'data', 'transcripts');
+const conversationsDir = path.join(TRANSCRIPTS_DIR, 'conversations');
+const goldenDir = path.join(TRANSCRIPTS_DIR, 'golden');
+
+const files = fs.readdirSync(conversationsDir).filter(file => file.endsWith('.json')).sort();
+
+function readJson<T>(file: string): T {
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as T;
+}
+
+describe('conversation transcripts', () => {
+  beforeAll(() => {
+    configureLogger({ level: 'error' });
+  });
+
+  it('has conversations to replay', () => {
+    expect(files.length).toBeGreaterThan(0);
+  });
+
+  it.each(files)('%s matches its golden transcript', async (file) => {
+    const script = readJson<ConversationScript>(path.join(conversationsDir, file));
+    const goldenFile = path.join(goldenDir, file);
+    expect(fs.existsSync(goldenFile)).toBe(true);
+
+    const transcript = await runConversation(script);
+    expect(diffTranscripts(readJson<Transcript>(goldenFile), transcript)).toBeNull();
+  });
+});
+
+describe('diffTranscripts', () => {
+  const transcript: Transcript = {
+    name: 'greeting',
+    turns: [{ user: { text: 'hi' }, replies: [{ kind: 'text', text: 'Hello!' }] }],
+  };
+
+  it('returns null for identical transcripts', () => {
+    expect(diffTranscripts(transcript, structuredClone(transcript))).toBeNull();
+  });
+
+  it('points at the first reply that changed', () => {
+    const changed = structuredClone(transcript);
+    changed.turns[0].replies[0].text = 'Hi there!';
+
+    const difference = diffTranscripts(transcript, changed);
+    expect(difference).toContain('First difference at line');
+    expect(difference).toContain('"text": "Hello!"');
+    expect(difference).toContain('"text": "Hi there!"');
+  });
+
+  it('reports replies that were added or dropped', () => {
+    const longer = structuredClone(transcript);
+    longer.turns[0].replies.push({ kind: 'text', text: 'Anything else?' });
+
+    expect(diffTranscripts(transcript, longer)).not.toBeNull();
+    expect(diffTranscripts(longer, transcript)).not.toBeNull();
+  });
+});
@@ -0,0 +1,241 @@
+import { RestaurantConciergeAgent } from '../agents/restaurant-concierge.js';
+import { EnhancedConciergeAgent } from '../agents/enhanced-concierge.js';
+import type {
+  ChannelButton,
+  ChannelInteractiveOptions,
+  ChannelListSection,
+  ChannelLocation,
+  ChannelSendResult,
+  MessagingChannel,
+} from '../channels/messaging-channel.js';
+import type { WhatsAppMessage } from '../types/index.js';
+import { RegexIntentParser } from '../utils/intent-parser.js';
+import { DateTimeResolver } from '../utils/date-time-resolver.js';
+import { StaticToolProvider, type McpServerName, type McpToolClient } from '../utils/tool-providers.js';
+import { loadEnhancedConfig } from '../utils/config.js';
+
+export type ScriptedTurn =
+  | { text: string }
+  | { reply: { id: string; title: string } }
+  | { location: { latitude: number; longitude: number; name?: string; address?: string } };
+
+// A scripted conversation. Fixtures give the JSON each MCP tool returns,
+// keyed by server and then tool name; calls to tools without a fixture fail.
+export interface ConversationScript {
+  name: string;
+  description?: string;
+  agent: 'concierge' | 'enhanced';
+  user?: string;
+  now?: string; // fixes the clock used to resolve "tomorrow", "friday", ...
+  timezone?: string;
+  fixtures?: Partial<Record<McpServerName, Record<string, unknown>>>;
+  turns: ScriptedTurn[];
+}
+
+export interface OutboundMessage {
+  kind: 'text' | 'buttons' | 'list' | 'location' | 'image' | 'document';
+  text?: string;
+  header?: string;
+  footer?: string;
+  buttons?: ChannelButton[];
+  buttonLabel?: string;
+  sections?: ChannelListSection[];
+  location?: ChannelLocation;
+  link?: string;
+  caption?: string;
+  filename?: string;
+}
+
+export interface ToolCallRecord {
+  server: McpServerName;
+  tool: string;
+  arguments: unknown;
+}
+
+export interface TranscriptTurn {
+  user: ScriptedTurn;
+  toolCalls?: ToolCallRecord[];
+  replies: OutboundMessage[];
+}
+
+export interface Transcript {
+  name: string;
+  turns: TranscriptTurn[];
+}
+
+const DEFAULT_USER = '15550001111';
+
+// Stands in for the WhatsApp channel and keeps everything the agent sends
+class RecordingChannel implements MessagingChannel {
+  readonly name = 'whatsapp' as const;
+  private outbox: OutboundMessage[] = [];
+
+  onInbound(): void {
+    // Turns are fed straight to the agent
+  }
+
+  take(): OutboundMessage[] {
+    return this.outbox.splice(0);
+  }
+
+  async sendText(_to: string, text: string): Promise<ChannelSendResult> {
+    return this.record({ kind: 'text', text });
+  }
+
+  async sendButtons(
+    _to: string,
+    body: string,
+    buttons: ChannelButton[],
+    options: ChannelInteractiveOptions = {}
+  ): Promise<ChannelSendResult> {
+    return this.record({ kind: 'buttons', header: options.header, text: body, footer: options.footer, buttons });
+  }
+
+  async sendList(
+    _to: string,
+    body: string,
+    buttonLabel: string,
+    sections: ChannelListSection[],
+    options: ChannelInteractiveOptions = {}
+  ): Promise<ChannelSendResult> {
+    return this.record({ kind: 'list', header: options.header, text: body, footer: options.footer, buttonLabel, sections });
+  }
+
+  async sendLocation(_to: string, location: ChannelLocation): Promise<ChannelSendResult> {
+    return this.record({ kind: 'location', location });
+  }
+
+  async sendImage(_to: string, image: { link: string; caption?: string }): Promise<ChannelSendResult> {
+    return this.record({ kind: 'image', ...image });
+  }
+
+  async sendDocument(_to: string, document: { link: string; filename?: string; caption?: string }): Promise<ChannelSendResult> {
+    return this.record({ kind: 'document', ...document });
+  }
+
+  private record(message: OutboundMessage): ChannelSendResult {
+    // Drop unset fields so golden files only show what was sent
+    this.outbox.push(JSON.parse(JSON.stringify(message)));
+    return { messageId: `harness-out-${this.outbox.length}` };
+  }
+}
+
+function createFixtureClient(
+  server: McpServerName,
+  fixtures: Record<string, unknown>,
+  calls: ToolCallRecord[]
+): McpToolClient {
+  return {
+    callTool: async (params) => {
+      calls.push({ server, tool: params.name, arguments: params.arguments ?? {} });
+      if (!(params.name in fixtures)) {
+        throw new Error(`No fixture for ${server}.${params.name}`);
+      }
+      return { content: [{ type: 'text' as const, text: JSON.stringify(fixtures[params.name]) }] };
+    },
+  };
+}
+
+function toInboundMessage(turn: ScriptedTurn, user: string, index: number, now: Date): WhatsAppMessage {
+  const message: WhatsAppMessage = {
+    id: `harness-in-${index + 1}`,
+    from: user,
+    to: 'harness',
+    timestamp: Math.floor(now.getTime() / 1000) + index,
+    type: 'text',
+  };
+
+  if ('text' in turn) {
+    message.text = { body: turn.text };
+  } else if ('reply' in turn) {
+    message.type = 'interactive';
+    message.interactive = { type: 'button_reply', button_reply: turn.reply };
+  } else {
+    message.type = 'location';
+    message.location = turn.location;
+  }
+  return message;
+}
+
+async function runConciergeConversation(script: ConversationScript): Promise<Transcript> {
+  const user = script.user || DEFAULT_USER;
+  const now = script.now ? new Date(script.now) : new Date();
+  const channel = new RecordingChannel();
+  const calls: ToolCallRecord[] = [];
+  const fixtures = script.fixtures || {};
+  const dateTimeResolver = new DateTimeResolver(script.timezone, () => now);
+
+  const agent = new RestaurantConciergeAgent({
+    whatsapp: {
+      accessToken: 'harness',
+      phoneNumberId: 'harness',
+      businessAccountId: 'harness',
+      webhookVerifyToken: 'harness',
+    },
+    channels: [channel],
+    toolProviders: {
+      googlePlaces: new StaticToolProvider(createFixtureClient('googlePlaces', fixtures.googlePlaces || {}, calls)),
+      openTable: new StaticToolProvider(createFixtureClient('openTable', fixtures.openTable || {}, calls)),
+      customerPreferences: new StaticToolProvider(
+        createFixtureClient('customerPreferences', fixtures.customerPreferences || {}, calls)
+      ),
+    },
+    intentParser: new RegexIntentParser(dateTimeResolver),
+    dateTimeResolver,
+  });
+  await agent.init();
+
+  const turns: TranscriptTurn[] = [];
+  for (const [index, turn] of script.turns.entries()) {
+    await agent.handleIncomingMessage(toInboundMessage(turn, user, index, now));
+    const toolCalls = calls.splice(0);
+    turns.push({ user: turn, ...(toolCalls.length > 0 ? { toolCalls } : {}), replies: channel.take() });
+  }
+
+  return { name: script.name, turns };
+}
+
+async function runEnhancedConversation(script: ConversationScript): Promise<Transcript> {
+  const user = script.user || DEFAULT_USER;
+  // Defaults only, so a local .env can't change the recorded replies
+  const agent = new EnhancedConciergeAgent(loadEnhancedConfig({}));
+  await agent.restaurantsLoaded;
+
+  const turns: TranscriptTurn[] = [];
+  for (const turn of script.turns) {
+    if (!('text' in turn)) {
+      throw new Error(`${script.name}: the enhanced agent only takes text turns`);
+    }
+    const response = await agent.processMessage(turn.text.toLowerCase(), user);
+    turns.push({ user: turn, replies: [{ kind: 'text', text: response }] });
+  }
+
+  return { name: script.name, turns };
+}
+
+// Plays the script against a fresh agent and returns what it sent back
+export async function runConversation(script: ConversationScript): Promise<Transcript> {
+  return script.agent === 'enhanced' ? runEnhancedConversation(script) : runConciergeConversation(script);
+}
+
+// Describes where a transcript departs from its golden file, or returns
+// null when they match
+export function diffTranscripts(expected: Transcript, actual: Transcript): string | null {
+  const expectedLines = JSON.stringify(expected, null, 2).split('\n');
+  const actualLines = JSON.stringify(actual, null, 2).split('\n');
+
+  const firstDifference = expectedLines.findIndex((line, index) => line !== actualLines[index]);
+  const index = firstDifference === -1 && expectedLines.length !== actualLines.length
+    ? expectedLines.length
+    : firstDifference;
+  if (index === -1) {
+    return null;
+  }
+
+  const from = Math.max(0, index - 3);
+  const context = (lines: string[]) => lines.slice(from, index + 4).map((line, offset) =>
+    `${from + offset === index ? '>' : ' '} ${from + offset + 1}: ${line}`
+  ).join('\n');
+
+  return `First difference at line ${index + 1}\n--- expected\n${context(expectedLines)}\n+++ actual\n${context(actualLines)}`;
+}
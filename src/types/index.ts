@@ -70,6 +70,7 @@ export interface CustomerPreferences {
   };
   searchRadius: number;
   allergies: string[];
+  timezone?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -107,7 +108,7 @@ export interface WhatsAppMessage {
   id: string;
   from: string;
   to: string;
-  type: 'text' | 'location' | 'image' | 'audio' | 'document';
+  type: 'text' | 'location' | 'image' | 'audio' | 'document' | 'interactive';
   timestamp: number;
   text?: {
     body: string;
@@ -121,8 +122,53 @@ export interface WhatsAppMessage {
   image?: {
     id: string;
     mime_type: string;
-    sha256: string;
+    sha256?: string;
   };
+  audio?: {
+    id: string;
+    mime_type: string;
+    sha256?: string;
+    voice?: boolean; // true for voice notes recorded in WhatsApp
+  };
+  // A tap on a reply button or list row we sent
+  interactive?: {
+    type: 'button_reply' | 'list_reply';
+    button_reply?: WhatsAppInteractiveReply;
+    list_reply?: WhatsAppInteractiveReply;
+  };
+}
+
+export type ChannelName = 'whatsapp' | 'telegram' | 'webchat';
+
+// Messages from every channel are normalized to the WhatsApp shape, with
+// `from` holding the channel-qualified user id (see channelUserId)
+export interface InboundMessage extends WhatsAppMessage {
+  channel: ChannelName;
+}
+
+export interface WhatsAppInteractiveReply {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+export type WhatsAppDeliveryStatus = 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface WhatsAppStatus {
+  id: string; // ID of the outbound message this status refers to
+  recipientId: string;
+  status: WhatsAppDeliveryStatus;
+  timestamp: number;
+  errors?: Array<{
+    code: number;
+    title: string;
+    message?: string;
+  }>;
+}
+
+export interface WhatsAppWebhookEvents {
+  messages: WhatsAppMessage[];
+  statuses: WhatsAppStatus[];
 }
 
 export interface ConversationContext {
@@ -139,11 +185,22 @@ export interface ConversationContext {
   };
   lastSearchResults?: Restaurant[];
   pendingReservation?: Partial<ReservationRequest>;
+  reservationDialog?: ReservationDialogState;
   messageHistory: WhatsAppMessage[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type ReservationSlot = 'date' | 'time' | 'partySize' | 'name' | 'specialRequests';
+
+export type ReservationDialogStep = ReservationSlot | 'confirm';
+
+export interface ReservationDialogState {
+  step: ReservationDialogStep;
+  history: ReservationDialogStep[];
+  restaurantName?: string;
+}
+
 export interface MCPServerConfig {
   name: string;
   command: string;
@@ -0,0 +1,185 @@
+import type { Express } from 'express';
+import type { ConversationContext, CustomerPreferences, WhatsAppMessage } from '../types/index.js';
+import { WhatsAppReengagementRequiredError } from '../integrations/whatsapp-errors.js';
+import { splitChannelUserId } from '../channels/messaging-channel.js';
+import { auditAdminAction, requireAdmin } from './admin-auth.js';
+import { ConfigError, type FeatureFlagValues } from './config.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('admin-api');
+
+export interface ReservationHistoryEntry {
+  id: number;
+  restaurantId: string;
+  restaurantName: string;
+  reservationDate: string;
+  partySize: number;
+  status: string;
+  createdAt: string;
+}
+
+export interface CustomerRecord {
+  preferences: CustomerPreferences | null;
+  reservationHistory: ReservationHistoryEntry[];
+}
+
+// What the admin API needs from the agent
+export interface AdminBackend {
+  listConversations(): Promise<ConversationContext[]>;
+  getConversation(userId: string): Promise<ConversationContext | null>;
+  // Resolves false when there was no conversation to clear
+  clearConversation(userId: string): Promise<boolean>;
+  getCustomerRecord(userId: string): Promise<CustomerRecord>;
+  sendAgentMessage(userId: string, text: string): Promise<{ messageId: string }>;
+  getFeatureFlags(): FeatureFlagValues;
+  // Re-reads the overrides file; throws ConfigError, keeping the current flags, when it is invalid
+  reloadFeatureFlags(): FeatureFlagValues;
+}
+
+const MAX_AGENT_MESSAGE_LENGTH = 4096;
+
+function summarizeConversation(context: ConversationContext) {
+  return {
+    userId: context.userId,
+    channel: splitChannelUserId(context.userId).channel,
+    sessionId: context.sessionId,
+    currentIntent: context.currentIntent,
+    messageCount: context.messageHistory.length,
+    pendingReservation: Boolean(context.pendingReservation),
+    createdAt: context.createdAt,
+    updatedAt: context.updatedAt,
+  };
+}
+
+// The user's side of the conversation, one line per message
+function transcriptEntry(message: WhatsAppMessage) {
+  const reply = message.interactive?.button_reply || message.interactive?.list_reply;
+  let text: string | undefined;
+  if (message.text) {
+    text = message.text.body;
+  } else if (reply) {
+    text = reply.title;
+  } else if (message.location) {
+    text = message.location.address || `${message.location.latitude},${message.location.longitude}`;
+  }
+
+  return {
+    id: message.id,
+    timestamp: new Date(message.timestamp * 1000).toISOString(),
+    type: message.type,
+    ...(text !== undefined ? { text } : {}),
+  };
+}
+
+// GET    /admin/conversations                   (viewer)
+// GET    /admin/conversations/:userId           (viewer)   summary and transcript
+// DELETE /admin/conversations/:userId           (operator) clears the session
+// POST   /admin/conversations/:userId/messages  (operator) sends { text } as the agent
+// GET    /admin/customers/:userId               (viewer)   preferences and reservation history
+// GET    /admin/features                        (viewer)   feature flags in effect
+// POST   /admin/features/reload                 (operator) re-reads the feature flag overrides file
+// Every request, refused ones included, is written to the audit log.
+export function registerAdminRoutes(app: Express, backend: AdminBackend, jwtSecret?: string): void {
+  const requireViewer = requireAdmin('viewer', jwtSecret);
+  const requireOperator = requireAdmin('operator', jwtSecret);
+
+  app.get('/admin/conversations', auditAdminAction('conversation.list'), requireViewer, async (req, res) => {
+    try {
+      const conversations = (await backend.listConversations())
+        .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+        .map(summarizeConversation);
+      res.json({ count: conversations.length, conversations });
+    } catch (error) {
+      logger.error('Error listing conversations', { error });
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.get(
+    '/admin/conversations/:userId',
+    auditAdminAction('conversation.view'),
+    requireViewer,
+    async (req, res) => {
+      try {
+        const context = await backend.getConversation(req.params.userId);
+        if (!context) {
+          return res.status(404).json({ error: 'Conversation not found' });
+        }
+        return res.json({
+          ...summarizeConversation(context),
+          transcript: context.messageHistory.map(transcriptEntry),
+        });
+      } catch (error) {
+        logger.error('Error loading conversation', { error });
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  app.delete(
+    '/admin/conversations/:userId',
+    auditAdminAction('conversation.clear'),
+    requireOperator,
+    async (req, res) => {
+      try {
+        if (!(await backend.clearConversation(req.params.userId))) {
+          return res.status(404).json({ error: 'Conversation not found' });
+        }
+        return res.json({ success: true });
+      } catch (error) {
+        logger.error('Error clearing conversation', { error });
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  app.post(
+    '/admin/conversations/:userId/messages',
+    auditAdminAction('conversation.send_message'),
+    requireOperator,
+    async (req, res) => {
+      const { text } = req.body || {};
+      if (typeof text !== 'string' || !text.trim() || text.length > MAX_AGENT_MESSAGE_LENGTH) {
+        return res.status(400).json({ error: `text is required and at most ${MAX_AGENT_MESSAGE_LENGTH} characters` });
+      }
+
+      try {
+        const { messageId } = await backend.sendAgentMessage(req.params.userId, text);
+        return res.json({ success: true, messageId });
+      } catch (error) {
+        if (error instanceof WhatsAppReengagementRequiredError) {
+          return res.status(409).json({
+            error: 'The 24 hour customer service window has closed; send a template via /api/concierge/notify',
+          });
+        }
+        logger.error('Error sending agent message', { error });
+        return res.status(502).json({ error: 'Failed to send message' });
+      }
+    }
+  );
+
+  app.get('/admin/customers/:userId', auditAdminAction('customer.view'), requireViewer, async (req, res) => {
+    try {
+      res.json(await backend.getCustomerRecord(req.params.userId));
+    } catch (error) {
+      logger.error('Error loading customer record', { error });
+      res.status(503).json({ error: 'Customer records are unavailable' });
+    }
+  });
+
+  app.get('/admin/features', auditAdminAction('features.view'), requireViewer, (req, res) => {
+    res.json({ features: backend.getFeatureFlags() });
+  });
+
+  app.post('/admin/features/reload', auditAdminAction('features.reload'), requireOperator, (req, res) => {
+    try {
+      return res.json({ success: true, features: backend.reloadFeatureFlags() });
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        return res.status(400).json({ error: 'Invalid feature flags file', details: error.message });
+      }
+      logger.error('Error reloading feature flags', { error });
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+}
@@ -0,0 +1,119 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import jwt from 'jsonwebtoken';
+import { isPlaceholder } from './config.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('admin-auth');
+const auditLogger = createLogger('admin-audit');
+
+// Operators can do everything viewers can, plus change state
+export type AdminRole = 'viewer' | 'operator';
+
+export interface AdminPrincipal {
+  subject: string;
+  role: AdminRole;
+}
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      admin?: AdminPrincipal;
+    }
+  }
+}
+
+const ROLE_RANK: Record<AdminRole, number> = { viewer: 0, operator: 1 };
+
+// Keeps other tokens signed with JWT_SECRET from passing as admin tokens
+const ADMIN_TOKEN_AUDIENCE = 'restaurant-concierge-admin';
+
+// Own keys only, so claims like "constructor" or "toString" aren't roles
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && Object.hasOwn(ROLE_RANK, value);
+}
+
+// Denies unless both ranks are known and the principal's is high enough
+function hasRole(principal: AdminPrincipal, role: AdminRole): boolean {
+  const held = isAdminRole(principal.role) ? ROLE_RANK[principal.role] : undefined;
+  const required = isAdminRole(role) ? ROLE_RANK[role] : undefined;
+  return typeof held === 'number' && typeof required === 'number' && held >= required;
+}
+
+export function issueAdminToken(
+  principal: AdminPrincipal,
+  options: { secret?: string; expiresIn?: string | number } = {}
+): string {
+  const secret = options.secret || process.env.JWT_SECRET;
+  if (!secret || isPlaceholder(secret)) {
+    throw new Error('JWT_SECRET is not set');
+  }
+  return jwt.sign({ role: principal.role }, secret, {
+    algorithm: 'HS256',
+    subject: principal.subject,
+    audience: ADMIN_TOKEN_AUDIENCE,
+    expiresIn: (options.expiresIn || '8h') as jwt.SignOptions['expiresIn'],
+  });
+}
+
+export function verifyAdminToken(token: string, secret: string): AdminPrincipal | null {
+  try {
+    const claims = jwt.verify(token, secret, { algorithms: ['HS256'], audience: ADMIN_TOKEN_AUDIENCE });
+    if (typeof claims === 'string' || !claims.sub || !isAdminRole(claims.role)) {
+      return null;
+    }
+    return { subject: claims.sub, role: claims.role };
+  } catch {
+    return null;
+  }
+}
+
+// Guards every admin and operator endpoint with a JWT bearer token (see
+// issueAdminToken) whose role claim is at least `role`; the caller is
+// available as req.admin. Fails closed: without JWT_SECRET, or with the
+// .env.example placeholder, every request is refused.
+export function requireAdmin(role: AdminRole = 'viewer', configured = process.env.JWT_SECRET): RequestHandler {
+  const secret = configured && !isPlaceholder(configured) ? configured : undefined;
+  if (!secret) {
+    logger.error('JWT_SECRET is not set or is the placeholder - all admin API requests will be rejected');
+  }
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const header = req.get('authorization') || '';
+    const principal = secret && /^Bearer\s+/i.test(header)
+      ? verifyAdminToken(header.replace(/^Bearer\s+/i, ''), secret)
+      : null;
+
+    if (!principal) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    // Set before the role check so the audit log names refused callers too
+    req.admin = principal;
+    if (!hasRole(principal, role)) {
+      res.status(403).json({ error: `Requires the ${role} role` });
+      return;
+    }
+
+    next();
+  };
+}
+
+// Records who did what once the response is sent, whatever the outcome.
+// Mounted ahead of requireAdmin so refused attempts are recorded too.
+export function auditAdminAction(action: string): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    res.on('finish', () => {
+      auditLogger.info('Admin action', {
+        action,
+        actor: req.admin?.subject,
+        role: req.admin?.role,
+        target: req.params.userId || req.params.id,
+        status: res.statusCode,
+        ip: req.ip,
+      });
+    });
+    next();
+  };
+}
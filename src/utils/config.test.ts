@@ -0,0 +1,82 @@
+import { afterAll, describe, expect, it } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigError, FeatureFlags, loadConfig, loadEnhancedConfig, loggerOptionsFromEnv } from './config.js';
+
+const WHATSAPP_ENV = {
+  WHATSAPP_ACCESS_TOKEN: 'access-token',
+  WHATSAPP_PHONE_NUMBER_ID: '1234567890',
+  WHATSAPP_WEBHOOK_VERIFY_TOKEN: 'verify-token',
+  WEBHOOK_SECRET: 'meta-app-secret',
+};
+
+describe('loadConfig', () => {
+  it('reads the timezone and logging settings', () => {
+    const config = loadConfig({
+      ...WHATSAPP_ENV,
+      DEFAULT_TIMEZONE: 'Europe/London',
+      LOG_LEVEL: 'debug',
+      LOG_FORMAT: 'pretty',
+      LOG_MAX_FILES: '3',
+    });
+
+    expect(config.timezone).toBe('Europe/London');
+    expect(config.logging).toEqual(expect.objectContaining({ level: 'debug', format: 'pretty', maxFiles: 3 }));
+  });
+
+  it.each([
+    ['DEFAULT_TIMEZONE', 'Mars/Olympus_Mons'],
+    ['LOG_LEVEL', 'loud'],
+    ['LOG_FORMAT', 'xml'],
+    ['LOG_MAX_FILE_SIZE_MB', 'lots'],
+  ])('rejects an invalid %s', (name, value) => {
+    expect(() => loadConfig({ ...WHATSAPP_ENV, [name]: value })).toThrow(new RegExp(`${name} must`));
+  });
+});
+
+describe('loadEnhancedConfig', () => {
+  it('starts without WhatsApp credentials', () => {
+    const config = loadEnhancedConfig({});
+
+    expect(config.webhookVerifyToken).toBeUndefined();
+    expect(config.rateLimits).toEqual({ requestsPerMinute: 60, userMessagesPerMinute: 20 });
+    expect(config.port).toBe(3000);
+  });
+
+  it('validates the settings it shares with the full agent', () => {
+    expect(() => loadEnhancedConfig({ RATE_LIMIT_REQUESTS_PER_MINUTE: '0', REDIS_DB: 'one' })).toThrow(ConfigError);
+  });
+});
+
+describe('loggerOptionsFromEnv', () => {
+  it('defaults to JSON logs', () => {
+    expect(loggerOptionsFromEnv({})).toEqual(expect.objectContaining({ format: 'json', level: undefined }));
+  });
+});
+
+describe('FeatureFlags', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'feature-flags-'));
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('treats a missing overrides file as no overrides', () => {
+    const flags = new FeatureFlags({ menuAnalysis: true }, path.join(dir, 'missing.json'));
+
+    expect(flags.load()).toEqual(expect.objectContaining({ menuAnalysis: true, reservationBooking: true }));
+  });
+
+  it('applies the overrides file and rejects unknown flags', () => {
+    const file = path.join(dir, 'flags.json');
+    fs.writeFileSync(file, JSON.stringify({ reservationBooking: false }));
+    const flags = new FeatureFlags({}, file);
+
+    expect(flags.load().reservationBooking).toBe(false);
+
+    fs.writeFileSync(file, JSON.stringify({ teleport: true }));
+    expect(() => flags.load()).toThrow(ConfigError);
+    expect(flags.isEnabled('reservationBooking')).toBe(false);
+  });
+});
@@ -0,0 +1,427 @@
+import fs from 'fs';
+import moment from 'moment-timezone';
+import { z } from 'zod';
+import type { LoggerOptions } from './logger.js';
+
+export type FeatureName =
+  | 'reservationBooking'
+  | 'dietaryRestrictions'
+  | 'customerPreferences'
+  | 'locationSharing'
+  | 'menuAnalysis';
+
+export type FeatureFlagValues = Record<FeatureName, boolean>;
+
+export const FEATURE_DEFAULTS: FeatureFlagValues = {
+  reservationBooking: true,
+  dietaryRestrictions: true,
+  customerPreferences: true,
+  locationSharing: true,
+  menuAnalysis: false,
+};
+
+const FEATURE_ENV_VARS: Record<FeatureName, string> = {
+  reservationBooking: 'ENABLE_RESERVATION_BOOKING',
+  dietaryRestrictions: 'ENABLE_DIETARY_RESTRICTIONS',
+  customerPreferences: 'ENABLE_CUSTOMER_PREFERENCES',
+  locationSharing: 'ENABLE_LOCATION_SHARING',
+  menuAnalysis: 'ENABLE_MENU_ANALYSIS',
+};
+
+const DEFAULT_FEATURE_FLAGS_PATH = './data/feature-flags.json';
+const DEFAULT_DATABASE_PATH = './data/restaurant-concierge.db';
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+// Unset and empty (`WHATSAPP_BUSINESS_ACCOUNT_ID=`) mean the same thing
+const blankAsUnset = (value: unknown) => (value === '' ? undefined : value);
+
+const optionalString = z.preprocess(blankAsUnset, z.string().optional());
+
+const count = z.coerce.number({ invalid_type_error: 'must be a number' }).int('must be a whole number');
+const optionalCount = z.preprocess(blankAsUnset, count.min(0, 'must not be negative').optional());
+const optionalPositive = z.preprocess(blankAsUnset, count.positive('must be positive').optional());
+
+const stringList = z.preprocess(
+  blankAsUnset,
+  z.string().transform(value => value.split(',').map(entry => entry.trim()).filter(Boolean)).optional()
+);
+
+// A value still set to the .env.example placeholder counts as missing
+export function isPlaceholder(value: string): boolean {
+  return /^your_.*_here$/.test(value);
+}
+
+const requiredSecret = z.string({ required_error: 'is required' })
+  .min(1, 'is required')
+  .refine(value => !isPlaceholder(value), 'is still the .env.example placeholder');
+
+// Credentials for optional integrations: unset, empty and the placeholder all
+// leave the integration off
+const optionalSecret = z.preprocess(
+  value => (value === '' || (typeof value === 'string' && isPlaceholder(value)) ? undefined : value),
+  z.string().regex(/^\S+$/, 'must not contain whitespace').optional()
+);
+
+// Which proxies may set X-Forwarded-For, and so the client IP that rate limits
+// and the audit log see: a hop count or proxy addresses/subnets. Trusting
+// every proxy would let any client pick its own IP.
+export type TrustProxySetting = false | number | string[];
+
+const TrustProxySchema = z.preprocess(
+  blankAsUnset,
+  z.string()
+    .refine(value => value !== 'true', "can't be true, which trusts any client; give the hop count or proxy addresses")
+    .transform((value): TrustProxySetting => {
+      if (value === 'false') {
+        return false;
+      }
+      return /^\d+$/.test(value) ? parseInt(value) : value.split(',').map(entry => entry.trim()).filter(Boolean);
+    })
+    .optional()
+);
+
+const optionalUrl = z.preprocess(blankAsUnset, z.string().url().optional());
+
+const flag = z.preprocess(
+  blankAsUnset,
+  z.enum(['true', 'false'], { errorMap: () => ({ message: 'must be true or false' }) })
+    .transform(value => value === 'true')
+    .optional()
+);
+
+const LoggingEnvSchema = z.object({
+  LOG_LEVEL: z.preprocess(
+    blankAsUnset,
+    z.enum(['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly'], {
+      errorMap: () => ({ message: 'must be one of error, warn, info, http, verbose, debug, silly' }),
+    }).optional()
+  ),
+  LOG_FORMAT: z.preprocess(
+    blankAsUnset,
+    z.enum(['json', 'pretty'], { errorMap: () => ({ message: 'must be json or pretty' }) }).default('json')
+  ),
+  LOG_FILE_PATH: optionalString,
+  LOG_MAX_FILE_SIZE_MB: optionalPositive,
+  LOG_MAX_FILES: optionalPositive,
+});
+
+// Settings every server reads, whichever agent it runs
+const ServerEnvSchema = LoggingEnvSchema.extend({
+  NODE_ENV: optionalString,
+  PORT: z.preprocess(blankAsUnset, count.positive('must be positive').default(3000)),
+  WEBHOOK_BASE_URL: optionalUrl,
+  TRUST_PROXY: TrustProxySchema,
+  WEB_CHAT_ALLOWED_ORIGINS: stringList,
+  REDIS_URL: optionalUrl,
+  REDIS_PASSWORD: optionalString,
+  REDIS_DB: optionalCount,
+  RATE_LIMIT_REQUESTS_PER_MINUTE: z.preprocess(blankAsUnset, count.positive('must be positive').default(60)),
+  RATE_LIMIT_USER_MESSAGES_PER_MINUTE: z.preprocess(blankAsUnset, count.positive('must be positive').default(20)),
+  DEFAULT_TIMEZONE: z.preprocess(
+    blankAsUnset,
+    z.string().refine(value => moment.tz.zone(value) !== null, 'must be an IANA timezone such as America/New_York')
+      .optional()
+  ),
+  FEATURE_FLAGS_PATH: optionalString,
+  ENABLE_RESERVATION_BOOKING: flag,
+  ENABLE_DIETARY_RESTRICTIONS: flag,
+  ENABLE_CUSTOMER_PREFERENCES: flag,
+  ENABLE_LOCATION_SHARING: flag,
+  ENABLE_MENU_ANALYSIS: flag,
+});
+
+const EnvSchema = ServerEnvSchema.extend({
+  WHATSAPP_ACCESS_TOKEN: requiredSecret,
+  WHATSAPP_PHONE_NUMBER_ID: requiredSecret,
+  WHATSAPP_BUSINESS_ACCOUNT_ID: optionalString,
+  WHATSAPP_WEBHOOK_VERIFY_TOKEN: requiredSecret,
+  WHATSAPP_GRAPH_API_URL: optionalUrl,
+  WHATSAPP_TEMPLATES_PATH: optionalString,
+  WHATSAPP_MESSAGES_PER_SECOND: optionalPositive,
+  WHATSAPP_RECIPIENT_BURST: optionalPositive,
+  WHATSAPP_RECIPIENT_MESSAGES_PER_MINUTE: optionalPositive,
+  WHATSAPP_SEND_MAX_RETRIES: optionalCount,
+  WEBHOOK_SECRET: requiredSecret,
+  JWT_SECRET: optionalSecret,
+  TELEGRAM_BOT_TOKEN: optionalSecret,
+  TELEGRAM_WEBHOOK_SECRET: optionalSecret,
+  ENABLE_WEB_CHAT: flag,
+  WEB_CHAT_PATH: optionalString,
+  SESSION_TIMEOUT: z.preprocess(blankAsUnset, count.positive('must be positive').default(60)),
+  MESSAGE_DEDUP_TTL_SECONDS: optionalPositive,
+  MESSAGE_MAX_ATTEMPTS: optionalPositive,
+  MESSAGE_RETRY_DELAY_MS: optionalPositive,
+  MCP_SERVER_MODE: z.preprocess(
+    blankAsUnset,
+    z.enum(['stdio', 'in-process'], { errorMap: () => ({ message: 'must be stdio or in-process' }) }).default('stdio')
+  ),
+  MCP_MAX_RESTARTS: optionalCount,
+  DATABASE_PATH: optionalString,
+  OPENAI_API_KEY: optionalSecret,
+  OPENAI_MODEL: optionalString,
+  OPENAI_BASE_URL: optionalUrl,
+  ANTHROPIC_API_KEY: optionalSecret,
+  ANTHROPIC_MODEL: optionalString,
+  ANTHROPIC_BASE_URL: optionalUrl,
+  SPEECH_TO_TEXT_PROVIDER: optionalString,
+  SPEECH_TO_TEXT_MODEL: optionalString,
+  SPEECH_TO_TEXT_LANGUAGE: optionalString,
+  SPEECH_TO_TEXT_STUB_TRANSCRIPT: optionalString,
+  MENU_ANALYSIS_PROVIDER: optionalString,
+  MENU_ANALYSIS_MODEL: optionalString,
+  MENU_ANALYSIS_STUB_TEXT: optionalString,
+}).superRefine((values, context) => {
+  // Without the secret every update would be rejected, so the bot would never answer
+  if (values.TELEGRAM_BOT_TOKEN && !values.TELEGRAM_WEBHOOK_SECRET) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['TELEGRAM_WEBHOOK_SECRET'],
+      message: 'is required when TELEGRAM_BOT_TOKEN is set',
+    });
+  }
+});
+
+// The enhanced agent serves generated data and runs without WhatsApp credentials;
+// its webhook then rejects every delivery
+const EnhancedEnvSchema = ServerEnvSchema.extend({
+  WHATSAPP_WEBHOOK_VERIFY_TOKEN: optionalSecret,
+  WEBHOOK_SECRET: optionalString,
+});
+
+export interface ServerConfig {
+  environment: string;
+  port: number;
+  // Public address the webhooks are registered under
+  publicBaseUrl?: string;
+  trustProxy: TrustProxySetting;
+  // Without a URL every store keeps its state in memory
+  redis?: { redisUrl: string; redisPassword?: string; redisDb?: number };
+  rateLimits: { requestsPerMinute: number; userMessagesPerMinute: number };
+  // For users who haven't shared a timezone
+  timezone?: string;
+  logging: LoggerOptions;
+  // Startup values; FeatureFlags layers the reloadable overrides file on top
+  features: FeatureFlagValues;
+  featureFlagsPath: string;
+}
+
+export interface AppConfig extends ServerConfig {
+  whatsapp: {
+    accessToken: string;
+    phoneNumberId: string;
+    businessAccountId: string;
+    webhookVerifyToken: string;
+    graphApiUrl?: string;
+    sendLimits: {
+      messagesPerSecond?: number;
+      recipientBurst?: number;
+      recipientMessagesPerMinute?: number;
+      maxRetries?: number;
+    };
+  };
+  templatesPath?: string;
+  // Meta App Secret that signs webhook deliveries
+  webhookSecret: string;
+  // Signs admin JWTs; the admin API rejects every request without one
+  jwtSecret?: string;
+  telegram?: { botToken: string; webhookSecret: string };
+  webChat?: { path?: string; allowedOrigins?: string[] };
+  sessionTimeoutMinutes: number;
+  messageDedupTtlSeconds?: number;
+  messageRetry: { maxAttempts?: number; baseDelayMs?: number };
+  mcp: { mode: 'stdio' | 'in-process'; maxRestarts?: number };
+  databasePath: string;
+  speechToText: { provider?: string; model?: string; language?: string; stubTranscript?: string };
+  menuAnalysis: { provider?: string; model?: string; stubText?: string };
+  // Set only for a usable key; intent parsing falls back to regexes without one
+  openai?: { apiKey: string; model?: string; baseUrl?: string };
+  anthropic?: { apiKey: string; model?: string; baseUrl?: string };
+}
+
+export interface EnhancedConfig extends ServerConfig {
+  // Both unset leave the WhatsApp webhook closed
+  webhookVerifyToken?: string;
+  webhookSecret?: string;
+  webChat: { allowedOrigins?: string[] };
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map(issue => `${issue.path.join('.') || 'value'} ${issue.message}`).join('; ');
+}
+
+function parseEnv<T extends z.ZodTypeAny>(schema: T, env: NodeJS.ProcessEnv): z.infer<T> {
+  const parsed = schema.safeParse(env);
+  if (!parsed.success) {
+    throw new ConfigError(`Invalid configuration: ${describeIssues(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+function loggingConfig(values: z.infer<typeof LoggingEnvSchema>): LoggerOptions {
+  return {
+    level: values.LOG_LEVEL,
+    format: values.LOG_FORMAT,
+    filePath: values.LOG_FILE_PATH,
+    maxFileSizeMb: values.LOG_MAX_FILE_SIZE_MB,
+    maxFiles: values.LOG_MAX_FILES,
+  };
+}
+
+function serverConfig(values: z.infer<typeof ServerEnvSchema>, env: NodeJS.ProcessEnv): ServerConfig {
+  return {
+    environment: values.NODE_ENV || 'development',
+    port: values.PORT,
+    publicBaseUrl: values.WEBHOOK_BASE_URL,
+    trustProxy: values.TRUST_PROXY ?? false,
+    redis: values.REDIS_URL
+      ? { redisUrl: values.REDIS_URL, redisPassword: values.REDIS_PASSWORD, redisDb: values.REDIS_DB }
+      : undefined,
+    rateLimits: {
+      requestsPerMinute: values.RATE_LIMIT_REQUESTS_PER_MINUTE,
+      userMessagesPerMinute: values.RATE_LIMIT_USER_MESSAGES_PER_MINUTE,
+    },
+    timezone: values.DEFAULT_TIMEZONE,
+    logging: loggingConfig(values),
+    features: featureFlagsFromEnv(env),
+    featureFlagsPath: values.FEATURE_FLAGS_PATH || DEFAULT_FEATURE_FLAGS_PATH,
+  };
+}
+
+// Validates the environment once at startup, reporting every problem at once
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const values = parseEnv(EnvSchema, env);
+  return {
+    ...serverConfig(values, env),
+    whatsapp: {
+      accessToken: values.WHATSAPP_ACCESS_TOKEN,
+      phoneNumberId: values.WHATSAPP_PHONE_NUMBER_ID,
+      businessAccountId: values.WHATSAPP_BUSINESS_ACCOUNT_ID || '',
+      webhookVerifyToken: values.WHATSAPP_WEBHOOK_VERIFY_TOKEN,
+      graphApiUrl: values.WHATSAPP_GRAPH_API_URL,
+      sendLimits: {
+        messagesPerSecond: values.WHATSAPP_MESSAGES_PER_SECOND,
+        recipientBurst: values.WHATSAPP_RECIPIENT_BURST,
+        recipientMessagesPerMinute: values.WHATSAPP_RECIPIENT_MESSAGES_PER_MINUTE,
+        maxRetries: values.WHATSAPP_SEND_MAX_RETRIES,
+      },
+    },
+    templatesPath: values.WHATSAPP_TEMPLATES_PATH,
+    webhookSecret: values.WEBHOOK_SECRET,
+    jwtSecret: values.JWT_SECRET,
+    telegram: values.TELEGRAM_BOT_TOKEN && values.TELEGRAM_WEBHOOK_SECRET
+      ? { botToken: values.TELEGRAM_BOT_TOKEN, webhookSecret: values.TELEGRAM_WEBHOOK_SECRET }
+      : undefined,
+    webChat: values.ENABLE_WEB_CHAT
+      ? { path: values.WEB_CHAT_PATH, allowedOrigins: values.WEB_CHAT_ALLOWED_ORIGINS }
+      : undefined,
+    sessionTimeoutMinutes: values.SESSION_TIMEOUT,
+    messageDedupTtlSeconds: values.MESSAGE_DEDUP_TTL_SECONDS,
+    messageRetry: { maxAttempts: values.MESSAGE_MAX_ATTEMPTS, baseDelayMs: values.MESSAGE_RETRY_DELAY_MS },
+    mcp: { mode: values.MCP_SERVER_MODE, maxRestarts: values.MCP_MAX_RESTARTS },
+    databasePath: values.DATABASE_PATH || DEFAULT_DATABASE_PATH,
+    speechToText: {
+      provider: values.SPEECH_TO_TEXT_PROVIDER,
+      model: values.SPEECH_TO_TEXT_MODEL,
+      language: values.SPEECH_TO_TEXT_LANGUAGE,
+      stubTranscript: values.SPEECH_TO_TEXT_STUB_TRANSCRIPT,
+    },
+    menuAnalysis: {
+      provider: values.MENU_ANALYSIS_PROVIDER,
+      model: values.MENU_ANALYSIS_MODEL,
+      stubText: values.MENU_ANALYSIS_STUB_TEXT,
+    },
+    openai: values.OPENAI_API_KEY
+      ? { apiKey: values.OPENAI_API_KEY, model: values.OPENAI_MODEL, baseUrl: values.OPENAI_BASE_URL }
+      : undefined,
+    anthropic: values.ANTHROPIC_API_KEY
+      ? { apiKey: values.ANTHROPIC_API_KEY, model: values.ANTHROPIC_MODEL, baseUrl: values.ANTHROPIC_BASE_URL }
+      : undefined,
+  };
+}
+
+export function loadEnhancedConfig(env: NodeJS.ProcessEnv = process.env): EnhancedConfig {
+  const values = parseEnv(EnhancedEnvSchema, env);
+  return {
+    ...serverConfig(values, env),
+    webhookVerifyToken: values.WHATSAPP_WEBHOOK_VERIFY_TOKEN,
+    webhookSecret: values.WEBHOOK_SECRET,
+    webChat: { allowedOrigins: values.WEB_CHAT_ALLOWED_ORIGINS },
+  };
+}
+
+// For the MCP servers and the entry points that log before (or without) the full config
+export function loggerOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): LoggerOptions {
+  return loggingConfig(parseEnv(LoggingEnvSchema, env));
+}
+
+function featureFlagsFromEnv(env: NodeJS.ProcessEnv = process.env): FeatureFlagValues {
+  const values = { ...FEATURE_DEFAULTS };
+  for (const [feature, name] of Object.entries(FEATURE_ENV_VARS) as Array<[FeatureName, string]>) {
+    const parsed = flag.safeParse(env[name]);
+    if (!parsed.success) {
+      throw new ConfigError(`Invalid configuration: ${name} ${describeIssues(parsed.error)}`);
+    }
+    if (parsed.data !== undefined) {
+      values[feature] = parsed.data;
+    }
+  }
+  return values;
+}
+
+const FeatureOverridesSchema = z.object({
+  reservationBooking: z.boolean(),
+  dietaryRestrictions: z.boolean(),
+  customerPreferences: z.boolean(),
+  locationSharing: z.boolean(),
+  menuAnalysis: z.boolean(),
+}).partial().strict();
+
+// The capabilities the agents offer, read on every message so a reload takes
+// effect immediately. The environment sets the baseline; an optional JSON
+// file of overrides (e.g. {"reservationBooking": false}) can change them at runtime.
+export class FeatureFlags {
+  private defaults: FeatureFlagValues;
+  private overridesPath?: string;
+  private values: FeatureFlagValues;
+
+  constructor(defaults: Partial<FeatureFlagValues> = {}, overridesPath?: string) {
+    this.defaults = { ...FEATURE_DEFAULTS, ...defaults };
+    this.overridesPath = overridesPath;
+    this.values = { ...this.defaults };
+  }
+
+  isEnabled(feature: FeatureName): boolean {
+    return this.values[feature];
+  }
+
+  all(): FeatureFlagValues {
+    return { ...this.values };
+  }
+
+  // Re-reads the overrides file; a missing file means no overrides. The
+  // previous flags stay in place if the file is invalid.
+  load(): FeatureFlagValues {
+    let overrides: z.infer<typeof FeatureOverridesSchema> = {};
+    if (this.overridesPath) {
+      try {
+        overrides = FeatureOverridesSchema.parse(JSON.parse(fs.readFileSync(this.overridesPath, 'utf8')));
+      } catch (error) {
+        // Not `instanceof Error`: fs errors can come from another realm, e.g. under Jest
+        if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+          throw new ConfigError(`Invalid feature flags file ${this.overridesPath}: ${
+            error instanceof z.ZodError ? describeIssues(error) : (error as Error)?.message ?? String(error)
+          }`);
+        }
+      }
+    }
+
+    this.values = { ...this.defaults, ...overrides };
+    return this.all();
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from '@jest/globals';
+import { DateTimeResolver } from './date-time-resolver.js';
+
+// Thursday, 11:00 in New York
+const NOW = new Date('2026-03-12T15:00:00Z');
+
+describe('DateTimeResolver', () => {
+  const resolver = new DateTimeResolver('America/New_York', () => NOW);
+
+  it.each([
+    ['tomorrow at 7pm', { date: '2026-03-13', time: '19:00' }],
+    ['noon tomorrow', { date: '2026-03-13', time: '12:00' }],
+    ['friday', { date: '2026-03-13' }],
+    ['dinner at 19:30 on 3/20', { date: '2026-03-20', time: '19:30' }],
+    ['in 2 hours', { date: '2026-03-12', time: '13:00' }],
+  ])('resolves "%s"', (text, expected) => {
+    expect(resolver.resolve(text)).toEqual(expected);
+  });
+
+  it('reads an hour without am/pm as dinner time', () => {
+    expect(resolver.resolve('at 7')).toEqual({ time: '19:00' });
+  });
+
+  it('moves a month and day that have passed to next year', () => {
+    expect(resolver.resolve('march 3')).toEqual({ date: '2027-03-03' });
+  });
+
+  it.each([
+    ['March 20', '2026-03-20'],
+    ['sept. 3', '2026-09-03'],
+    ['the 5th of june', '2026-06-05'],
+    ['dec 24, 2026', '2026-12-24'],
+  ])('reads the month name in "%s"', (text, date) => {
+    expect(resolver.resolve(text).date).toBe(date);
+  });
+
+  it.each([
+    'table near the market 12 people',
+    'Junction 5 please',
+    'meet the mayor 3 of us',
+    'augustine 4',
+  ])('does not take a word starting like a month as a date in "%s"', (text) => {
+    expect(resolver.resolve(text).date).toBeUndefined();
+  });
+
+  it('asks back instead of guessing between two dates', () => {
+    const resolution = resolver.resolve('next saturday');
+    expect(resolution.date).toBeUndefined();
+    expect(resolution.clarification).toBe('Do you mean Saturday, Mar 14 or Saturday, Mar 21?');
+  });
+
+  it('drops a time that has already passed today', () => {
+    const resolution = resolver.resolve('today at 9am');
+    expect(resolution).toEqual({
+      date: '2026-03-12',
+      clarification: '9:00 AM has already passed today. What time would you like?',
+    });
+  });
+
+  it('checks a time given on its own against the date chosen earlier', () => {
+    expect(resolver.resolve('7am', undefined, '2026-03-12').time).toBeUndefined();
+    expect(resolver.resolve('7am', undefined, '2026-03-13')).toEqual({ time: '07:00' });
+  });
+
+  it("resolves against the user's timezone", () => {
+    // Already Friday in Tokyo
+    expect(resolver.resolve('today at 9pm', 'Asia/Tokyo')).toEqual({ date: '2026-03-13', time: '21:00' });
+  });
+
+  it('ignores text without a date or time', () => {
+    expect(resolver.resolve('italian near times square')).toEqual({});
+    expect(resolver.resolve('13pm')).toEqual({});
+  });
+
+  describe('hasPassed', () => {
+    it('compares with the current time on the same day', () => {
+      expect(resolver.hasPassed('2026-03-12', '10:30')).toBe(true);
+      expect(resolver.hasPassed('2026-03-12', '11:30')).toBe(false);
+    });
+
+    it('treats earlier days as passed and later ones as not', () => {
+      expect(resolver.hasPassed('2026-03-11', '23:00')).toBe(true);
+      expect(resolver.hasPassed('2026-03-13', '08:00')).toBe(false);
+    });
+
+    it("uses the user's timezone", () => {
+      expect(resolver.hasPassed('2026-03-12', '10:30', 'Asia/Tokyo')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,324 @@
+import moment from 'moment-timezone';
+
+export interface DateTimeResolution {
+  date?: string; // YYYY-MM-DD in the user's timezone
+  time?: string; // HH:MM, 24h
+  // Question to put back to the user when the text has more than one reading
+  // or points to the past; the corresponding field is left unset
+  clarification?: string;
+}
+
+const DEFAULT_TIMEZONE = 'America/New_York';
+const DATE_FORMAT = 'YYYY-MM-DD';
+const DISPLAY_DATE_FORMAT = 'dddd, MMM D';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY_PATTERN = '(sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)(?:day|nesday|sday|urday)?';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+// Full names and the usual abbreviations only, so "market" or "junction" isn't a month
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?'
+  + '|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\b\\.?';
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+const HOUR_PATTERN = '(\\d{1,2}|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)';
+
+export class DateTimeResolver {
+  private defaultTimezone: string;
+  private now: () => Date;
+
+  constructor(defaultTimezone = DEFAULT_TIMEZONE, now: () => Date = () => new Date()) {
+    this.defaultTimezone = moment.tz.zone(defaultTimezone) ? defaultTimezone : DEFAULT_TIMEZONE;
+    this.now = now;
+  }
+
+  currentTime(timezone?: string): moment.Moment {
+    const zone = timezone && moment.tz.zone(timezone) ? timezone : this.defaultTimezone;
+    return moment.tz(this.now(), zone);
+  }
+
+  // `chosenDate` is a date agreed earlier in the conversation, so a time given
+  // on its own ("7am") can still be checked against it
+  resolve(text: string, timezone?: string, chosenDate?: string): DateTimeResolution {
+    const now = this.currentTime(timezone);
+    const lowerText = text.toLowerCase();
+
+    // "in 2 hours" fixes both the date and the time
+    const relative = this.resolveRelativeOffset(lowerText, now);
+    if (relative) {
+      return relative;
+    }
+
+    const resolution: DateTimeResolution = {};
+    const clarifications: string[] = [];
+
+    const date = this.resolveDate(lowerText, now);
+    if (date.clarification) {
+      clarifications.push(date.clarification);
+    } else if (date.value) {
+      if (date.value.isBefore(now, 'day')) {
+        clarifications.push(`${date.value.format(DISPLAY_DATE_FORMAT)} has already passed. Which date would you like?`);
+      } else {
+        resolution.date = date.value.format(DATE_FORMAT);
+      }
+    }
+
+    const time = this.resolveTime(lowerText);
+    if (time.clarification) {
+      clarifications.push(time.clarification);
+    } else if (time.value) {
+      const day = resolution.date ?? chosenDate;
+      if (day && this.hasPassed(day, time.value, timezone)) {
+        clarifications.push(`${this.formatTime(time.value)} has already passed today. What time would you like?`);
+      } else {
+        resolution.time = time.value;
+      }
+    }
+
+    if (clarifications.length > 0) {
+      resolution.clarification = clarifications.join('\n');
+    }
+
+    return resolution;
+  }
+
+  hasPassed(date: string, time: string, timezone?: string): boolean {
+    const now = this.currentTime(timezone);
+    const today = now.format(DATE_FORMAT);
+    return date < today || (date === today && time < now.format('HH:mm'));
+  }
+
+  private resolveRelativeOffset(text: string, now: moment.Moment): DateTimeResolution | null {
+    const match = text.match(/\bin\s+(an?|\d+|half an)\s*(hours?|hrs?|minutes?|mins?)\b/);
+    if (!match) {
+      return null;
+    }
+
+    let minutes = match[1] === 'a' || match[1] === 'an' ? 1 : match[1] === 'half an' ? 0.5 : parseInt(match[1]);
+    if (match[2].startsWith('h')) {
+      minutes *= 60;
+    }
+
+    // Round up to the next quarter hour, the granularity restaurants book in
+    const target = now.clone().add(minutes, 'minutes');
+    const remainder = target.minute() % 15;
+    if (remainder !== 0) {
+      target.add(15 - remainder, 'minutes');
+    }
+
+    return { date: target.format(DATE_FORMAT), time: target.format('HH:mm') };
+  }
+
+  private resolveDate(text: string, now: moment.Moment): { value?: moment.Moment; clarification?: string } {
+    const today = now.clone().startOf('day');
+
+    if (/\bday after tomorrow\b/.test(text)) {
+      return { value: today.clone().add(2, 'days') };
+    }
+
+    if (/\b(tomorrow|tmrw|tmr)\b/.test(text)) {
+      return { value: today.clone().add(1, 'day') };
+    }
+
+    if (/\b(today|tonight|this evening|this afternoon)\b/.test(text)) {
+      return { value: today };
+    }
+
+    if (/\b(this )?weekend\b/.test(text)) {
+      return this.resolveWeekend(today, /\bnext weekend\b/.test(text));
+    }
+
+    const weekday = text.match(new RegExp(`\\b(next|this|on)?\\s*${WEEKDAY_PATTERN}\\b`));
+    if (weekday) {
+      return this.resolveWeekday(today, this.weekdayIndex(weekday[2]), weekday[1] === 'next');
+    }
+
+    const isoDate = text.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+    if (isoDate) {
+      return this.buildDate(now, parseInt(isoDate[1]), parseInt(isoDate[2]), parseInt(isoDate[3]));
+    }
+
+    // US ordering, matching what users have been typing so far; a bare "7-8"
+    // is more likely a party size range than a date, so dashes need a year
+    const numericDate = text.match(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/)
+      || text.match(/\b(\d{1,2})-(\d{1,2})-(\d{2,4})\b/);
+    if (numericDate) {
+      const year = numericDate[3]
+        ? numericDate[3].length === 2 ? 2000 + parseInt(numericDate[3]) : parseInt(numericDate[3])
+        : undefined;
+      return this.buildDate(now, year, parseInt(numericDate[1]), parseInt(numericDate[2]));
+    }
+
+    const monthFirst = text.match(new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`));
+    if (monthFirst) {
+      const year = monthFirst[3] ? parseInt(monthFirst[3]) : undefined;
+      return this.buildDate(now, year, this.monthIndex(monthFirst[1]) + 1, parseInt(monthFirst[2]));
+    }
+
+    const dayFirst = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}(?:,?\\s+(\\d{4}))?`));
+    if (dayFirst) {
+      const year = dayFirst[3] ? parseInt(dayFirst[3]) : undefined;
+      return this.buildDate(now, year, this.monthIndex(dayFirst[2]) + 1, parseInt(dayFirst[1]));
+    }
+
+    return {};
+  }
+
+  private resolveWeekend(today: moment.Moment, next: boolean): { value?: moment.Moment; clarification?: string } {
+    const day = today.day();
+
+    // On Sunday "this weekend" can only mean today
+    if (day === 0 && !next) {
+      return { value: today };
+    }
+
+    const saturday = today.clone().add((6 - day + 7) % 7, 'days');
+    if (next) {
+      saturday.add(7, 'days');
+    }
+    const sunday = saturday.clone().add(1, 'day');
+
+    return {
+      clarification: `Do you mean Saturday (${saturday.format('MMM D')}) or Sunday (${sunday.format('MMM D')})?`,
+    };
+  }
+
+  private resolveWeekday(
+    today: moment.Moment,
+    weekday: number,
+    next: boolean
+  ): { value?: moment.Moment; clarification?: string } {
+    const upcoming = today.clone().add((weekday - today.day() + 7) % 7, 'days');
+
+    if (!next) {
+      return { value: upcoming };
+    }
+
+    // "next Friday" said earlier in the same week could mean either Friday
+    const sameWeek = upcoming.isoWeek() === today.isoWeek() && upcoming.isAfter(today, 'day');
+    if (sameWeek) {
+      const following = upcoming.clone().add(7, 'days');
+      return {
+        clarification: `Do you mean ${upcoming.format(DISPLAY_DATE_FORMAT)} or ${following.format(DISPLAY_DATE_FORMAT)}?`,
+      };
+    }
+
+    return { value: upcoming.isSame(today, 'day') ? upcoming.add(7, 'days') : upcoming };
+  }
+
+  // Without a year, pick the next time that calendar date comes round
+  private buildDate(now: moment.Moment, year: number | undefined, month: number, day: number): { value?: moment.Moment; clarification?: string } {
+    const candidate = moment.tz({ year: year ?? now.year(), month: month - 1, day }, now.tz()!);
+
+    if (!candidate.isValid()) {
+      return { clarification: "I couldn't understand that date. Could you try something like 'Dec 25' or '12/25'?" };
+    }
+
+    if (year === undefined && candidate.isBefore(now, 'day')) {
+      candidate.add(1, 'year');
+    }
+
+    return { value: candidate };
+  }
+
+  private resolveTime(text: string): { value?: string; clarification?: string } {
+    if (/\b(noon|midday)\b/.test(text)) {
+      return { value: '12:00' };
+    }
+
+    if (/\bmidnight\b/.test(text)) {
+      return { value: '00:00' };
+    }
+
+    const withMeridiem = text.match(/\b(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)(?=\W|$)/);
+    if (withMeridiem) {
+      let hour = parseInt(withMeridiem[1]);
+      const minute = withMeridiem[2] ? parseInt(withMeridiem[2]) : 0;
+      const isPm = withMeridiem[3].startsWith('p');
+
+      if (hour > 12 || minute > 59) {
+        return {};
+      }
+      if (isPm && hour !== 12) {
+        hour += 12;
+      } else if (!isPm && hour === 12) {
+        hour = 0;
+      }
+      return { value: this.pad(hour, minute) };
+    }
+
+    const twentyFourHour = text.match(/\b([01]?\d|2[0-3]):([0-5]\d)\b/);
+    if (twentyFourHour) {
+      const hour = parseInt(twentyFourHour[1]);
+      const minute = parseInt(twentyFourHour[2]);
+      // "7:30" with no meridiem is as ambiguous as "half seven"
+      return hour >= 13 || hour === 0 ? { value: this.pad(hour, minute) } : this.assumeEvening(hour, minute);
+    }
+
+    const halfPast = text.match(new RegExp(`\\bhalf(?: past)? ${HOUR_PATTERN}\\b`));
+    if (halfPast) {
+      return this.assumeEvening(this.parseHour(halfPast[1]), 30);
+    }
+
+    const quarterPast = text.match(new RegExp(`\\bquarter past ${HOUR_PATTERN}\\b`));
+    if (quarterPast) {
+      return this.assumeEvening(this.parseHour(quarterPast[1]), 15);
+    }
+
+    const quarterTo = text.match(new RegExp(`\\bquarter to ${HOUR_PATTERN}\\b`));
+    if (quarterTo) {
+      const hour = this.parseHour(quarterTo[1]);
+      return this.assumeEvening(hour === 1 ? 12 : hour - 1, 45);
+    }
+
+    const bareHour = text.match(new RegExp(`\\b(?:at|around|about) ${HOUR_PATTERN}(?: o'?clock)?\\b|\\b${HOUR_PATTERN} o'?clock\\b`));
+    if (bareHour) {
+      return this.assumeEvening(this.parseHour(bareHour[1] || bareHour[2]), 0);
+    }
+
+    return {};
+  }
+
+  // Restaurant bookings without am/pm are almost always lunch or dinner;
+  // only late-morning hours are genuinely ambiguous
+  private assumeEvening(hour: number, minute: number): { value?: string; clarification?: string } {
+    if (hour < 1 || hour > 12) {
+      return {};
+    }
+
+    if (hour === 12) {
+      return { value: this.pad(12, minute) };
+    }
+
+    if (hour === 10 || hour === 11) {
+      return {
+        clarification: `Did you mean ${this.formatTime(this.pad(hour, minute))} or ${this.formatTime(this.pad(hour + 12, minute))}?`,
+      };
+    }
+
+    return { value: this.pad(hour + 12, minute) };
+  }
+
+  private parseHour(value: string): number {
+    return NUMBER_WORDS[value] ?? parseInt(value);
+  }
+
+  private weekdayIndex(value: string): number {
+    return WEEKDAYS.findIndex(day => day.startsWith(value.slice(0, 3)));
+  }
+
+  private monthIndex(value: string): number {
+    return MONTHS.indexOf(value.slice(0, 3));
+  }
+
+  private pad(hour: number, minute: number): string {
+    return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+  }
+
+  private formatTime(time: string): string {
+    return moment(time, 'HH:mm').format('h:mm A');
+  }
+}
@@ -9,6 +9,12 @@ export interface DietaryAnalysis {
   incompatibleOptions: DietaryRestrictionType[];
 }
 
+export interface DishAnalysis {
+  dish: string;
+  safe: boolean;
+  risks: string[];
+}
+
 export interface ParsedDietaryInfo {
   restrictions: DietaryRestrictionType[];
   allergies: string[];
@@ -78,6 +84,42 @@ export class DietaryRestrictionsHandler {
     sulfites: ['sulfite', 'sulfur dioxide', 'preservative'],
   };
 
+  // Ingredients in a dish name that break a restriction
+  private static readonly RESTRICTION_CONFLICTS: Record<DietaryRestrictionType, string[]> = {
+    vegetarian: [
+      'meat', 'beef', 'steak', 'pork', 'bacon', 'ham', 'chicken', 'lamb', 'veal', 'duck', 'turkey',
+      'sausage', 'chorizo', 'pepperoni', 'prosciutto', 'salami', 'fish', 'salmon', 'tuna', 'anchovy',
+      'shrimp', 'prawn', 'crab', 'lobster', 'clam', 'mussel', 'oyster', 'squid', 'calamari', 'octopus',
+    ],
+    vegan: [
+      'meat', 'beef', 'steak', 'pork', 'bacon', 'ham', 'chicken', 'lamb', 'veal', 'duck', 'turkey',
+      'sausage', 'chorizo', 'pepperoni', 'prosciutto', 'salami', 'fish', 'salmon', 'tuna', 'anchovy',
+      'shrimp', 'prawn', 'crab', 'lobster', 'clam', 'mussel', 'oyster', 'squid', 'calamari', 'octopus',
+      'cheese', 'mozzarella', 'parmesan', 'feta', 'ricotta', 'milk', 'cream', 'butter', 'yogurt',
+      'egg', 'mayo', 'mayonnaise', 'aioli', 'honey', 'carbonara', 'alfredo',
+    ],
+    'gluten-free': [
+      'bread', 'bun', 'toast', 'sandwich', 'burger', 'pasta', 'spaghetti', 'linguine', 'penne', 'lasagna',
+      'ravioli', 'gnocchi', 'noodle', 'pizza', 'flour', 'wheat', 'breaded', 'battered', 'tempura',
+      'crouton', 'dumpling', 'pastry', 'pie', 'cake', 'couscous', 'barley', 'beer',
+    ],
+    'dairy-free': [
+      'cheese', 'mozzarella', 'parmesan', 'feta', 'ricotta', 'burrata', 'milk', 'cream', 'creamy',
+      'butter', 'yogurt', 'alfredo', 'carbonara', 'paneer', 'gelato', 'ice cream',
+    ],
+    'nut-free': ['nut', 'peanut', 'almond', 'walnut', 'cashew', 'pistachio', 'hazelnut', 'pecan', 'pesto', 'praline', 'satay'],
+    'shellfish-free': ['shellfish', 'shrimp', 'prawn', 'crab', 'lobster', 'oyster', 'mussel', 'clam', 'scallop', 'crawfish'],
+    halal: ['pork', 'bacon', 'ham', 'prosciutto', 'pepperoni', 'chorizo', 'salami', 'wine', 'beer', 'rum'],
+    kosher: [
+      'pork', 'bacon', 'ham', 'prosciutto', 'pepperoni', 'chorizo', 'salami',
+      'shellfish', 'shrimp', 'prawn', 'crab', 'lobster', 'oyster', 'mussel', 'clam', 'scallop', 'squid', 'calamari', 'octopus',
+    ],
+    keto: ['bread', 'bun', 'pasta', 'spaghetti', 'noodle', 'rice', 'risotto', 'potato', 'fries', 'pizza', 'cake', 'dessert', 'sugar', 'tortilla'],
+    paleo: ['bread', 'pasta', 'noodle', 'rice', 'pizza', 'cheese', 'bean', 'lentil', 'tofu', 'sugar', 'fries'],
+    'low-carb': ['bread', 'bun', 'pasta', 'spaghetti', 'noodle', 'rice', 'risotto', 'potato', 'fries', 'pizza', 'cake', 'tortilla'],
+    'diabetic-friendly': ['sugar', 'syrup', 'cake', 'dessert', 'sundae', 'milkshake', 'soda', 'candied', 'caramel'],
+  };
+
   static parseDietaryInformation(text: string): ParsedDietaryInfo {
     const normalizedText = text.toLowerCase().trim();
     const restrictions: DietaryRestrictionType[] = [];
@@ -321,6 +363,44 @@ export class DietaryRestrictionsHandler {
     }
   }
 
+  // Keyword check of a single dish name. A dish with no matches is only free of
+  // obvious conflicts; hidden ingredients still need confirming with staff.
+  static analyzeDish(
+    dish: string,
+    restrictions: DietaryRestrictionType[],
+    allergies: string[]
+  ): DishAnalysis {
+    const risks: string[] = [];
+
+    for (const restriction of restrictions) {
+      const conflict = this.findIngredient(dish, this.RESTRICTION_CONFLICTS[restriction] || []);
+      if (conflict) {
+        risks.push(`${conflict} (not ${this.getRestrictionDisplayName(restriction).toLowerCase()})`);
+      }
+    }
+
+    for (const allergy of allergies) {
+      const keywords = this.ALLERGY_KEYWORDS[allergy.toLowerCase()] || [allergy];
+      const conflict = this.findIngredient(dish, keywords);
+      if (conflict) {
+        risks.push(`${conflict} (${allergy} allergy)`);
+      }
+    }
+
+    return { dish, safe: risks.length === 0, risks };
+  }
+
+  private static findIngredient(dish: string, keywords: string[]): string | undefined {
+    return keywords.find(keyword => {
+      const escaped = keyword.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return new RegExp(`\\b${escaped}(s|es)?\\b`, 'i').test(dish);
+    });
+  }
+
+  static isDietaryRestriction(value: string): value is DietaryRestrictionType {
+    return Object.prototype.hasOwnProperty.call(this.RESTRICTION_KEYWORDS, value);
+  }
+
   static getRestrictionDisplayName(restriction: DietaryRestrictionType): string {
     const displayNames: Record<DietaryRestrictionType, string> = {
       'vegetarian': 'Vegetarian',
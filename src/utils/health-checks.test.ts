@@ -0,0 +1,53 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import axios from 'axios';
+import express from 'express';
+import type { Server } from 'http';
+import { HealthMonitor, registerHealthRoutes } from './health-checks.js';
+
+describe('registerHealthRoutes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    registerHealthRoutes(app, new HealthMonitor('test-agent', [
+      { name: 'catalogue', check: async () => { throw new Error('loading'); } },
+      { name: 'analytics', critical: false, check: async () => { throw new Error('down'); } },
+    ]));
+
+    await new Promise<void>(resolve => {
+      server = app.listen(0, () => resolve());
+    });
+    const address = server.address();
+    baseUrl = `http://localhost:${typeof address === 'object' && address ? address.port : 0}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const get = (path: string) => axios.get(`${baseUrl}${path}`, { validateStatus: () => true });
+
+  it('reports a failed critical dependency as not ready', async () => {
+    const response = await get('/health/ready');
+
+    expect(response.status).toBe(503);
+    expect(response.data).toEqual(expect.objectContaining({ status: 'not_ready', service: 'test-agent' }));
+    expect(response.data.dependencies.catalogue).toEqual(expect.objectContaining({ status: 'down', error: 'loading' }));
+    expect(response.data.dependencies.analytics).toEqual(expect.objectContaining({ status: 'down', critical: false }));
+  });
+
+  it('keeps answering /health with "healthy" for existing probes', async () => {
+    const response = await get('/health');
+
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual(expect.objectContaining({ status: 'healthy', service: 'test-agent' }));
+  });
+
+  it('answers liveness while not ready', async () => {
+    const response = await get('/health/live');
+
+    expect(response.status).toBe(200);
+    expect(response.data.status).toBe('alive');
+  });
+});
@@ -0,0 +1,207 @@
+import type { Express, Request, Response } from 'express';
+import type Redis from 'ioredis';
+import sqlite3 from 'sqlite3';
+import { createRedisClient, type RedisConnectionOptions } from './redis.js';
+import type { McpServerName, ToolProviderStatus } from './tool-providers.js';
+
+export type DependencyStatus = 'up' | 'down';
+
+export interface DependencyHealth {
+  status: DependencyStatus;
+  critical: boolean;
+  latencyMs: number;
+  checkedAt: string;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface DependencyCheck {
+  name: string;
+  // Throws when the dependency is unusable; may return details for the report
+  check(): Promise<Record<string, unknown> | void>;
+  // Non-critical failures are reported but don't make the instance unready
+  critical?: boolean;
+  timeoutMs?: number;
+  // Reuse a successful result this long, for checks that cost an API call
+  cacheMs?: number;
+  close?(): Promise<void>;
+}
+
+export interface ReadinessReport {
+  status: 'ready' | 'not_ready';
+  service: string;
+  timestamp: string;
+  uptimeSeconds: number;
+  dependencies: Record<string, DependencyHealth>;
+}
+
+const DEFAULT_CHECK_TIMEOUT_MS = 3000;
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Runs the dependency checks behind /health/ready. Liveness only says the
+// process is serving requests; readiness says it can handle a conversation.
+export class HealthMonitor {
+  private service: string;
+  private checks: DependencyCheck[];
+  private cached: Map<string, { result: DependencyHealth; expiresAt: number }> = new Map();
+  private startedAt = Date.now();
+
+  constructor(service: string, checks: DependencyCheck[] = []) {
+    this.service = service;
+    this.checks = checks;
+  }
+
+  liveness() {
+    return {
+      status: 'alive',
+      service: this.service,
+      timestamp: new Date().toISOString(),
+      uptimeSeconds: this.uptimeSeconds(),
+    };
+  }
+
+  async readiness(): Promise<ReadinessReport> {
+    const results = await Promise.all(this.checks.map(check => this.run(check)));
+
+    const dependencies: Record<string, DependencyHealth> = {};
+    this.checks.forEach((check, index) => {
+      dependencies[check.name] = results[index];
+    });
+    const ready = results.every(result => result.status === 'up' || !result.critical);
+
+    return {
+      status: ready ? 'ready' : 'not_ready',
+      service: this.service,
+      timestamp: new Date().toISOString(),
+      uptimeSeconds: this.uptimeSeconds(),
+      dependencies,
+    };
+  }
+
+  async close(): Promise<void> {
+    await Promise.allSettled(this.checks.map(check => check.close?.()));
+  }
+
+  private async run(check: DependencyCheck): Promise<DependencyHealth> {
+    const cached = this.cached.get(check.name);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.result;
+    }
+
+    const critical = check.critical ?? true;
+    const startedAt = Date.now();
+    try {
+      const details = await withTimeout(check.check(), check.timeoutMs || DEFAULT_CHECK_TIMEOUT_MS);
+      const result: DependencyHealth = {
+        status: 'up',
+        critical,
+        latencyMs: Date.now() - startedAt,
+        checkedAt: new Date().toISOString(),
+        ...(details ? { details } : {}),
+      };
+      if (check.cacheMs) {
+        this.cached.set(check.name, { result, expiresAt: Date.now() + check.cacheMs });
+      }
+      return result;
+    } catch (error) {
+      return {
+        status: 'down',
+        critical,
+        latencyMs: Date.now() - startedAt,
+        checkedAt: new Date().toISOString(),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private uptimeSeconds(): number {
+    return Math.round((Date.now() - this.startedAt) / 1000);
+  }
+}
+
+// GET /health/live, GET /health/ready (503 until ready) and GET /health,
+// which keeps its original `status: "healthy"` answer for existing probes and n8n
+export function registerHealthRoutes(app: Express, monitor: HealthMonitor): void {
+  app.get('/health/live', (req, res) => {
+    res.json(monitor.liveness());
+  });
+  app.get('/health/ready', async (req: Request, res: Response) => {
+    const report = await monitor.readiness();
+    res.status(report.status === 'ready' ? 200 : 503).json(report);
+  });
+  app.get('/health', (req, res) => {
+    res.json({ ...monitor.liveness(), status: 'healthy' });
+  });
+}
+
+export function mcpServerChecks(
+  getStatus: () => Partial<Record<McpServerName, ToolProviderStatus>>
+): DependencyCheck[] {
+  return Object.keys(getStatus()).map(name => ({
+    name: `mcp:${name}`,
+    check: async () => {
+      const status = getStatus()[name as McpServerName]!;
+      if (status.state !== 'ready') {
+        throw new Error(status.lastError ? `${status.state}: ${status.lastError}` : status.state);
+      }
+      return { state: status.state, restarts: status.restarts, since: status.since };
+    },
+  }));
+}
+
+// Opens the customer preferences database read-only, the way a fresh
+// server process would, and runs a trivial query
+export function sqliteCheck(databasePath: string): DependencyCheck {
+  return {
+    name: 'sqlite',
+    check: () => new Promise((resolve, reject) => {
+      const db = new sqlite3.Database(databasePath, sqlite3.OPEN_READONLY, (openError) => {
+        if (openError) {
+          reject(openError);
+          return;
+        }
+        db.get('SELECT 1', (queryError) => {
+          db.close();
+          if (queryError) {
+            reject(queryError);
+          } else {
+            resolve({ path: databasePath });
+          }
+        });
+      });
+    }),
+  };
+}
+
+export function redisCheck(options: RedisConnectionOptions): DependencyCheck {
+  let redis: Redis | undefined;
+  return {
+    name: 'redis',
+    check: async () => {
+      redis ??= createRedisClient(options, 'health check');
+      await redis.ping();
+    },
+    close: async () => {
+      await redis?.quit();
+    },
+  };
+}
+
+export function whatsappCredentialsCheck(
+  verifyCredentials: () => Promise<Record<string, unknown>>,
+  cacheMs = 5 * 60 * 1000
+): DependencyCheck {
+  return {
+    name: 'whatsapp',
+    check: verifyCredentials,
+    cacheMs,
+    timeoutMs: 5000,
+  };
+}
@@ -0,0 +1,20 @@
+import type { AxiosError } from 'axios';
+
+export const DEFAULT_HTTP_TIMEOUT_MS = 10000;
+
+// Failures that happen before a connection is made, so the request can't
+// have reached the server
+const CONNECT_FAILURE_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH'];
+
+export function requestNeverSent(error: AxiosError): boolean {
+  return !error.response && error.code !== undefined && CONNECT_FAILURE_CODES.includes(error.code);
+}
+
+// A send that timed out or lost its connection may still have been delivered,
+// so it must not be retried automatically
+export class DeliveryUnknownError extends Error {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message, options);
+    this.name = 'DeliveryUnknownError';
+  }
+}
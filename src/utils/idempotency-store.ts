@@ -0,0 +1,130 @@
+import type Redis from 'ioredis';
+import { createRedisClient } from './redis.js';
+
+export type IdempotencyClaim =
+  | { state: 'claimed' }
+  | { state: 'in-flight' }
+  | { state: 'completed'; result: unknown };
+
+// Remembers the outcome of non-idempotent calls (bookings) by a caller-chosen
+// key, so a retried or concurrently duplicated call doesn't run twice
+export interface IdempotencyStore {
+  // Claims the key for the caller, unless another call holds it or has finished
+  claim(key: string): Promise<IdempotencyClaim>;
+  complete(key: string, result: unknown): Promise<void>;
+  // Gives up a claim so the call can be tried again
+  release(key: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface IdempotencyStoreOptions {
+  redisUrl?: string;
+  redisPassword?: string;
+  redisDb?: number;
+  resultTtlSeconds?: number;
+  claimTtlSeconds?: number;
+  keyPrefix?: string;
+}
+
+// Results are kept as long as WhatsApp may redeliver the triggering message;
+// a claim outlives any single call, so a crashed holder eventually lets go
+const DEFAULT_RESULT_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_CLAIM_TTL_SECONDS = 5 * 60;
+
+type StoredEntry = { state: 'in-flight' } | { state: 'completed'; result: unknown };
+
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private entries: Map<string, { entry: StoredEntry; expiresAt: number }> = new Map();
+  private resultTtlMs: number;
+  private claimTtlMs: number;
+
+  constructor(options: Pick<IdempotencyStoreOptions, 'resultTtlSeconds' | 'claimTtlSeconds'> = {}) {
+    this.resultTtlMs = (options.resultTtlSeconds || DEFAULT_RESULT_TTL_SECONDS) * 1000;
+    this.claimTtlMs = (options.claimTtlSeconds || DEFAULT_CLAIM_TTL_SECONDS) * 1000;
+  }
+
+  async claim(key: string): Promise<IdempotencyClaim> {
+    const now = Date.now();
+    const existing = this.entries.get(key);
+    if (existing && existing.expiresAt > now) {
+      return existing.entry;
+    }
+
+    this.entries.set(key, { entry: { state: 'in-flight' }, expiresAt: now + this.claimTtlMs });
+    return { state: 'claimed' };
+  }
+
+  async complete(key: string, result: unknown): Promise<void> {
+    this.evictExpired(Date.now());
+    this.entries.set(key, { entry: { state: 'completed', result }, expiresAt: Date.now() + this.resultTtlMs });
+  }
+
+  async release(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+  }
+
+  private evictExpired(now: number): void {
+    for (const [key, { expiresAt }] of this.entries) {
+      if (expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+// Shared across instances, so a duplicate handled elsewhere is caught too
+export class RedisIdempotencyStore implements IdempotencyStore {
+  private redis: Redis;
+  private resultTtlSeconds: number;
+  private claimTtlSeconds: number;
+  private keyPrefix: string;
+
+  constructor(options: IdempotencyStoreOptions & { redisUrl: string }) {
+    this.redis = createRedisClient(options, 'idempotency store');
+    this.resultTtlSeconds = options.resultTtlSeconds || DEFAULT_RESULT_TTL_SECONDS;
+    this.claimTtlSeconds = options.claimTtlSeconds || DEFAULT_CLAIM_TTL_SECONDS;
+    this.keyPrefix = options.keyPrefix || 'concierge:idempotency:';
+  }
+
+  async claim(key: string): Promise<IdempotencyClaim> {
+    const redisKey = `${this.keyPrefix}${key}`;
+    // SET NX is atomic, so only one of two concurrent duplicates gets the claim
+    const marker = JSON.stringify({ state: 'in-flight' } satisfies StoredEntry);
+    if (await this.redis.set(redisKey, marker, 'EX', this.claimTtlSeconds, 'NX') === 'OK') {
+      return { state: 'claimed' };
+    }
+
+    const stored = await this.redis.get(redisKey);
+    if (!stored) {
+      // Expired between the two calls; try once more
+      return (await this.redis.set(redisKey, marker, 'EX', this.claimTtlSeconds, 'NX')) === 'OK'
+        ? { state: 'claimed' }
+        : { state: 'in-flight' };
+    }
+    return JSON.parse(stored) as StoredEntry;
+  }
+
+  async complete(key: string, result: unknown): Promise<void> {
+    const entry: StoredEntry = { state: 'completed', result };
+    await this.redis.set(`${this.keyPrefix}${key}`, JSON.stringify(entry), 'EX', this.resultTtlSeconds);
+  }
+
+  async release(key: string): Promise<void> {
+    await this.redis.del(`${this.keyPrefix}${key}`);
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
+
+export function createIdempotencyStore(options: IdempotencyStoreOptions = {}): IdempotencyStore {
+  if (options.redisUrl) {
+    return new RedisIdempotencyStore({ ...options, redisUrl: options.redisUrl });
+  }
+  return new InMemoryIdempotencyStore(options);
+}
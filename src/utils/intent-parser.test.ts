@@ -0,0 +1,259 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import express from 'express';
+import type { Server } from 'http';
+import { LLMIntentParser, RegexIntentParser, createIntentParser } from './intent-parser.js';
+import { DateTimeResolver } from './date-time-resolver.js';
+import { configureLogger } from './logger.js';
+
+// Thursday, 11:00 in New York
+const NOW = new Date('2026-03-12T15:00:00Z');
+
+interface StubReply {
+  status?: number;
+  content: string;
+}
+
+// Answers the OpenAI and Anthropic endpoints with whatever the test queues up,
+// and keeps the requests it got
+class StubLLMServer {
+  readonly requests: Array<{ path: string; headers: Record<string, unknown>; body: Record<string, unknown> }> = [];
+  private replies: StubReply[] = [];
+  private server?: Server;
+
+  reply(content: unknown, status = 200): void {
+    this.replies.push({ status, content: typeof content === 'string' ? content : JSON.stringify(content) });
+  }
+
+  reset(): void {
+    this.requests.length = 0;
+    this.replies = [];
+  }
+
+  async listen(): Promise<string> {
+    const app = express();
+    app.use(express.json());
+    app.post(['/chat/completions', '/v1/messages'], (req, res) => {
+      this.requests.push({ path: req.path, headers: req.headers, body: req.body });
+      const reply = this.replies.shift() || { status: 500, content: '' };
+      if (reply.status !== 200) {
+        return res.status(reply.status!).json({ error: { message: 'Stubbed failure' } });
+      }
+      return res.json(req.path === '/v1/messages'
+        ? { content: [{ type: 'text', text: reply.content }] }
+        : { choices: [{ message: { role: 'assistant', content: reply.content } }] });
+    });
+
+    await new Promise<void>(resolve => {
+      this.server = app.listen(0, () => resolve());
+    });
+    const address = this.server!.address();
+    return `http://localhost:${typeof address === 'object' && address ? address.port : 0}`;
+  }
+
+  async close(): Promise<void> {
+    await new Promise(resolve => this.server?.close(resolve));
+  }
+}
+
+describe('LLMIntentParser', () => {
+  const stub = new StubLLMServer();
+  const dateTimeResolver = new DateTimeResolver('America/New_York', () => NOW);
+  let baseUrl: string;
+
+  const openAIParser = () => new LLMIntentParser({ provider: 'openai', apiKey: 'sk-test', baseUrl, dateTimeResolver });
+
+  beforeAll(async () => {
+    configureLogger({ level: 'error' });
+    baseUrl = await stub.listen();
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.reset();
+  });
+
+  it('returns the intent and slots the model extracted', async () => {
+    stub.reply({
+      intent: 'reservation',
+      confidence: 0.9,
+      slots: { cuisine: 'italian', date: '2026-03-13', time: '19:30', partySize: 4, location: null },
+    });
+
+    const result = await openAIParser().parse('Table for 4 at an Italian place tomorrow at 7:30pm');
+
+    expect(result).toEqual({
+      intent: 'reservation',
+      slots: { cuisine: 'italian', date: '2026-03-13', time: '19:30', partySize: 4 },
+      confidence: 0.9,
+      source: 'llm',
+      clarification: undefined,
+    });
+  });
+
+  it('sends the message with the key and the current time in the prompt', async () => {
+    stub.reply({ intent: 'greeting', confidence: 1, slots: {} });
+
+    await openAIParser().parse('hello');
+
+    const [request] = stub.requests;
+    expect(request.path).toBe('/chat/completions');
+    expect(request.headers.authorization).toBe('Bearer sk-test');
+    expect(request.body.messages).toEqual([
+      { role: 'system', content: expect.stringContaining('Thursday 2026-03-12 11:00') },
+      { role: 'user', content: 'hello' },
+    ]);
+  });
+
+  it('asks for JSON mode from a model that supports it', async () => {
+    stub.reply({ intent: 'greeting', confidence: 1, slots: {} });
+
+    await openAIParser().parse('hello');
+
+    expect(stub.requests[0].body).toEqual(expect.objectContaining({
+      model: 'gpt-4o-mini',
+      temperature: 0,
+      response_format: { type: 'json_object' },
+    }));
+  });
+
+  it('sends a configured model instead of the default', async () => {
+    stub.reply({ intent: 'greeting', confidence: 1, slots: {} });
+
+    await new LLMIntentParser({ provider: 'openai', apiKey: 'sk-test', model: 'gpt-4.1', baseUrl, dateTimeResolver })
+      .parse('hello');
+
+    expect(stub.requests[0].body.model).toBe('gpt-4.1');
+  });
+
+  it('accepts JSON wrapped in a code fence', async () => {
+    stub.reply('```json\n{"intent": "help", "confidence": 0.8, "slots": {}}\n```');
+
+    const result = await openAIParser().parse('what can you do?');
+
+    expect(result.intent).toBe('help');
+    expect(result.source).toBe('llm');
+  });
+
+  it('drops a date in the past and asks again', async () => {
+    stub.reply({ intent: 'reservation', confidence: 0.9, slots: { date: '2026-03-10', time: '19:00' } });
+
+    const result = await openAIParser().parse('book for tuesday at 7pm');
+
+    expect(result.slots).toEqual({ time: '19:00' });
+    expect(result.clarification).toBe('That date has already passed. Which date would you like?');
+  });
+
+  it('drops a time that has passed on the date chosen earlier', async () => {
+    stub.reply({ intent: 'reservation', confidence: 0.9, slots: { time: '09:00' } });
+
+    const result = await openAIParser().parse('9am please', { date: '2026-03-12' });
+
+    expect(result.slots).toEqual({});
+    expect(result.clarification).toBe('That time has already passed. What time would you like?');
+  });
+
+  it('falls back to the regex parser when the model returns something unusable', async () => {
+    stub.reply({ intent: 'order_pizza', slots: {} });
+
+    const result = await openAIParser().parse('hi');
+
+    expect(result).toEqual(expect.objectContaining({ intent: 'greeting', source: 'regex' }));
+  });
+
+  it('falls back to the regex parser when the endpoint fails', async () => {
+    stub.reply('', 503);
+
+    const result = await openAIParser().parse('sushi near union square');
+
+    expect(result).toEqual(expect.objectContaining({ intent: 'search', source: 'regex' }));
+    expect(result.slots.cuisine).toBe('japanese');
+  });
+
+  it('talks to the Anthropic messages API', async () => {
+    stub.reply({ intent: 'search', confidence: 0.7, slots: { cuisine: 'thai', location: 'Brooklyn' } });
+
+    const parser = new LLMIntentParser({ provider: 'anthropic', apiKey: 'anthropic-test', baseUrl, dateTimeResolver });
+    const result = await parser.parse('thai food in brooklyn');
+
+    expect(stub.requests[0].path).toBe('/v1/messages');
+    expect(stub.requests[0].headers['x-api-key']).toBe('anthropic-test');
+    expect(result).toEqual(expect.objectContaining({
+      intent: 'search',
+      slots: { cuisine: 'thai', location: 'Brooklyn' },
+      source: 'llm',
+    }));
+  });
+});
+
+describe('RegexIntentParser', () => {
+  const parser = new RegexIntentParser(new DateTimeResolver('America/New_York', () => NOW));
+
+  it('recognises greetings and help', async () => {
+    expect((await parser.parse('Hello')).intent).toBe('greeting');
+    expect((await parser.parse('help')).intent).toBe('help');
+  });
+
+  it('takes a search with a place as the location', async () => {
+    const result = await parser.parse('italian food near times square');
+
+    expect(result.intent).toBe('search');
+    expect(result.slots).toEqual(expect.objectContaining({ cuisine: 'italian', location: 'italian food near times square' }));
+  });
+
+  it('fills the booking slots of a reservation request', async () => {
+    const result = await parser.parse('book a table for 4 tomorrow at 7pm');
+
+    expect(result.intent).toBe('reservation');
+    expect(result.slots).toEqual(expect.objectContaining({ date: '2026-03-13', time: '19:00', partySize: 4 }));
+  });
+
+  it.each([
+    ['a table tomorrow for 8pm', { time: '20:00' }],
+    ['a table tomorrow for 7:30', { time: '19:30' }],
+    ["dinner for 8 o'clock", { time: '20:00' }],
+    ['booking for 20h', {}],
+  ])('does not take the time in "%s" as the party size', async (text, slots) => {
+    const result = await parser.parse(text);
+
+    expect(result.slots.partySize).toBeUndefined();
+    expect(result.slots).toEqual(expect.objectContaining(slots));
+  });
+
+  it('still reads "for 2" before a time as the party size', async () => {
+    const result = await parser.parse('table for 2 at 8pm tomorrow');
+
+    expect(result.slots).toEqual(expect.objectContaining({ partySize: 2, time: '20:00' }));
+  });
+
+  it('treats stated dietary needs as preferences', async () => {
+    const result = await parser.parse("I'm vegetarian");
+
+    expect(result.intent).toBe('preferences');
+    expect(result.slots.dietaryRestrictions).toContain('vegetarian');
+  });
+
+  it('passes on the clarification for a time that has passed', async () => {
+    const result = await parser.parse('book a table today at 9am');
+
+    expect(result.slots.time).toBeUndefined();
+    expect(result.clarification).toBe('9:00 AM has already passed today. What time would you like?');
+  });
+});
+
+describe('createIntentParser', () => {
+  it('uses the LLM parser only with a usable key', () => {
+    expect(createIntentParser({ openai: { apiKey: 'sk-real', model: 'gpt-4' } })).toBeInstanceOf(LLMIntentParser);
+    expect(createIntentParser({ anthropic: { apiKey: 'anthropic-real' } })).toBeInstanceOf(LLMIntentParser);
+  });
+
+  it.each([
+    ['no key', {}],
+    ['a blank key', { openai: { apiKey: '  ', model: 'gpt-4' } }],
+    ['the .env.example placeholder', { openai: { apiKey: 'your_openai_api_key_here', model: 'gpt-4' } }],
+  ])('falls back to regexes with %s', (_case, config) => {
+    expect(createIntentParser(config)).toBeInstanceOf(RegexIntentParser);
+  });
+});
@@ -0,0 +1,352 @@
+import axios from 'axios';
+import { z } from 'zod';
+import type { DietaryRestrictionType } from '../types/index.js';
+import { DietaryRestrictionsHandler } from './dietary-restrictions.js';
+import { DateTimeResolver } from './date-time-resolver.js';
+import { isPlaceholder } from './config.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('intent-parser');
+
+export type IntentType = 'search' | 'reservation' | 'preferences' | 'help' | 'greeting' | 'unknown';
+
+export interface IntentSlots {
+  cuisine?: string;
+  location?: string;
+  date?: string;
+  time?: string;
+  partySize?: number;
+  dietaryRestrictions?: DietaryRestrictionType[];
+  allergies?: string[];
+  specialRequests?: string;
+}
+
+export interface ParsedIntent {
+  intent: IntentType;
+  slots: IntentSlots;
+  confidence: number;
+  source: 'regex' | 'llm';
+  // Set when a date or time was ambiguous or in the past; ask it back to the user
+  clarification?: string;
+}
+
+export interface IntentParseOptions {
+  timezone?: string;
+  // Date already chosen for the booking, for checking a time given on its own
+  date?: string;
+}
+
+export interface IntentParser {
+  parse(text: string, options?: IntentParseOptions): Promise<ParsedIntent>;
+}
+
+export interface LLMIntentParserConfig {
+  provider: 'openai' | 'anthropic';
+  apiKey: string;
+  model?: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+  fallback?: IntentParser;
+  dateTimeResolver?: DateTimeResolver;
+}
+
+// response_format (JSON mode) is only accepted by newer models; gpt-4 rejects
+// every request that sets it
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+const DIETARY_RESTRICTIONS: [DietaryRestrictionType, ...DietaryRestrictionType[]] = [
+  'vegetarian', 'vegan', 'gluten-free', 'dairy-free', 'nut-free', 'shellfish-free',
+  'halal', 'kosher', 'keto', 'paleo', 'low-carb', 'diabetic-friendly',
+];
+
+const ParsedIntentSchema = z.object({
+  intent: z.enum(['search', 'reservation', 'preferences', 'help', 'greeting', 'unknown']),
+  confidence: z.number().min(0).max(1).default(0.5),
+  slots: z.object({
+    cuisine: z.string().min(1).nullish(),
+    location: z.string().min(1).nullish(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullish(),
+    time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).nullish(),
+    partySize: z.number().int().min(1).max(20).nullish(),
+    dietaryRestrictions: z.array(z.enum(DIETARY_RESTRICTIONS)).nullish(),
+    allergies: z.array(z.string()).nullish(),
+    specialRequests: z.string().min(1).nullish(),
+  }).default({}),
+});
+
+// A preposition followed by a place ("near Times Square", "in Brooklyn"),
+// not by a time ("at 7pm", "in the evening") or a figure of speech
+const LOCATION_PHRASE = /\b(?:near|in|at|around|close to|by)\s+(?!(?:\d|today\b|tonight\b|tomorrow\b|noon\b|midnight\b|the (?:morning|afternoon|evening|mood)\b|(?:mon|tues|wednes|thurs|fri|satur|sun)day\b))[a-z]/i;
+
+const RESERVATION_PATTERNS = [
+  /\b(?:book|booking|reserve|reservation|table|tonight|tomorrow)\b/i,
+  /\bfor \d+\b/i,
+  /\d\s*(?:am|pm)\b/i,
+];
+
+const CUISINE_KEYWORDS: Record<string, string[]> = {
+  'italian': ['italian', 'pizza', 'pasta', 'italian food'],
+  'chinese': ['chinese', 'chinese food', 'asian'],
+  'mexican': ['mexican', 'tacos', 'burritos', 'mexican food'],
+  'japanese': ['japanese', 'sushi', 'ramen', 'japanese food'],
+  'indian': ['indian', 'curry', 'indian food'],
+  'thai': ['thai', 'pad thai', 'thai food'],
+  'french': ['french', 'french food'],
+  'american': ['american', 'burger', 'bbq', 'american food'],
+  'mediterranean': ['mediterranean', 'greek', 'mediterranean food'],
+};
+
+// Offline keyword/regex understanding; also the fallback when an LLM is unavailable
+export class RegexIntentParser implements IntentParser {
+  private dateTimeResolver: DateTimeResolver;
+
+  constructor(dateTimeResolver = new DateTimeResolver()) {
+    this.dateTimeResolver = dateTimeResolver;
+  }
+
+  async parse(text: string, options: IntentParseOptions = {}): Promise<ParsedIntent> {
+    const lowerText = text.toLowerCase().trim();
+    const { clarification, ...slots } = this.extractSlots(text, options.timezone, options.date);
+    const dietaryInfo = DietaryRestrictionsHandler.parseDietaryInformation(text);
+
+    if (dietaryInfo.restrictions.length > 0 || dietaryInfo.allergies.length > 0) {
+      slots.dietaryRestrictions = dietaryInfo.restrictions;
+      slots.allergies = dietaryInfo.allergies;
+    }
+
+    let intent: IntentType = 'unknown';
+    if (slots.dietaryRestrictions || slots.allergies) {
+      intent = 'preferences';
+    } else if (this.isReservationQuery(lowerText)) {
+      intent = 'reservation';
+    } else if (slots.location || this.isRestaurantSearchQuery(lowerText)) {
+      intent = 'search';
+    } else if (lowerText === 'help') {
+      intent = 'help';
+    } else if (['hi', 'hello', 'hey'].includes(lowerText)) {
+      intent = 'greeting';
+    }
+
+    return {
+      intent,
+      slots,
+      confidence: intent === 'unknown' ? 0 : 0.5,
+      source: 'regex',
+      clarification,
+    };
+  }
+
+  extractSlots(text: string, timezone?: string, chosenDate?: string): IntentSlots & { clarification?: string } {
+    const slots: IntentSlots & { clarification?: string } = {};
+
+    const cuisine = this.extractCuisine(text);
+    if (cuisine) slots.cuisine = cuisine;
+
+    // The whole query doubles as the location string for geocoding
+    if (this.isLocationQuery(text)) slots.location = text;
+
+    const dateTime = this.dateTimeResolver.resolve(text, timezone, chosenDate);
+    if (dateTime.date) slots.date = dateTime.date;
+    if (dateTime.time) slots.time = dateTime.time;
+    if (dateTime.clarification) slots.clarification = dateTime.clarification;
+
+    const partySize = this.extractPartySize(text);
+    if (partySize) slots.partySize = partySize;
+
+    const specialRequests = this.extractSpecialRequests(text);
+    if (specialRequests) slots.specialRequests = specialRequests;
+
+    return slots;
+  }
+
+  private isLocationQuery(text: string): boolean {
+    return LOCATION_PHRASE.test(text);
+  }
+
+  // Whole words only, so "ramen" or "spam" don't count as a time
+  private isReservationQuery(text: string): boolean {
+    return RESERVATION_PATTERNS.some(pattern => pattern.test(text));
+  }
+
+  private isRestaurantSearchQuery(text: string): boolean {
+    const searchKeywords = ['restaurant', 'food', 'eat', 'dining', 'cuisine', 'italian', 'chinese', 'mexican', 'find', 'looking for'];
+    return searchKeywords.some(keyword => text.toLowerCase().includes(keyword));
+  }
+
+  private extractCuisine(query: string): string | undefined {
+    const lowerQuery = query.toLowerCase();
+    for (const [cuisine, keywords] of Object.entries(CUISINE_KEYWORDS)) {
+      if (keywords.some(keyword => lowerQuery.includes(keyword))) {
+        return cuisine;
+      }
+    }
+    return undefined;
+  }
+
+  private extractPartySize(text: string): number | null {
+    const matches = text.match(/(\d+)\s*(people|person|ppl|guests?)/i);
+    if (matches) {
+      return parseInt(matches[1]);
+    }
+
+    // "for 4", but not a time such as "for 8pm" or "for 7:30"
+    const forMatches = text.match(/for\s+(\d+)\b(?!\s*(?::|am|pm|o'?clock|h\b))/i);
+    if (forMatches) {
+      return parseInt(forMatches[1]);
+    }
+
+    return null;
+  }
+
+  private extractSpecialRequests(text: string): string | null {
+    const specialKeywords = ['vegetarian', 'vegan', 'gluten', 'allergy', 'birthday', 'anniversary', 'celebration'];
+    const sentences = text.split(/[.!?]+/);
+
+    for (const sentence of sentences) {
+      if (specialKeywords.some(keyword => sentence.toLowerCase().includes(keyword))) {
+        return sentence.trim();
+      }
+    }
+
+    return null;
+  }
+}
+
+export class LLMIntentParser implements IntentParser {
+  private config: LLMIntentParserConfig;
+  private fallback: IntentParser;
+  private dateTimeResolver: DateTimeResolver;
+
+  constructor(config: LLMIntentParserConfig) {
+    this.config = config;
+    this.dateTimeResolver = config.dateTimeResolver || new DateTimeResolver();
+    this.fallback = config.fallback || new RegexIntentParser(this.dateTimeResolver);
+  }
+
+  async parse(text: string, options: IntentParseOptions = {}): Promise<ParsedIntent> {
+    try {
+      const now = this.dateTimeResolver.currentTime(options.timezone);
+      const systemPrompt = this.buildSystemPrompt(now.format('dddd YYYY-MM-DD HH:mm'));
+      const raw = this.config.provider === 'anthropic'
+        ? await this.completeWithAnthropic(systemPrompt, text)
+        : await this.completeWithOpenAI(systemPrompt, text);
+
+      const parsed = ParsedIntentSchema.parse(JSON.parse(this.stripCodeFence(raw)));
+
+      // Drop nulls so downstream code only sees slots the model actually filled
+      const slots = Object.fromEntries(
+        Object.entries(parsed.slots).filter(([, value]) => value !== null && value !== undefined)
+      ) as IntentSlots;
+
+      // The model resolves relative dates itself, but must not book the past
+      let clarification: string | undefined;
+      if (slots.date && slots.date < now.format('YYYY-MM-DD')) {
+        clarification = 'That date has already passed. Which date would you like?';
+        delete slots.date;
+      }
+      const day = slots.date ?? options.date;
+      if (slots.time && day && this.dateTimeResolver.hasPassed(day, slots.time, options.timezone)) {
+        clarification = 'That time has already passed. What time would you like?';
+        delete slots.time;
+      }
+
+      return {
+        intent: parsed.intent,
+        slots,
+        confidence: parsed.confidence,
+        source: 'llm',
+        clarification,
+      };
+    } catch (error) {
+      logger.warn('LLM intent parsing failed, falling back to regex parser', { error });
+      return this.fallback.parse(text, options);
+    }
+  }
+
+  private buildSystemPrompt(now: string): string {
+    return `You extract intent and slots from messages sent to a restaurant concierge on WhatsApp. It is currently ${now} in the user's timezone.
+
+Respond with a single JSON object and nothing else, shaped as:
+{"intent": "search" | "reservation" | "preferences" | "help" | "greeting" | "unknown",
+ "confidence": number between 0 and 1,
+ "slots": {"cuisine": string, "location": string, "date": "YYYY-MM-DD", "time": "HH:MM" (24h),
+           "partySize": integer 1-20, "dietaryRestrictions": [${DIETARY_RESTRICTIONS.map(r => `"${r}"`).join(', ')}],
+           "allergies": [string], "specialRequests": string}}
+
+Omit slots that are not mentioned. Resolve relative dates and times against the current time. Use "preferences" when the user states dietary needs or allergies about themselves, "reservation" when they want to book or give booking details, and "search" when they look for places to eat.`;
+  }
+
+  private async completeWithOpenAI(systemPrompt: string, text: string): Promise<string> {
+    const baseUrl = this.config.baseUrl || 'https://api.openai.com/v1';
+    const response = await axios.post(
+      `${baseUrl}/chat/completions`,
+      {
+        model: this.config.model || DEFAULT_OPENAI_MODEL,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: text },
+        ],
+      },
+      {
+        headers: {
+          'Authorization': `Bearer ${this.config.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        timeout: this.config.timeoutMs || 10000,
+      }
+    );
+
+    return response.data.choices[0].message.content;
+  }
+
+  private async completeWithAnthropic(systemPrompt: string, text: string): Promise<string> {
+    const baseUrl = this.config.baseUrl || 'https://api.anthropic.com';
+    const response = await axios.post(
+      `${baseUrl}/v1/messages`,
+      {
+        model: this.config.model || 'claude-3-5-haiku-latest',
+        max_tokens: 512,
+        temperature: 0,
+        system: systemPrompt,
+        messages: [{ role: 'user', content: text }],
+      },
+      {
+        headers: {
+          'x-api-key': this.config.apiKey,
+          'anthropic-version': '2023-06-01',
+          'Content-Type': 'application/json',
+        },
+        timeout: this.config.timeoutMs || 10000,
+      }
+    );
+
+    return response.data.content[0].text;
+  }
+
+  private stripCodeFence(text: string): string {
+    return text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  }
+}
+
+// The LLM parser needs a real key; a blank or placeholder one would fail every
+// call and only add latency before the regex fallback
+function usableKey(apiKey: string | undefined): boolean {
+  return !!apiKey?.trim() && !isPlaceholder(apiKey.trim());
+}
+
+export function createIntentParser(config: {
+  openai?: { apiKey: string; model?: string; baseUrl?: string };
+  anthropic?: { apiKey: string; model?: string; baseUrl?: string };
+  dateTimeResolver?: DateTimeResolver;
+}): IntentParser {
+  const { dateTimeResolver } = config;
+  if (config.openai && usableKey(config.openai.apiKey)) {
+    return new LLMIntentParser({ provider: 'openai', ...config.openai, dateTimeResolver });
+  }
+  if (config.anthropic && usableKey(config.anthropic.apiKey)) {
+    return new LLMIntentParser({ provider: 'anthropic', ...config.anthropic, dateTimeResolver });
+  }
+  return new RegexIntentParser(dateTimeResolver);
+}
@@ -0,0 +1,136 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import winston from 'winston';
+
+// Carried through everything done for one inbound message, so a request can
+// be followed across the agent, the queue and the MCP servers
+export interface LogContext {
+  correlationId?: string;
+  channel?: string;
+  sessionId?: string;
+}
+
+export interface LoggerOptions {
+  level?: string;
+  format?: 'json' | 'pretty';
+  // Rotated when it reaches maxFileSizeMb, keeping maxFiles files
+  filePath?: string;
+  maxFileSizeMb?: number;
+  maxFiles?: number;
+  // MCP servers speak JSON-RPC on stdout, so they log to stderr only
+  stderr?: boolean;
+}
+
+const DEFAULT_MAX_FILE_SIZE_MB = 20;
+const DEFAULT_MAX_FILES = 5;
+
+// Message content and customer details never reach the logs
+const REDACTED_KEYS = new Set([
+  'body',
+  'text',
+  'caption',
+  'transcript',
+  'specialRequests',
+  'customerName',
+  'customerEmail',
+]);
+const PHONE_NUMBER = /(?<![\w.-])\+?\d{10,15}(?![\w.-])/g;
+const MAX_REDACTION_DEPTH = 6;
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...context }, fn);
+}
+
+export function currentLogContext(): LogContext | undefined {
+  return logContext.getStore();
+}
+
+// Keeps the last four digits so a number can still be matched against a report
+export function redactPhoneNumbers(text: string): string {
+  return text.replace(PHONE_NUMBER, (match) => `***${match.slice(-4)}`);
+}
+
+function redactValue(key: string, value: unknown, depth: number): unknown {
+  if (REDACTED_KEYS.has(key) && value !== undefined && value !== null) {
+    return '[redacted]';
+  }
+  if (typeof value === 'string') {
+    return redactPhoneNumbers(value);
+  }
+  if (depth >= MAX_REDACTION_DEPTH || value === null || typeof value !== 'object') {
+    return value;
+  }
+  // Only the useful parts of errors; axios errors carry request headers
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactPhoneNumbers(value.message),
+      ...((value as { code?: unknown }).code !== undefined ? { code: (value as { code?: unknown }).code } : {}),
+      stack: value.stack && redactPhoneNumbers(value.stack),
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(key, item, depth + 1));
+  }
+
+  const redacted: Record<string, unknown> = {};
+  for (const [childKey, childValue] of Object.entries(value)) {
+    redacted[childKey] = redactValue(childKey, childValue, depth + 1);
+  }
+  return redacted;
+}
+
+const addContext = winston.format((info) => Object.assign(info, logContext.getStore()));
+
+const redact = winston.format((info) => {
+  for (const key of Object.keys(info)) {
+    if (key !== 'level' && key !== 'timestamp') {
+      info[key] = redactValue(key === 'message' ? '' : key, info[key], 0);
+    }
+  }
+  return info;
+});
+
+const pretty = winston.format.printf(({ timestamp, level, message, ...meta }) => {
+  const details = Object.keys(meta).length > 0 ? ` ${JSON.stringify(meta)}` : '';
+  return `${timestamp} ${level} ${message}${details}`;
+});
+
+function buildLoggerOptions(options: LoggerOptions): winston.LoggerOptions {
+  const levels = Object.keys(winston.config.npm.levels);
+  const transports: winston.transport[] = [
+    new winston.transports.Console({ stderrLevels: options.stderr ? levels : ['error'] }),
+  ];
+
+  if (options.filePath) {
+    transports.push(new winston.transports.File({
+      filename: options.filePath,
+      maxsize: (options.maxFileSizeMb || DEFAULT_MAX_FILE_SIZE_MB) * 1024 * 1024,
+      maxFiles: options.maxFiles || DEFAULT_MAX_FILES,
+      tailable: true,
+    }));
+  }
+
+  return {
+    level: options.level || 'info',
+    format: winston.format.combine(
+      addContext(),
+      redact(),
+      winston.format.timestamp(),
+      options.format === 'pretty' ? pretty : winston.format.json()
+    ),
+    transports,
+  };
+}
+
+export const logger = winston.createLogger(buildLoggerOptions({}));
+
+// Entry points call this once their environment is loaded
+export function configureLogger(options: LoggerOptions = {}): void {
+  logger.configure(buildLoggerOptions(options));
+}
+
+export function createLogger(module: string): winston.Logger {
+  return logger.child({ module });
+}
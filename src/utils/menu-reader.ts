@@ -0,0 +1,123 @@
+import axios from 'axios';
+import crypto from 'crypto';
+
+export interface MenuTextExtractor {
+  // Returns the readable text in a photo of a menu or dish, one item per line
+  extractText(image: Buffer, mimeType: string): Promise<string>;
+}
+
+export interface OpenAIVisionConfig {
+  apiKey: string;
+  model?: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+}
+
+export class OpenAIVisionTextExtractor implements MenuTextExtractor {
+  private config: OpenAIVisionConfig;
+
+  constructor(config: OpenAIVisionConfig) {
+    this.config = config;
+  }
+
+  async extractText(image: Buffer, mimeType: string): Promise<string> {
+    const response = await axios.post(
+      `${this.config.baseUrl || 'https://api.openai.com/v1'}/chat/completions`,
+      {
+        model: this.config.model || 'gpt-4o-mini',
+        temperature: 0,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: 'This is a photo of a restaurant menu or a dish. List the name of every dish you can see, one per line, with its description after a " - " if there is one. If it is a photo of food rather than a menu, name the dish. Output only the list.',
+              },
+              {
+                type: 'image_url',
+                image_url: { url: `data:${mimeType};base64,${image.toString('base64')}` },
+              },
+            ],
+          },
+        ],
+      },
+      {
+        headers: {
+          'Authorization': `Bearer ${this.config.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        timeout: this.config.timeoutMs || 30000,
+      }
+    );
+
+    return response.data.choices[0].message.content || '';
+  }
+}
+
+// Offline provider for local runs and scripted conversations: text is looked
+// up by the SHA-256 of the image, with a fixed fallback
+export class StubMenuTextExtractor implements MenuTextExtractor {
+  private texts: Map<string, string>;
+  private defaultText: string;
+
+  constructor(texts: Record<string, string> = {}, defaultText = '') {
+    this.texts = new Map(Object.entries(texts));
+    this.defaultText = defaultText;
+  }
+
+  async extractText(image: Buffer): Promise<string> {
+    const digest = crypto.createHash('sha256').update(image).digest('hex');
+    return this.texts.get(digest) ?? this.defaultText;
+  }
+}
+
+const SECTION_HEADINGS = [
+  'menu', 'starters', 'appetizers', 'antipasti', 'mains', 'main courses', 'entrees', 'entrées',
+  'sides', 'desserts', 'drinks', 'beverages', 'salads', 'soups', 'specials', 'lunch', 'dinner',
+];
+
+// Turns OCR output into dish names: drops prices, section headings and
+// fragments too short or too long to be a dish
+export function extractDishNames(text: string): string[] {
+  const dishes: string[] = [];
+  const seen = new Set<string>();
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine
+      .replace(/^[\s\-*•·\d.)]+/, '')
+      .replace(/[$€£]?\s*\d+(?:[.,]\d{1,2})?\s*[$€£]?\s*$/, '')
+      .replace(/[.\s]+$/, '')
+      .trim();
+
+    if (line.length < 3 || line.length > 120 || !/[a-z]/i.test(line)) {
+      continue;
+    }
+    if (SECTION_HEADINGS.includes(line.toLowerCase().replace(/:$/, ''))) {
+      continue;
+    }
+
+    const key = line.toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      dishes.push(line);
+    }
+  }
+
+  return dishes;
+}
+
+export function createMenuTextExtractor(config: {
+  provider?: string;
+  openai?: { apiKey: string; baseUrl?: string };
+  model?: string;
+  stubText?: string;
+}): MenuTextExtractor | undefined {
+  if (config.provider === 'stub') {
+    return new StubMenuTextExtractor({}, config.stubText);
+  }
+  if (config.openai && (!config.provider || config.provider === 'openai')) {
+    return new OpenAIVisionTextExtractor({ ...config.openai, model: config.model });
+  }
+  return undefined;
+}
@@ -0,0 +1,93 @@
+import type Redis from 'ioredis';
+import { createRedisClient } from './redis.js';
+
+export interface MessageDeduplicator {
+  // Returns true the first time an ID is seen within the TTL, false for repeats
+  markIfNew(messageId: string): Promise<boolean>;
+  // Forgets an ID so a redelivery of it is processed again
+  release(messageId: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface MessageDeduplicatorOptions {
+  redisUrl?: string;
+  redisPassword?: string;
+  redisDb?: number;
+  ttlSeconds?: number;
+  keyPrefix?: string;
+}
+
+// WhatsApp retries undelivered webhooks for up to a day
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+export class InMemoryMessageDeduplicator implements MessageDeduplicator {
+  private seen: Map<string, number> = new Map();
+  private ttlMs: number;
+
+  constructor(ttlSeconds = DEFAULT_TTL_SECONDS) {
+    this.ttlMs = ttlSeconds * 1000;
+  }
+
+  async markIfNew(messageId: string): Promise<boolean> {
+    const now = Date.now();
+    this.evictExpired(now);
+
+    if (this.seen.has(messageId)) {
+      return false;
+    }
+
+    this.seen.set(messageId, now + this.ttlMs);
+    return true;
+  }
+
+  async release(messageId: string): Promise<void> {
+    this.seen.delete(messageId);
+  }
+
+  async close(): Promise<void> {
+    this.seen.clear();
+  }
+
+  // Entries are inserted in expiry order, so stop at the first live one
+  private evictExpired(now: number): void {
+    for (const [messageId, expiresAt] of this.seen) {
+      if (expiresAt > now) {
+        break;
+      }
+      this.seen.delete(messageId);
+    }
+  }
+}
+
+export class RedisMessageDeduplicator implements MessageDeduplicator {
+  private redis: Redis;
+  private ttlSeconds: number;
+  private keyPrefix: string;
+
+  constructor(options: MessageDeduplicatorOptions & { redisUrl: string }) {
+    this.redis = createRedisClient(options, 'message deduplicator');
+    this.ttlSeconds = options.ttlSeconds || DEFAULT_TTL_SECONDS;
+    this.keyPrefix = options.keyPrefix || 'concierge:message:';
+  }
+
+  async markIfNew(messageId: string): Promise<boolean> {
+    // SET NX is atomic, so concurrent instances can't both claim the message
+    const result = await this.redis.set(`${this.keyPrefix}${messageId}`, '1', 'EX', this.ttlSeconds, 'NX');
+    return result === 'OK';
+  }
+
+  async release(messageId: string): Promise<void> {
+    await this.redis.del(`${this.keyPrefix}${messageId}`);
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
+
+export function createMessageDeduplicator(options: MessageDeduplicatorOptions = {}): MessageDeduplicator {
+  if (options.redisUrl) {
+    return new RedisMessageDeduplicator({ ...options, redisUrl: options.redisUrl });
+  }
+  return new InMemoryMessageDeduplicator(options.ttlSeconds);
+}
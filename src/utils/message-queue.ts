@@ -0,0 +1,441 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import os from 'os';
+import type Redis from 'ioredis';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { WhatsAppMessage } from '../types/index.js';
+import { WhatsAppAPIError } from '../integrations/whatsapp-errors.js';
+import { DeliveryUnknownError } from './http.js';
+import { createRedisClient } from './redis.js';
+import { createLogger, withLogContext } from './logger.js';
+
+const logger = createLogger('message-queue');
+
+export interface QueuedMessage {
+  id: string;
+  message: WhatsAppMessage;
+  attempts: number;
+  enqueuedAt: Date;
+  lastError?: string;
+  failedAt?: Date;
+}
+
+// Where jobs live while waiting to be processed, and where they end up when
+// they can't be processed at all. A worker holds a lease on each pending job
+// it has accepted and keeps renewing it; only jobs whose lease ran out, i.e.
+// whose worker died, are handed to another worker.
+export interface MessageJobStore {
+  // Saves the job and takes (or extends) this worker's lease on it
+  savePending(job: QueuedMessage): Promise<void>;
+  removePending(jobId: string): Promise<void>;
+  // Leases and returns pending jobs no live worker holds
+  claimAbandoned(): Promise<QueuedMessage[]>;
+  renewLeases(jobIds: string[]): Promise<void>;
+  addDeadLetter(job: QueuedMessage): Promise<void>;
+  removeDeadLetter(jobId: string): Promise<QueuedMessage | null>;
+  listDeadLetters(): Promise<QueuedMessage[]>;
+  close(): Promise<void>;
+}
+
+export interface MessageJobStoreOptions {
+  redisUrl?: string;
+  redisPassword?: string;
+  redisDb?: number;
+  keyPrefix?: string;
+  // Identifies this worker's leases; defaults to host, pid and a random suffix
+  ownerId?: string;
+  leaseMs?: number;
+}
+
+export interface MessageQueueOptions {
+  store?: MessageJobStore;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // How often to renew leases and look for abandoned jobs; well under the store's lease
+  heartbeatMs?: number;
+  // Called once a message is given up on, e.g. to apologise to the user
+  onDeadLetter?: (job: QueuedMessage, error: unknown) => Promise<void>;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+const DEFAULT_LEASE_MS = 30000;
+
+// Failures worth retrying: timeouts, dropped connections and 5xx/429 responses,
+// unless a message may already have gone out. Anything else is treated as a poison message and dead-lettered right away.
+export function isTransientError(error: unknown): boolean {
+  if (!error) {
+    return false;
+  }
+
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return true;
+  }
+
+  if (error instanceof McpError && error.code === ErrorCode.ConnectionClosed) {
+    return true;
+  }
+
+  // Replaying the job could send the same message twice
+  if (error instanceof DeliveryUnknownError) {
+    return false;
+  }
+
+  // Retryable WhatsApp failures that outlasted the client's own retries
+  if (error instanceof WhatsAppAPIError) {
+    return error.retryable;
+  }
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    return status === undefined || status >= 500 || status === 429;
+  }
+
+  // Integrations wrap the underlying error, so look through to the cause
+  return error instanceof Error && isTransientError(error.cause);
+}
+
+function serializeJob(job: QueuedMessage): string {
+  return JSON.stringify(job);
+}
+
+function deserializeJob(raw: string): QueuedMessage {
+  const job = JSON.parse(raw);
+  return {
+    ...job,
+    enqueuedAt: new Date(job.enqueuedAt),
+    failedAt: job.failedAt ? new Date(job.failedAt) : undefined,
+  };
+}
+
+export class InMemoryMessageJobStore implements MessageJobStore {
+  private pending: Map<string, QueuedMessage> = new Map();
+  private deadLetters: Map<string, QueuedMessage> = new Map();
+
+  async savePending(job: QueuedMessage): Promise<void> {
+    this.pending.set(job.id, job);
+  }
+
+  async removePending(jobId: string): Promise<void> {
+    this.pending.delete(jobId);
+  }
+
+  // Only this process uses the map, so every pending job is its own; the
+  // queue skips the ones it is already working on
+  async claimAbandoned(): Promise<QueuedMessage[]> {
+    return Array.from(this.pending.values());
+  }
+
+  async renewLeases(): Promise<void> {}
+
+  async addDeadLetter(job: QueuedMessage): Promise<void> {
+    this.deadLetters.set(job.id, job);
+  }
+
+  async removeDeadLetter(jobId: string): Promise<QueuedMessage | null> {
+    const job = this.deadLetters.get(jobId);
+    this.deadLetters.delete(jobId);
+    return job || null;
+  }
+
+  async listDeadLetters(): Promise<QueuedMessage[]> {
+    return Array.from(this.deadLetters.values());
+  }
+
+  async close(): Promise<void> {
+    this.pending.clear();
+    this.deadLetters.clear();
+  }
+}
+
+// Extends each lease still held by ARGV[1]
+const RENEW_LEASES_SCRIPT = `
+for _, key in ipairs(KEYS) do
+  if redis.call('GET', key) == ARGV[1] then
+    redis.call('PEXPIRE', key, ARGV[2])
+  end
+end
+return 0
+`;
+
+const RELEASE_LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+// Keeps pending jobs and dead letters in Redis hashes so a restart doesn't
+// lose accepted messages. Leases are plain keys holding the owner id, so
+// several instances can share one key prefix.
+export class RedisMessageJobStore implements MessageJobStore {
+  private redis: Redis;
+  private pendingKey: string;
+  private deadLetterKey: string;
+  private leasePrefix: string;
+  private ownerId: string;
+  private leaseMs: number;
+
+  constructor(options: MessageJobStoreOptions & { redisUrl: string }) {
+    this.redis = createRedisClient(options, 'message queue');
+    const keyPrefix = options.keyPrefix || 'concierge:queue:';
+    this.pendingKey = `${keyPrefix}pending`;
+    this.deadLetterKey = `${keyPrefix}dead-letters`;
+    this.leasePrefix = `${keyPrefix}lease:`;
+    this.ownerId = options.ownerId || `${os.hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
+    this.leaseMs = options.leaseMs || DEFAULT_LEASE_MS;
+  }
+
+  async savePending(job: QueuedMessage): Promise<void> {
+    await this.redis.multi()
+      .set(this.leaseKey(job.id), this.ownerId, 'PX', this.leaseMs)
+      .hset(this.pendingKey, job.id, serializeJob(job))
+      .exec();
+  }
+
+  async removePending(jobId: string): Promise<void> {
+    await this.redis.hdel(this.pendingKey, jobId);
+    await this.redis.eval(RELEASE_LEASE_SCRIPT, 1, this.leaseKey(jobId), this.ownerId);
+  }
+
+  async claimAbandoned(): Promise<QueuedMessage[]> {
+    const jobs = await this.redis.hgetall(this.pendingKey);
+    const claimed: QueuedMessage[] = [];
+
+    for (const [jobId, raw] of Object.entries(jobs)) {
+      // NX fails while another worker's lease is live
+      if (await this.redis.set(this.leaseKey(jobId), this.ownerId, 'PX', this.leaseMs, 'NX') === 'OK') {
+        claimed.push(deserializeJob(raw));
+      }
+    }
+    return claimed;
+  }
+
+  async renewLeases(jobIds: string[]): Promise<void> {
+    if (jobIds.length > 0) {
+      await this.redis.eval(RENEW_LEASES_SCRIPT, jobIds.length, ...jobIds.map(id => this.leaseKey(id)), this.ownerId, this.leaseMs);
+    }
+  }
+
+  async addDeadLetter(job: QueuedMessage): Promise<void> {
+    await this.redis.hset(this.deadLetterKey, job.id, serializeJob(job));
+  }
+
+  async removeDeadLetter(jobId: string): Promise<QueuedMessage | null> {
+    const raw = await this.redis.hget(this.deadLetterKey, jobId);
+    if (!raw) {
+      return null;
+    }
+    await this.redis.hdel(this.deadLetterKey, jobId);
+    return deserializeJob(raw);
+  }
+
+  async listDeadLetters(): Promise<QueuedMessage[]> {
+    const jobs = await this.redis.hvals(this.deadLetterKey);
+    return jobs.map(deserializeJob);
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+
+  private leaseKey(jobId: string): string {
+    return `${this.leasePrefix}${jobId}`;
+  }
+}
+
+export function createMessageJobStore(options: MessageJobStoreOptions = {}): MessageJobStore {
+  if (options.redisUrl) {
+    return new RedisMessageJobStore({ ...options, redisUrl: options.redisUrl });
+  }
+  return new InMemoryMessageJobStore();
+}
+
+// Processes inbound messages one at a time per sender, in the order they were
+// enqueued, while different senders proceed concurrently
+export class MessageQueue {
+  private handler: (message: WhatsAppMessage) => Promise<void>;
+  private store: MessageJobStore;
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private onDeadLetter?: (job: QueuedMessage, error: unknown) => Promise<void>;
+  private chains: Map<string, Promise<void>> = new Map();
+  // Jobs this worker has accepted and not yet finished
+  private held: Set<string> = new Set();
+  private heartbeat: NodeJS.Timeout;
+  private recovering = false;
+  private closed = false;
+
+  constructor(handler: (message: WhatsAppMessage) => Promise<void>, options: MessageQueueOptions = {}) {
+    this.handler = handler;
+    this.store = options.store || new InMemoryMessageJobStore();
+    this.maxAttempts = options.maxAttempts || DEFAULT_MAX_ATTEMPTS;
+    this.baseDelayMs = options.baseDelayMs || DEFAULT_BASE_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs || DEFAULT_MAX_DELAY_MS;
+    this.onDeadLetter = options.onDeadLetter;
+    this.heartbeat = setInterval(() => this.beat(), options.heartbeatMs || DEFAULT_LEASE_MS / 3);
+    this.heartbeat.unref();
+  }
+
+  // Resolves once the job is persisted, not once it has been processed
+  async enqueue(message: WhatsAppMessage): Promise<QueuedMessage> {
+    const job: QueuedMessage = {
+      id: crypto.randomUUID(),
+      message,
+      attempts: 0,
+      enqueuedAt: new Date(),
+    };
+
+    await this.store.savePending(job);
+    this.schedule(job);
+    return job;
+  }
+
+  // Picks up jobs a worker accepted but never finished, whether a previous run
+  // of this process or another instance that died; from then on the heartbeat
+  // keeps doing so
+  async recover(): Promise<number> {
+    this.recovering = true;
+    const jobs = (await this.store.claimAbandoned()).filter(job => !this.held.has(job.id));
+    jobs.sort((a, b) => a.enqueuedAt.getTime() - b.enqueuedAt.getTime());
+    for (const job of jobs) {
+      this.schedule(job);
+    }
+    return jobs.length;
+  }
+
+  async listDeadLetters(): Promise<QueuedMessage[]> {
+    const jobs = await this.store.listDeadLetters();
+    return jobs.sort((a, b) => (b.failedAt?.getTime() || 0) - (a.failedAt?.getTime() || 0));
+  }
+
+  async retryDeadLetter(jobId: string): Promise<QueuedMessage | null> {
+    const job = await this.store.removeDeadLetter(jobId);
+    if (!job) {
+      return null;
+    }
+
+    const retried: QueuedMessage = { ...job, attempts: 0, failedAt: undefined };
+    await this.store.savePending(retried);
+    this.schedule(retried);
+    return retried;
+  }
+
+  // Waits for everything currently queued to finish
+  async drain(): Promise<void> {
+    while (this.chains.size > 0) {
+      await Promise.all(this.chains.values());
+    }
+  }
+
+  // Pending jobs stay in the store and are picked up again by recover()
+  async close(): Promise<void> {
+    this.closed = true;
+    clearInterval(this.heartbeat);
+    await this.store.close();
+  }
+
+  private async beat(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+
+    try {
+      await this.store.renewLeases(Array.from(this.held));
+      if (this.recovering) {
+        const count = await this.recover();
+        if (count > 0) {
+          logger.info('Took over messages from a stopped worker', { count });
+        }
+      }
+    } catch (error) {
+      logger.error('Message queue heartbeat failed', { error });
+    }
+  }
+
+  private schedule(job: QueuedMessage): void {
+    const sender = job.message.from;
+    const previous = this.chains.get(sender) || Promise.resolve();
+    this.held.add(job.id);
+    const current = previous.then(() => this.process(job)).finally(() => this.held.delete(job.id));
+
+    this.chains.set(sender, current);
+    current.finally(() => {
+      if (this.chains.get(sender) === current) {
+        this.chains.delete(sender);
+      }
+    });
+  }
+
+  private async process(job: QueuedMessage): Promise<void> {
+    return withLogContext({ correlationId: job.message.id }, () => this.processWithRetries(job));
+  }
+
+  private async processWithRetries(job: QueuedMessage): Promise<void> {
+    while (!this.closed) {
+      try {
+        job.attempts++;
+        await this.handler(job.message);
+      } catch (error) {
+        job.lastError = error instanceof Error ? error.message : String(error);
+
+        if (this.closed) {
+          return;
+        }
+
+        if (isTransientError(error) && job.attempts < this.maxAttempts) {
+          const delay = this.retryDelay(job.attempts);
+          logger.warn('Message failed, retrying', {
+            from: job.message.from,
+            attempt: job.attempts,
+            maxAttempts: this.maxAttempts,
+            delayMs: delay,
+            error: job.lastError,
+          });
+          await this.store.savePending(job).catch(storeError => {
+            logger.error('Failed to persist message retry state', { error: storeError });
+          });
+          await new Promise(resolve => setTimeout(resolve, delay));
+          continue;
+        }
+
+        await this.deadLetter(job, error);
+        return;
+      }
+
+      try {
+        await this.store.removePending(job.id);
+      } catch (error) {
+        logger.error('Failed to remove processed message from the queue', { error });
+      }
+      return;
+    }
+  }
+
+  private async deadLetter(job: QueuedMessage, error: unknown): Promise<void> {
+    logger.error('Moving message to dead letters', { from: job.message.from, attempts: job.attempts, error: job.lastError });
+    job.failedAt = new Date();
+
+    try {
+      await this.store.addDeadLetter(job);
+      await this.store.removePending(job.id);
+    } catch (storeError) {
+      logger.error('Failed to record dead-lettered message', { error: storeError });
+    }
+
+    if (this.onDeadLetter) {
+      try {
+        await this.onDeadLetter(job, error);
+      } catch (callbackError) {
+        logger.error('Dead letter handler failed', { error: callbackError });
+      }
+    }
+  }
+
+  private retryDelay(attempt: number): number {
+    return Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (attempt - 1));
+  }
+}
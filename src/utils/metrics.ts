@@ -0,0 +1,103 @@
+import type { Express } from 'express';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('metrics');
+
+export type BookingFunnelStep = 'details_viewed' | 'booking_started' | 'confirmed';
+
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+let countActiveSessions: (() => Promise<number>) | undefined;
+
+// Everything served on /metrics. Labels stay low-cardinality: no user ids,
+// message ids or message text.
+export const metrics = {
+  inboundMessages: new Counter({
+    name: 'concierge_inbound_messages_total',
+    help: 'Inbound messages accepted for handling, by channel and message type',
+    labelNames: ['channel', 'type'] as const,
+    registers: [metricsRegistry],
+  }),
+  intents: new Counter({
+    name: 'concierge_intents_total',
+    help: 'Intents detected in free-text messages',
+    labelNames: ['intent'] as const,
+    registers: [metricsRegistry],
+  }),
+  mcpToolCallDuration: new Histogram({
+    name: 'concierge_mcp_tool_call_duration_seconds',
+    help: 'MCP tool call latency, failed calls included',
+    labelNames: ['server', 'tool'] as const,
+    buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 15],
+    registers: [metricsRegistry],
+  }),
+  mcpToolCallErrors: new Counter({
+    name: 'concierge_mcp_tool_call_errors_total',
+    help: 'MCP tool calls that threw or returned an error result',
+    labelNames: ['server', 'tool'] as const,
+    registers: [metricsRegistry],
+  }),
+  whatsappSends: new Counter({
+    name: 'concierge_whatsapp_sends_total',
+    help: 'WhatsApp Cloud API sends by final outcome, after retries',
+    labelNames: ['outcome'] as const,
+    registers: [metricsRegistry],
+  }),
+  rateLimited: new Counter({
+    name: 'concierge_rate_limited_total',
+    help: 'Requests and messages rejected by a rate limit',
+    labelNames: ['limit'] as const,
+    registers: [metricsRegistry],
+  }),
+  bookingFunnel: new Counter({
+    name: 'concierge_booking_funnel_total',
+    help: 'Booking funnel steps reached: details_viewed, booking_started, confirmed',
+    labelNames: ['step'] as const,
+    registers: [metricsRegistry],
+  }),
+  activeSessions: new Gauge({
+    name: 'concierge_active_sessions',
+    help: 'Conversations that have not timed out',
+    registers: [metricsRegistry],
+    async collect() {
+      if (!countActiveSessions) {
+        return;
+      }
+      try {
+        this.set(await countActiveSessions());
+      } catch (error) {
+        // Keep the last value rather than failing the whole scrape
+        logger.warn('Failed to count active sessions', { error });
+      }
+    },
+  }),
+  restaurantCatalogueSize: new Gauge({
+    name: 'concierge_restaurant_catalogue_size',
+    help: 'Restaurants loaded into the enhanced agent catalogue',
+    registers: [metricsRegistry],
+  }),
+};
+
+export function recordBookingStep(step: BookingFunnelStep): void {
+  metrics.bookingFunnel.inc({ step });
+}
+
+// Counted on each scrape, so a Redis-backed store is only scanned when asked
+export function trackActiveSessions(count: () => Promise<number>): void {
+  countActiveSessions = count;
+}
+
+// GET /metrics in the Prometheus text format
+export function registerMetricsRoute(app: Express): void {
+  app.get('/metrics', async (req, res) => {
+    try {
+      res.set('Content-Type', metricsRegistry.contentType);
+      res.end(await metricsRegistry.metrics());
+    } catch (error) {
+      logger.error('Failed to collect metrics', { error });
+      res.status(500).end();
+    }
+  });
+}
@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+import type Redis from 'ioredis';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { createRedisClient } from './redis.js';
+import { createLogger } from './logger.js';
+import { metrics } from './metrics.js';
+
+const logger = createLogger('rate-limiter');
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // How long until the oldest hit leaves the window; 0 when allowed
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  // Counts a hit for `key` unless its window is already full; rejected hits
+  // aren't counted, so a flood doesn't extend its own block
+  consume(key: string): Promise<RateLimitResult>;
+  close(): Promise<void>;
+}
+
+export interface RateLimiterOptions {
+  redisUrl?: string;
+  redisPassword?: string;
+  redisDb?: number;
+  limit: number;
+  windowMs?: number;
+  keyPrefix?: string;
+}
+
+const DEFAULT_WINDOW_MS = 60 * 1000;
+
+// Sliding log: the timestamps of the hits inside the window, per key
+export class InMemoryRateLimiter implements RateLimiter {
+  private hits: Map<string, number[]> = new Map();
+  private limit: number;
+  private windowMs: number;
+  private lastSweep = Date.now();
+
+  constructor(limit: number, windowMs = DEFAULT_WINDOW_MS) {
+    this.limit = limit;
+    this.windowMs = windowMs;
+  }
+
+  async consume(key: string, now = Date.now()): Promise<RateLimitResult> {
+    this.sweep(now);
+
+    const hits = (this.hits.get(key) || []).filter(at => at > now - this.windowMs);
+    if (hits.length >= this.limit) {
+      this.hits.set(key, hits);
+      return { allowed: false, limit: this.limit, remaining: 0, retryAfterMs: hits[0] + this.windowMs - now };
+    }
+
+    hits.push(now);
+    this.hits.set(key, hits);
+    return { allowed: true, limit: this.limit, remaining: this.limit - hits.length, retryAfterMs: 0 };
+  }
+
+  async close(): Promise<void> {
+    this.hits.clear();
+  }
+
+  // Drops keys that have gone quiet, at most once per window
+  private sweep(now: number): void {
+    if (now - this.lastSweep < this.windowMs) {
+      return;
+    }
+    this.lastSweep = now;
+    for (const [key, hits] of this.hits) {
+      if (hits[hits.length - 1] <= now - this.windowMs) {
+        this.hits.delete(key);
+      }
+    }
+  }
+}
+
+// Trims the window, then records the hit only if there is room, atomically
+// so concurrent instances share one budget. Returns [allowed, count, oldest].
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+local count = redis.call('ZCARD', key)
+if count < limit then
+  redis.call('ZADD', key, now, ARGV[4])
+  redis.call('PEXPIRE', key, window)
+  return {1, count + 1, 0}
+end
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+return {0, count, tonumber(oldest[2])}
+`;
+
+export class RedisRateLimiter implements RateLimiter {
+  private redis: Redis;
+  private limit: number;
+  private windowMs: number;
+  private keyPrefix: string;
+
+  constructor(options: RateLimiterOptions & { redisUrl: string }) {
+    this.redis = createRedisClient(options, 'rate limiter');
+    this.limit = options.limit;
+    this.windowMs = options.windowMs || DEFAULT_WINDOW_MS;
+    this.keyPrefix = options.keyPrefix || 'concierge:ratelimit:';
+  }
+
+  async consume(key: string): Promise<RateLimitResult> {
+    const now = Date.now();
+    const member = `${now}:${crypto.randomBytes(4).toString('hex')}`;
+    const [allowed, count, oldest] = await this.redis.eval(
+      SLIDING_WINDOW_SCRIPT, 1, `${this.keyPrefix}${key}`, now, this.windowMs, this.limit, member
+    ) as [number, number, number];
+
+    return allowed === 1
+      ? { allowed: true, limit: this.limit, remaining: this.limit - count, retryAfterMs: 0 }
+      : { allowed: false, limit: this.limit, remaining: 0, retryAfterMs: Math.max(0, oldest + this.windowMs - now) };
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
+
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  if (options.redisUrl) {
+    return new RedisRateLimiter({ ...options, redisUrl: options.redisUrl });
+  }
+  return new InMemoryRateLimiter(options.limit, options.windowMs);
+}
+
+export function retryAfterSeconds(result: RateLimitResult): number {
+  return Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+}
+
+// Fails open: resolves null, letting the caller through, when the limiter's
+// backend is down. Rejections are counted in the metrics under `name`.
+export async function tryConsume(limiter: RateLimiter, name: string, key: string): Promise<RateLimitResult | null> {
+  try {
+    const result = await limiter.consume(`${name}:${key}`);
+    if (!result.allowed) {
+      metrics.rateLimited.inc({ limit: name });
+    }
+    return result;
+  } catch (error) {
+    logger.warn('Rate limiter unavailable; allowing request', { limit: name, error });
+    return null;
+  }
+}
+
+// The reply a user gets instead of silence when they flood the bot
+export function rateLimitNotice(result: RateLimitResult): string {
+  return `You're sending messages faster than I can keep up 😅 Please wait about ${retryAfterSeconds(result)} seconds and try again.`;
+}
+
+// Authenticated callers (mount after requireAdmin) share one budget wherever
+// they call from; everyone else is limited per IP. Headers that haven't been
+// verified never pick the key, or a client could rotate them for a fresh budget.
+// req.ip only honours X-Forwarded-For for the proxies 'trust proxy' names.
+export function apiClientKey(req: Request): string {
+  if (req.admin) {
+    return `admin:${req.admin.subject}`;
+  }
+  return `ip:${req.ip}`;
+}
+
+// Answers 429 with Retry-After once a client's budget for `name` is spent
+export function rateLimit(
+  name: string,
+  limiter: RateLimiter,
+  keyFor: (req: Request) => string = apiClientKey
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const result = await tryConsume(limiter, name, keyFor(req));
+    if (!result) {
+      next();
+      return;
+    }
+
+    res.set('RateLimit-Limit', String(result.limit));
+    res.set('RateLimit-Remaining', String(result.remaining));
+    if (!result.allowed) {
+      res.set('Retry-After', String(retryAfterSeconds(result)));
+      res.status(429).json({ error: 'Too many requests', retryAfterSeconds: retryAfterSeconds(result) });
+      return;
+    }
+
+    next();
+  };
+}
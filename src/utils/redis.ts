@@ -0,0 +1,23 @@
+import Redis from 'ioredis';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('redis');
+
+export interface RedisConnectionOptions {
+  redisUrl: string;
+  redisPassword?: string;
+  redisDb?: number;
+}
+
+export function createRedisClient(options: RedisConnectionOptions, label: string): Redis {
+  const redis = new Redis(options.redisUrl, {
+    password: options.redisPassword || undefined,
+    db: options.redisDb || 0,
+  });
+
+  redis.on('error', (error) => {
+    logger.error('Redis error', { client: label, error });
+  });
+
+  return redis;
+}
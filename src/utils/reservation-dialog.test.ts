@@ -0,0 +1,91 @@
+import { describe, expect, it } from '@jest/globals';
+import type { ConversationContext } from '../types/index.js';
+import { ReservationDialog } from './reservation-dialog.js';
+import { RegexIntentParser } from './intent-parser.js';
+import { DateTimeResolver } from './date-time-resolver.js';
+
+// Thursday, 11:00 in New York
+const NOW = new Date('2026-03-12T15:00:00Z');
+
+const resolver = new DateTimeResolver('America/New_York', () => NOW);
+const parser = new RegexIntentParser(resolver);
+const dialog = new ReservationDialog(
+  async (text) => parser.extractSlots(text),
+  async (date, time) => resolver.hasPassed(date, time)
+);
+
+function newContext(): ConversationContext {
+  return {
+    userId: '15550001111',
+    sessionId: 'session-1',
+    pendingReservation: {
+      restaurantId: 'place-bella-vista',
+      customerId: '15550001111',
+      contactInfo: { name: '', phone: '15550001111' },
+    },
+    messageHistory: [],
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+}
+
+describe('ReservationDialog', () => {
+  it('takes the details given in the opening message', async () => {
+    const context = newContext();
+
+    const result = await dialog.start(context, 'Bella Vista', 'book for 4 people tomorrow at 8pm');
+
+    expect(context.pendingReservation).toEqual(expect.objectContaining({ date: '2026-03-13', time: '20:00', partySize: 4 }));
+    expect(result).toEqual({ action: 'prompt', message: expect.stringContaining('What name') });
+  });
+
+  it('re-asks for an out-of-range party size in the opening message', async () => {
+    const context = newContext();
+
+    const result = await dialog.start(context, 'Bella Vista', 'book for 45 people tomorrow at 8pm');
+
+    expect(context.pendingReservation?.partySize).toBeUndefined();
+    expect(context.pendingReservation).toEqual(expect.objectContaining({ date: '2026-03-13', time: '20:00' }));
+    expect(result.action).toBe('prompt');
+    expect(result.action === 'prompt' && result.message).toMatch(
+      /^I can book tables for 1 to 20 people\.\n\n👥 How many people will be dining\?/
+    );
+    expect(context.reservationDialog?.step).toBe('partySize');
+  });
+
+  it('re-asks for an out-of-range party size given at another step', async () => {
+    const context = newContext();
+    await dialog.start(context, 'Bella Vista');
+
+    const result = await dialog.handleInput('tomorrow for 30 people', context);
+
+    expect(context.pendingReservation?.date).toBe('2026-03-13');
+    expect(context.pendingReservation?.partySize).toBeUndefined();
+    expect(result.action === 'prompt' && result.message).toMatch(/^I can book tables for 1 to 20 people\.\n\n⏰/);
+  });
+
+  it.each(['0', '25', '100'])('rejects %s as the party size answer', async (answer) => {
+    const context = newContext();
+    await dialog.start(context, 'Bella Vista', 'tomorrow at 8pm');
+
+    const result = await dialog.handleInput(answer, context);
+
+    expect(context.pendingReservation?.partySize).toBeUndefined();
+    expect(context.reservationDialog?.step).toBe('partySize');
+    expect(result.action === 'prompt' && result.message).toMatch(/^I can book tables for 1 to 20 people\./);
+
+    await dialog.handleInput('6', context);
+    expect(context.pendingReservation?.partySize).toBe(6);
+    expect(context.reservationDialog?.step).toBe('name');
+  });
+
+  it('does not read a time as the party size', async () => {
+    const context = newContext();
+
+    const result = await dialog.start(context, 'Bella Vista', 'a table tomorrow for 8pm');
+
+    expect(context.pendingReservation?.time).toBe('20:00');
+    expect(context.pendingReservation?.partySize).toBeUndefined();
+    expect(result).toEqual({ action: 'prompt', message: expect.stringContaining('How many people') });
+  });
+});
@@ -0,0 +1,358 @@
+import type { ConversationContext, ReservationSlot } from '../types/index.js';
+
+export interface ReservationSlotValues {
+  date?: string;
+  time?: string;
+  partySize?: number;
+  name?: string;
+  specialRequests?: string;
+  // Clarifying question for an ambiguous or past date/time
+  clarification?: string;
+}
+
+export type ReservationSlotExtractor = (text: string, context: ConversationContext) => Promise<ReservationSlotValues>;
+
+// Whether the chosen date and time are already behind the user's clock
+export type ReservationTimeCheck = (date: string, time: string, context: ConversationContext) => Promise<boolean>;
+
+export type ReservationDialogResult =
+  | { action: 'prompt'; message: string }
+  | { action: 'confirm'; message: string }
+  | { action: 'book' }
+  | { action: 'cancelled'; message: string };
+
+const SLOT_ORDER: ReservationSlot[] = ['date', 'time', 'partySize', 'name', 'specialRequests'];
+
+const SLOT_PROMPTS: Record<ReservationSlot, string> = {
+  date: "📅 What date would you like to book? (e.g., 'tomorrow', 'Friday', 'Dec 25')",
+  time: "⏰ What time would you like? (e.g., '7 PM', '19:30', 'half seven')",
+  partySize: '👥 How many people will be dining?',
+  name: '👤 What name should the reservation be under?',
+  specialRequests: "📝 Any special requests (occasion, dietary needs, seating)? Reply 'none' to skip.",
+};
+
+const SLOT_LABELS: Record<ReservationSlot, string[]> = {
+  date: ['date', 'day'],
+  time: ['time'],
+  partySize: ['party', 'party size', 'people', 'guests', 'size'],
+  name: ['name'],
+  specialRequests: ['request', 'requests', 'special requests', 'notes'],
+};
+
+const CANCEL_COMMANDS = ['cancel', 'stop', 'quit', 'exit', 'nevermind', 'never mind'];
+const RESTART_COMMANDS = ['start over', 'restart', 'reset'];
+const BACK_COMMANDS = ['back', 'go back', 'previous', 'undo'];
+const CONFIRM_COMMANDS = ['yes', 'y', 'yep', 'yeah', 'confirm', 'book', 'book it', 'ok', 'okay', 'sure'];
+const DECLINE_COMMANDS = ['no', 'n', 'nope', 'change'];
+const SKIP_COMMANDS = ['none', 'no', 'nope', 'nothing', 'skip', 'n/a', 'no thanks'];
+
+const MAX_PARTY_SIZE = 20;
+const NAVIGATION_HINT = "\n\nType 'back' to change your previous answer or 'cancel' to stop.";
+
+export class ReservationDialog {
+  constructor(private extractSlots: ReservationSlotExtractor, private hasPassed?: ReservationTimeCheck) {}
+
+  static isActive(context: ConversationContext): boolean {
+    return context.currentIntent === 'reservation' && !!context.reservationDialog && !!context.pendingReservation;
+  }
+
+  // Begins collecting slots for context.pendingReservation; any details already
+  // present in the opening message are applied before the first prompt
+  async start(context: ConversationContext, restaurantName?: string, openingText?: string): Promise<ReservationDialogResult> {
+    context.currentIntent = 'reservation';
+    context.reservationDialog = { step: SLOT_ORDER[0], history: [], restaurantName };
+
+    if (openingText) {
+      const values = await this.extractSlots(openingText, context);
+      const rejected = this.applySlots(context, values);
+
+      const passed = (values.date || values.time) && await this.rejectPastTime(context);
+      if (passed) {
+        return this.withNotice(rejected, passed);
+      }
+      if (rejected) {
+        return this.withNotice(rejected, this.advance(context));
+      }
+
+      if (values.clarification) {
+        const result = this.advance(context);
+        return result.action === 'prompt' ? { action: 'prompt', message: `${values.clarification}${NAVIGATION_HINT}` } : result;
+      }
+    }
+
+    return this.advance(context);
+  }
+
+  async handleInput(text: string, context: ConversationContext): Promise<ReservationDialogResult> {
+    const dialog = context.reservationDialog!;
+    const command = text.toLowerCase().trim().replace(/[.!]+$/, '');
+
+    if (CANCEL_COMMANDS.includes(command)) {
+      return this.cancel(context);
+    }
+
+    if (RESTART_COMMANDS.includes(command)) {
+      for (const slot of SLOT_ORDER) {
+        this.clearSlot(context, slot);
+      }
+      dialog.history = [];
+      return this.advance(context);
+    }
+
+    if (BACK_COMMANDS.includes(command)) {
+      return this.back(context);
+    }
+
+    if (dialog.step === 'confirm') {
+      // The clock may have moved past the slot while the user was deciding
+      const passed = CONFIRM_COMMANDS.includes(command) && await this.rejectPastTime(context);
+      return passed || this.handleConfirmation(command, context);
+    }
+
+    const step = dialog.step;
+    const answer = await this.interpretAnswer(step, text, context);
+
+    const rejected = this.applySlots(context, answer.values);
+
+    const passed = (answer.values.date || answer.values.time) && await this.rejectPastTime(context);
+    if (passed) {
+      return this.withNotice(rejected, passed);
+    }
+    if (rejected) {
+      return this.withNotice(rejected, this.advance(context));
+    }
+
+    if (!this.isSlotFilled(context, step)) {
+      if (answer.values.clarification) {
+        return { action: 'prompt', message: `${answer.values.clarification}${NAVIGATION_HINT}` };
+      }
+
+      return {
+        action: 'prompt',
+        message: `Sorry, I didn't catch that.\n\n${SLOT_PROMPTS[step]}${NAVIGATION_HINT}`,
+      };
+    }
+
+    return this.advance(context);
+  }
+
+  // Re-opens a single slot, e.g. when the restaurant rejects the requested time
+  reopenSlot(context: ConversationContext, slot: ReservationSlot): ReservationDialogResult {
+    this.clearSlot(context, slot);
+    return this.advance(context);
+  }
+
+  // Date and time can be answered separately or changed one at a time, so the
+  // pair is re-checked whenever either moves; a past slot re-opens the time
+  private async rejectPastTime(context: ConversationContext): Promise<ReservationDialogResult | undefined> {
+    const { date, time } = context.pendingReservation!;
+    if (!this.hasPassed || !date || !time || !(await this.hasPassed(date, time, context))) {
+      return undefined;
+    }
+
+    this.clearSlot(context, 'time');
+    const result = this.advance(context);
+    return result.action === 'prompt'
+      ? { action: 'prompt', message: `⏰ ${time} on ${date} has already passed. Please pick a later time.${NAVIGATION_HINT}` }
+      : result;
+  }
+
+  private async interpretAnswer(
+    step: ReservationSlot,
+    text: string,
+    context: ConversationContext
+  ): Promise<{ values: ReservationSlotValues }> {
+    const trimmed = text.trim();
+
+    switch (step) {
+      // Free-text slots take the whole reply verbatim
+      case 'name':
+        return { values: { name: trimmed.replace(/^(my name is|name is|under|it's|its)\s+/i, '') } };
+
+      case 'specialRequests':
+        return {
+          values: {
+            specialRequests: SKIP_COMMANDS.includes(trimmed.toLowerCase().replace(/[.!]+$/, '')) ? '' : trimmed,
+          },
+        };
+
+      case 'partySize': {
+        const values = await this.extractSlots(text, context);
+        if (values.partySize === undefined && /^\d{1,3}$/.test(trimmed)) {
+          values.partySize = parseInt(trimmed);
+        }
+        return { values };
+      }
+
+      default:
+        return { values: await this.extractSlots(text, context) };
+    }
+  }
+
+  private handleConfirmation(command: string, context: ConversationContext): ReservationDialogResult {
+    if (CONFIRM_COMMANDS.includes(command)) {
+      return { action: 'book' };
+    }
+
+    const slotToChange = SLOT_ORDER.find(slot =>
+      SLOT_LABELS[slot].some(label => command === label || command === `change ${label}` || command === `change the ${label}`)
+    );
+    if (slotToChange) {
+      return this.reopenSlot(context, slotToChange);
+    }
+
+    if (DECLINE_COMMANDS.includes(command)) {
+      return {
+        action: 'confirm',
+        message: "What would you like to change? Reply with 'date', 'time', 'party size', 'name' or 'special requests', or 'cancel' to stop.",
+      };
+    }
+
+    return this.confirmation(context);
+  }
+
+  private back(context: ConversationContext): ReservationDialogResult {
+    const dialog = context.reservationDialog!;
+    const previous = dialog.history.pop();
+
+    if (!previous || previous === 'confirm') {
+      return { action: 'prompt', message: `There's nothing to go back to.\n\n${this.promptFor(dialog.step)}` };
+    }
+
+    this.clearSlot(context, previous);
+    return this.advance(context);
+  }
+
+  private cancel(context: ConversationContext): ReservationDialogResult {
+    context.pendingReservation = undefined;
+    context.reservationDialog = undefined;
+    context.currentIntent = undefined;
+
+    return {
+      action: 'cancelled',
+      message: "❌ Reservation cancelled. Type 'search' to find another restaurant or 'help' for more options.",
+    };
+  }
+
+  private advance(context: ConversationContext): ReservationDialogResult {
+    const dialog = context.reservationDialog!;
+    const missing = SLOT_ORDER.find(slot => !this.isSlotFilled(context, slot));
+
+    if (missing) {
+      dialog.step = missing;
+      return { action: 'prompt', message: `${SLOT_PROMPTS[missing]}${NAVIGATION_HINT}` };
+    }
+
+    dialog.step = 'confirm';
+    return this.confirmation(context);
+  }
+
+  private confirmation(context: ConversationContext): ReservationDialogResult {
+    const reservation = context.pendingReservation!;
+    const partySize = reservation.partySize!;
+
+    let message = `📋 **Please confirm your reservation**\n\n`;
+    if (context.reservationDialog?.restaurantName) {
+      message += `🍽️ **Restaurant:** ${context.reservationDialog.restaurantName}\n`;
+    }
+    message += `📅 **Date:** ${reservation.date}\n`;
+    message += `⏰ **Time:** ${reservation.time}\n`;
+    message += `👥 **Party Size:** ${partySize} ${partySize === 1 ? 'person' : 'people'}\n`;
+    message += `👤 **Name:** ${reservation.contactInfo?.name}\n`;
+    message += `📝 **Special Requests:** ${reservation.specialRequests || 'None'}\n\n`;
+    message += `Reply 'yes' to book, name a detail to change it (e.g. 'time'), or 'cancel' to stop.`;
+
+    return { action: 'confirm', message };
+  }
+
+  private promptFor(step: ReservationSlot | 'confirm'): string {
+    return step === 'confirm' ? "Reply 'yes' to book or 'cancel' to stop." : `${SLOT_PROMPTS[step]}${NAVIGATION_HINT}`;
+  }
+
+  // Puts a prompt after a note about an answer that was turned down
+  private withNotice(notice: string | undefined, result: ReservationDialogResult): ReservationDialogResult {
+    return notice && result.action === 'prompt' ? { action: 'prompt', message: `${notice}\n\n${result.message}` } : result;
+  }
+
+  // Returns why a value was turned down; that slot is left as it was, so the
+  // dialog asks for it again
+  private applySlots(context: ConversationContext, values: ReservationSlotValues): string | undefined {
+    const reservation = context.pendingReservation!;
+    const dialog = context.reservationDialog!;
+
+    const assign = (slot: ReservationSlot, apply: () => void) => {
+      const wasFilled = this.isSlotFilled(context, slot);
+      apply();
+      if (!wasFilled && this.isSlotFilled(context, slot)) {
+        dialog.history.push(slot);
+      }
+    };
+
+    if (values.date) assign('date', () => { reservation.date = values.date; });
+    if (values.time) assign('time', () => { reservation.time = values.time; });
+    let rejected: string | undefined;
+    if (values.partySize !== undefined) {
+      if (values.partySize < 1 || values.partySize > MAX_PARTY_SIZE) {
+        rejected = `I can book tables for 1 to ${MAX_PARTY_SIZE} people.`;
+      } else {
+        assign('partySize', () => { reservation.partySize = values.partySize; });
+      }
+    }
+    if (values.name) {
+      assign('name', () => {
+        reservation.contactInfo = { ...reservation.contactInfo, phone: reservation.contactInfo?.phone || context.userId, name: values.name! };
+      });
+    }
+    if (values.specialRequests !== undefined) {
+      assign('specialRequests', () => { reservation.specialRequests = values.specialRequests; });
+    }
+    return rejected;
+  }
+
+  private clearSlot(context: ConversationContext, slot: ReservationSlot): void {
+    const reservation = context.pendingReservation!;
+    const dialog = context.reservationDialog!;
+    dialog.history = dialog.history.filter(step => step !== slot);
+
+    switch (slot) {
+      case 'date':
+        reservation.date = undefined;
+        break;
+      case 'time':
+        reservation.time = undefined;
+        break;
+      case 'partySize':
+        reservation.partySize = undefined;
+        break;
+      case 'name':
+        if (reservation.contactInfo) {
+          reservation.contactInfo = { ...reservation.contactInfo, name: '' };
+        }
+        break;
+      case 'specialRequests':
+        reservation.specialRequests = undefined;
+        break;
+    }
+  }
+
+  // An empty specialRequests string means the user explicitly declined
+  private isSlotFilled(context: ConversationContext, slot: ReservationSlot): boolean {
+    const reservation = context.pendingReservation;
+    if (!reservation) {
+      return false;
+    }
+
+    switch (slot) {
+      case 'date':
+        return !!reservation.date;
+      case 'time':
+        return !!reservation.time;
+      case 'partySize':
+        return !!reservation.partySize;
+      case 'name':
+        return !!reservation.contactInfo?.name;
+      case 'specialRequests':
+        return reservation.specialRequests !== undefined;
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import type Redis from 'ioredis';
+import type { ConversationContext } from '../types/index.js';
+import { createRedisClient } from './redis.js';
+
+export interface SessionStore {
+  get(userId: string): Promise<ConversationContext | null>;
+  set(context: ConversationContext): Promise<void>;
+  delete(userId: string): Promise<void>;
+  // Sessions that have not timed out
+  list(): Promise<ConversationContext[]>;
+  count(): Promise<number>;
+  close(): Promise<void>;
+}
+
+export interface SessionStoreOptions {
+  redisUrl?: string;
+  redisPassword?: string;
+  redisDb?: number;
+  sessionTimeoutMinutes?: number;
+  keyPrefix?: string;
+}
+
+const DEFAULT_SESSION_TIMEOUT_MINUTES = 60;
+
+// Dates don't survive a JSON round-trip, so revive them on read
+function serializeContext(context: ConversationContext): string {
+  return JSON.stringify(context);
+}
+
+function deserializeContext(raw: string): ConversationContext {
+  const data = JSON.parse(raw);
+  return {
+    ...data,
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt),
+    messageHistory: data.messageHistory || [],
+  };
+}
+
+export class InMemorySessionStore implements SessionStore {
+  private sessions: Map<string, ConversationContext> = new Map();
+  private timeoutMs: number;
+
+  constructor(sessionTimeoutMinutes = DEFAULT_SESSION_TIMEOUT_MINUTES) {
+    this.timeoutMs = sessionTimeoutMinutes * 60 * 1000;
+  }
+
+  async get(userId: string): Promise<ConversationContext | null> {
+    const context = this.sessions.get(userId);
+    if (!context) {
+      return null;
+    }
+
+    if (Date.now() - new Date(context.updatedAt).getTime() > this.timeoutMs) {
+      this.sessions.delete(userId);
+      return null;
+    }
+
+    return context;
+  }
+
+  async set(context: ConversationContext): Promise<void> {
+    this.sessions.set(context.userId, context);
+  }
+
+  async delete(userId: string): Promise<void> {
+    this.sessions.delete(userId);
+  }
+
+  async list(): Promise<ConversationContext[]> {
+    this.pruneExpired();
+    return Array.from(this.sessions.values());
+  }
+
+  async count(): Promise<number> {
+    this.pruneExpired();
+    return this.sessions.size;
+  }
+
+  private pruneExpired(): void {
+    for (const [userId, context] of this.sessions) {
+      if (Date.now() - new Date(context.updatedAt).getTime() > this.timeoutMs) {
+        this.sessions.delete(userId);
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    this.sessions.clear();
+  }
+}
+
+export class RedisSessionStore implements SessionStore {
+  private redis: Redis;
+  private ttlSeconds: number;
+  private keyPrefix: string;
+
+  constructor(options: SessionStoreOptions & { redisUrl: string }) {
+    this.redis = createRedisClient(options, 'session store');
+    this.ttlSeconds = (options.sessionTimeoutMinutes || DEFAULT_SESSION_TIMEOUT_MINUTES) * 60;
+    this.keyPrefix = options.keyPrefix || 'concierge:session:';
+  }
+
+  private key(userId: string): string {
+    return `${this.keyPrefix}${userId}`;
+  }
+
+  async get(userId: string): Promise<ConversationContext | null> {
+    const raw = await this.redis.get(this.key(userId));
+    return raw ? deserializeContext(raw) : null;
+  }
+
+  async set(context: ConversationContext): Promise<void> {
+    // Every write refreshes the TTL, so SESSION_TIMEOUT is measured from the last message
+    await this.redis.set(this.key(context.userId), serializeContext(context), 'EX', this.ttlSeconds);
+  }
+
+  async delete(userId: string): Promise<void> {
+    await this.redis.del(this.key(userId));
+  }
+
+  async list(): Promise<ConversationContext[]> {
+    const keys = await this.sessionKeys();
+    if (keys.length === 0) {
+      return [];
+    }
+    // A session can expire between the scan and the read
+    const values = await this.redis.mget(...keys);
+    return values.filter((raw): raw is string => raw !== null).map(deserializeContext);
+  }
+
+  async count(): Promise<number> {
+    return (await this.sessionKeys()).length;
+  }
+
+  // Expired sessions are gone already thanks to the TTL
+  private async sessionKeys(): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await this.redis.scan(cursor, 'MATCH', `${this.keyPrefix}*`, 'COUNT', 1000);
+      cursor = next;
+      keys.push(...batch);
+    } while (cursor !== '0');
+    return keys;
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
+
+export function createSessionStore(options: SessionStoreOptions = {}): SessionStore {
+  if (options.redisUrl) {
+    return new RedisSessionStore({ ...options, redisUrl: options.redisUrl });
+  }
+  return new InMemorySessionStore(options.sessionTimeoutMinutes);
+}
@@ -0,0 +1,88 @@
+import axios from 'axios';
+import crypto from 'crypto';
+
+export interface SpeechToText {
+  // Returns the transcript, or an empty string when nothing could be made out
+  transcribe(audio: Buffer, mimeType: string): Promise<string>;
+}
+
+export interface OpenAISpeechToTextConfig {
+  apiKey: string;
+  model?: string;
+  baseUrl?: string;
+  language?: string;
+  timeoutMs?: number;
+}
+
+// WhatsApp voice notes are Ogg/Opus; Whisper infers the format from the file name
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'm4a',
+  'audio/amr': 'amr',
+};
+
+export class OpenAISpeechToText implements SpeechToText {
+  private config: OpenAISpeechToTextConfig;
+
+  constructor(config: OpenAISpeechToTextConfig) {
+    this.config = config;
+  }
+
+  async transcribe(audio: Buffer, mimeType: string): Promise<string> {
+    const baseMimeType = mimeType.split(';')[0].trim();
+    const extension = FILE_EXTENSIONS[baseMimeType] || 'ogg';
+
+    const form = new FormData();
+    form.append('file', new Blob([audio], { type: baseMimeType }), `voice-note.${extension}`);
+    form.append('model', this.config.model || 'whisper-1');
+    if (this.config.language) {
+      form.append('language', this.config.language);
+    }
+
+    const response = await axios.post(
+      `${this.config.baseUrl || 'https://api.openai.com/v1'}/audio/transcriptions`,
+      form,
+      {
+        headers: { 'Authorization': `Bearer ${this.config.apiKey}` },
+        timeout: this.config.timeoutMs || 30000,
+      }
+    );
+
+    return (response.data.text || '').trim();
+  }
+}
+
+// Offline provider for local runs and scripted conversations: transcripts are
+// looked up by the SHA-256 of the audio, with a fixed fallback
+export class StubSpeechToText implements SpeechToText {
+  private transcripts: Map<string, string>;
+  private defaultTranscript: string;
+
+  constructor(transcripts: Record<string, string> = {}, defaultTranscript = '') {
+    this.transcripts = new Map(Object.entries(transcripts));
+    this.defaultTranscript = defaultTranscript;
+  }
+
+  async transcribe(audio: Buffer): Promise<string> {
+    const digest = crypto.createHash('sha256').update(audio).digest('hex');
+    return this.transcripts.get(digest) ?? this.defaultTranscript;
+  }
+}
+
+export function createSpeechToText(config: {
+  provider?: string;
+  openai?: { apiKey: string; baseUrl?: string };
+  model?: string;
+  language?: string;
+  stubTranscript?: string;
+}): SpeechToText | undefined {
+  if (config.provider === 'stub') {
+    return new StubSpeechToText({}, config.stubTranscript);
+  }
+  if (config.openai && (!config.provider || config.provider === 'openai')) {
+    return new OpenAISpeechToText({ ...config.openai, model: config.model, language: config.language });
+  }
+  return undefined;
+}
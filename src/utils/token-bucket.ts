@@ -0,0 +1,68 @@
+export class TokenBucket {
+  private capacity: number;
+  private refillPerSecond: number;
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(capacity: number, refillPerSecond: number, now = Date.now()) {
+    this.capacity = capacity;
+    this.refillPerSecond = refillPerSecond;
+    this.tokens = capacity;
+    this.lastRefill = now;
+  }
+
+  // Takes a token and returns how many ms to wait before using it. Tokens may
+  // go negative, so concurrent callers queue up behind each other fairly.
+  reserve(now = Date.now()): number {
+    this.refill(now);
+    this.tokens -= 1;
+    return this.tokens >= 0 ? 0 : Math.ceil((-this.tokens / this.refillPerSecond) * 1000);
+  }
+
+  isFull(now = Date.now()): boolean {
+    this.refill(now);
+    return this.tokens >= this.capacity;
+  }
+
+  private refill(now: number): void {
+    const elapsedSeconds = Math.max(0, now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+// One bucket per key (e.g. per recipient). Buckets that have refilled
+// completely carry no state and are dropped once there are too many.
+export class KeyedTokenBuckets {
+  private buckets: Map<string, TokenBucket> = new Map();
+  private capacity: number;
+  private refillPerSecond: number;
+  private maxKeys: number;
+
+  constructor(capacity: number, refillPerSecond: number, maxKeys = 10000) {
+    this.capacity = capacity;
+    this.refillPerSecond = refillPerSecond;
+    this.maxKeys = maxKeys;
+  }
+
+  reserve(key: string, now = Date.now()): number {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      this.evictIdle(now);
+      bucket = new TokenBucket(this.capacity, this.refillPerSecond, now);
+      this.buckets.set(key, bucket);
+    }
+    return bucket.reserve(now);
+  }
+
+  private evictIdle(now: number): void {
+    if (this.buckets.size < this.maxKeys) {
+      return;
+    }
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.isFull(now)) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
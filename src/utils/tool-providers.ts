@@ -0,0 +1,334 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import { createLogger, currentLogContext } from './logger.js';
+import { metrics } from './metrics.js';
+
+const logger = createLogger('tool-providers');
+
+// The part of an MCP client the agent uses
+export type McpToolClient = Pick<Client, 'callTool'>;
+
+export type McpServerName = 'googlePlaces' | 'openTable' | 'customerPreferences';
+
+export type ToolProviderState = 'stopped' | 'starting' | 'ready' | 'restarting' | 'failed';
+
+export interface ToolProviderStatus {
+  state: ToolProviderState;
+  restarts: number;
+  lastError?: string;
+  since: string;
+}
+
+// Where the agent's MCP tools come from: a spawned server, one hosted
+// in-process, or a stub. start() resolves once tools can be called.
+export interface ToolProvider extends McpToolClient {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  status(): ToolProviderStatus;
+}
+
+export type ToolProviders = Partial<Record<McpServerName, ToolProvider>>;
+
+// An MCP server that can be connected to a transport in this process
+export interface McpServerHost {
+  connect(transport: Transport): Promise<void>;
+  close(): Promise<void>;
+}
+
+const CLIENT_INFO = { name: 'restaurant-concierge', version: '1.0.0' };
+
+type CallToolArgs = Parameters<McpToolClient['callTool']>;
+type CallToolResult = ReturnType<McpToolClient['callTool']>;
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Hands the current correlation id to the server in the request's _meta so
+// its logs line up with ours
+async function callToolWithContext(server: string, client: Client, ...[params, resultSchema, options]: CallToolArgs): CallToolResult {
+  const correlationId = currentLogContext()?.correlationId;
+  const request = correlationId ? { ...params, _meta: { ...params._meta, correlationId } } : params;
+  const labels = { server, tool: params.name };
+  const startedAt = Date.now();
+
+  try {
+    const result = await client.callTool(request, resultSchema, options);
+    if (result.isError) {
+      metrics.mcpToolCallErrors.inc(labels);
+    }
+    logger.debug('MCP tool call', { server, tool: params.name, durationMs: Date.now() - startedAt });
+    return result;
+  } catch (error) {
+    metrics.mcpToolCallErrors.inc(labels);
+    logger.warn('MCP tool call failed', { server, tool: params.name, durationMs: Date.now() - startedAt, error });
+    throw error;
+  } finally {
+    metrics.mcpToolCallDuration.observe(labels, (Date.now() - startedAt) / 1000);
+  }
+}
+
+// Wraps a ready-made client, e.g. a test stub; it is always ready
+export class StaticToolProvider implements ToolProvider {
+  private client: McpToolClient;
+  private since = new Date().toISOString();
+
+  constructor(client: McpToolClient) {
+    this.client = client;
+  }
+
+  async start(): Promise<void> {}
+
+  async stop(): Promise<void> {}
+
+  status(): ToolProviderStatus {
+    return { state: 'ready', restarts: 0, since: this.since };
+  }
+
+  callTool(...args: CallToolArgs): CallToolResult {
+    return this.client.callTool(...args);
+  }
+}
+
+// Runs the MCP server inside the agent's process over an in-memory transport
+export class InProcessToolProvider implements ToolProvider {
+  private name: string;
+  private createServer: () => McpServerHost | Promise<McpServerHost>;
+  private server?: McpServerHost;
+  private client?: Client;
+  private state: ToolProviderState = 'stopped';
+  private lastError?: string;
+  private since = new Date().toISOString();
+
+  constructor(name: string, createServer: () => McpServerHost | Promise<McpServerHost>) {
+    this.name = name;
+    this.createServer = createServer;
+  }
+
+  async start(): Promise<void> {
+    this.setState('starting');
+    try {
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      this.server = await this.createServer();
+      await this.server.connect(serverTransport);
+
+      const client = new Client(CLIENT_INFO, { capabilities: {} });
+      await client.connect(clientTransport);
+      this.client = client;
+      this.setState('ready');
+    } catch (error) {
+      this.lastError = describeError(error);
+      this.setState('failed');
+      throw error;
+    }
+  }
+
+  async stop(): Promise<void> {
+    const { client, server } = this;
+    this.client = undefined;
+    this.server = undefined;
+    this.setState('stopped');
+    await client?.close();
+    await server?.close();
+  }
+
+  status(): ToolProviderStatus {
+    return { state: this.state, restarts: 0, lastError: this.lastError, since: this.since };
+  }
+
+  callTool(...args: CallToolArgs): CallToolResult {
+    if (!this.client) {
+      return Promise.reject(new Error(`MCP server ${this.name} is ${this.state}`));
+    }
+    return callToolWithContext(this.name, this.client, ...args);
+  }
+
+  private setState(state: ToolProviderState): void {
+    this.state = state;
+    this.since = new Date().toISOString();
+  }
+}
+
+export interface StdioToolProviderOptions {
+  name: string;
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  // Consecutive failed restarts before giving up
+  maxRestarts?: number;
+  restartDelayMs?: number;
+  maxRestartDelayMs?: number;
+}
+
+// Spawns the MCP server as a child process over stdio and restarts it, with
+// backoff, when it exits unexpectedly. Calls made while it restarts fail as
+// connection-closed so the message queue retries them.
+export class StdioToolProvider implements ToolProvider {
+  private options: Required<Omit<StdioToolProviderOptions, 'env'>> & { env?: Record<string, string> };
+  private client?: Client;
+  private state: ToolProviderState = 'stopped';
+  private restarts = 0;
+  private consecutiveFailures = 0;
+  private lastError?: string;
+  private since = new Date().toISOString();
+  private restartTimer?: NodeJS.Timeout;
+
+  constructor(options: StdioToolProviderOptions) {
+    this.options = {
+      args: [],
+      maxRestarts: 5,
+      restartDelayMs: 1000,
+      maxRestartDelayMs: 30000,
+      ...options,
+    };
+  }
+
+  async start(): Promise<void> {
+    if (this.state === 'ready' || this.state === 'starting') {
+      return;
+    }
+    clearTimeout(this.restartTimer);
+    this.consecutiveFailures = 0;
+    await this.connect();
+  }
+
+  async stop(): Promise<void> {
+    clearTimeout(this.restartTimer);
+    const client = this.client;
+    this.client = undefined;
+    this.setState('stopped');
+    await client?.close();
+  }
+
+  status(): ToolProviderStatus {
+    return { state: this.state, restarts: this.restarts, lastError: this.lastError, since: this.since };
+  }
+
+  callTool(...args: CallToolArgs): CallToolResult {
+    if (this.client) {
+      return callToolWithContext(this.options.name, this.client, ...args);
+    }
+
+    const message = `MCP server ${this.options.name} is ${this.state}`;
+    const recovering = this.state === 'starting' || this.state === 'restarting';
+    return Promise.reject(recovering ? new McpError(ErrorCode.ConnectionClosed, message) : new Error(message));
+  }
+
+  private async connect(): Promise<void> {
+    this.setState(this.state === 'restarting' ? 'restarting' : 'starting');
+
+    const client = new Client(CLIENT_INFO, { capabilities: {} });
+    client.onclose = () => this.handleClose(client);
+
+    try {
+      await client.connect(new StdioClientTransport({
+        command: this.options.command,
+        args: this.options.args,
+        env: this.options.env || (process.env as Record<string, string>),
+      }));
+    } catch (error) {
+      this.lastError = describeError(error);
+      // The process may have spawned before the handshake failed
+      await client.close().catch(() => {});
+      if (this.state !== 'stopped') {
+        this.scheduleRestart();
+      }
+      throw error;
+    }
+
+    if (this.state === 'stopped') {
+      await client.close();
+      return;
+    }
+
+    this.client = client;
+    this.consecutiveFailures = 0;
+    this.setState('ready');
+    logger.info('MCP server ready', { server: this.options.name });
+  }
+
+  private handleClose(client: Client): void {
+    // Ignore handshakes that failed (handled in connect) and deliberate stops
+    if (client !== this.client) {
+      return;
+    }
+
+    this.client = undefined;
+    this.lastError = 'Process exited';
+    logger.error('MCP server exited unexpectedly', { server: this.options.name });
+    this.scheduleRestart();
+  }
+
+  private scheduleRestart(): void {
+    if (this.consecutiveFailures >= this.options.maxRestarts) {
+      logger.error('MCP server failed to restart; giving up', { server: this.options.name, attempts: this.consecutiveFailures });
+      this.setState('failed');
+      return;
+    }
+
+    const delay = Math.min(
+      this.options.restartDelayMs * 2 ** this.consecutiveFailures,
+      this.options.maxRestartDelayMs
+    );
+    this.consecutiveFailures++;
+    this.setState('restarting');
+
+    this.restartTimer = setTimeout(() => {
+      this.restarts++;
+      this.connect().catch((error) => {
+        logger.error('Failed to restart MCP server', { server: this.options.name, error });
+      });
+    }, delay);
+    this.restartTimer.unref();
+  }
+
+  private setState(state: ToolProviderState): void {
+    if (state !== this.state) {
+      this.state = state;
+      this.since = new Date().toISOString();
+    }
+  }
+}
+
+const SERVER_MODULES: Record<McpServerName, string> = {
+  googlePlaces: 'google-places',
+  openTable: 'opentable',
+  customerPreferences: 'customer-preferences',
+};
+
+// Finds the compiled server next to this module, falling back to the
+// TypeScript source through tsx when running from src/
+function serverCommand(module: string): { command: string; args: string[] } {
+  const compiled = fileURLToPath(new URL(`../mcp-servers/${module}.js`, import.meta.url));
+  if (fs.existsSync(compiled)) {
+    return { command: process.execPath, args: [compiled] };
+  }
+
+  const source = fileURLToPath(new URL(`../mcp-servers/${module}.ts`, import.meta.url));
+  return { command: process.execPath, args: ['--import', 'tsx', source] };
+}
+
+export function createStdioToolProviders(options: Partial<StdioToolProviderOptions> = {}): ToolProviders {
+  const providers: ToolProviders = {};
+  for (const [name, module] of Object.entries(SERVER_MODULES) as Array<[McpServerName, string]>) {
+    providers[name] = new StdioToolProvider({ ...options, name, ...serverCommand(module) });
+  }
+  return providers;
+}
+
+// Hosts the servers in this process; no build or child processes needed
+export function createInProcessToolProviders(): ToolProviders {
+  return {
+    googlePlaces: new InProcessToolProvider('googlePlaces', async () =>
+      new (await import('../mcp-servers/google-places.js')).GooglePlacesServer()),
+    openTable: new InProcessToolProvider('openTable', async () =>
+      new (await import('../mcp-servers/opentable.js')).OpenTableServer()),
+    customerPreferences: new InProcessToolProvider('customerPreferences', async () =>
+      new (await import('../mcp-servers/customer-preferences.js')).CustomerPreferencesServer()),
+  };
+}
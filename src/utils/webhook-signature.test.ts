@@ -0,0 +1,69 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import type { Request, Response } from 'express';
+import { requireWebhookSignature, signWebhookPayload, verifyWebhookSignature } from './webhook-signature.js';
+
+const SECRET = 'meta-app-secret';
+const BODY = Buffer.from(JSON.stringify({ object: 'whatsapp_business_account', entry: [] }));
+
+describe('verifyWebhookSignature', () => {
+  it('accepts the signature Meta computes over the raw body', () => {
+    expect(verifyWebhookSignature(BODY, signWebhookPayload(BODY, SECRET), SECRET)).toBe(true);
+  });
+
+  it('rejects a signature made with another secret', () => {
+    expect(verifyWebhookSignature(BODY, signWebhookPayload(BODY, 'other-secret'), SECRET)).toBe(false);
+  });
+
+  it('rejects a body changed after signing', () => {
+    const signature = signWebhookPayload(BODY, SECRET);
+    expect(verifyWebhookSignature(Buffer.from(`${BODY.toString()} `), signature, SECRET)).toBe(false);
+  });
+
+  it.each([
+    ['missing', undefined],
+    ['without the sha256= prefix', signWebhookPayload(BODY, SECRET).slice('sha256='.length)],
+    ['truncated', signWebhookPayload(BODY, SECRET).slice(0, 20)],
+    ['not hex', 'sha256=not-a-signature'],
+  ])('rejects a header that is %s', (_case, header) => {
+    expect(verifyWebhookSignature(BODY, header, SECRET)).toBe(false);
+  });
+});
+
+describe('requireWebhookSignature', () => {
+  function deliver(secret: string | undefined, rawBody: Buffer | undefined, signature?: string) {
+    const req = { rawBody, get: (name: string) => (name === 'x-hub-signature-256' ? signature : undefined) } as unknown as Request;
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() };
+    const next = jest.fn();
+
+    requireWebhookSignature(secret)(req, res as unknown as Response, next);
+    return { res, next };
+  }
+
+  it('passes a correctly signed delivery on', () => {
+    const { res, next } = deliver(SECRET, BODY, signWebhookPayload(BODY, SECRET));
+    expect(next).toHaveBeenCalled();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it('refuses a delivery with a bad signature', () => {
+    const { res, next } = deliver(SECRET, BODY, signWebhookPayload(BODY, 'other-secret'));
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+
+  it('refuses a delivery whose raw body was not captured', () => {
+    const { res, next } = deliver(SECRET, undefined, signWebhookPayload(BODY, SECRET));
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+
+  it.each([
+    ['unset', undefined],
+    ['the .env.example placeholder', 'your_webhook_secret_here'],
+  ])('refuses every delivery when the secret is %s', (_case, secret) => {
+    // Signed with the placeholder itself, which anyone can read
+    const { res, next } = deliver(secret, BODY, signWebhookPayload(BODY, 'your_webhook_secret_here'));
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
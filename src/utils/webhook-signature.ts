@@ -0,0 +1,68 @@
+import crypto from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { isPlaceholder } from './config.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('webhook-signature');
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
+
+const SIGNATURE_HEADER = 'x-hub-signature-256';
+const SIGNATURE_PREFIX = 'sha256=';
+
+// Passed as the `verify` option of express.json() so the exact bytes Meta
+// signed are still available after the body has been parsed
+export function captureRawBody(req: IncomingMessage, _res: unknown, buf: Buffer): void {
+  (req as Request).rawBody = buf;
+}
+
+export function verifyWebhookSignature(rawBody: Buffer, signatureHeader: string | undefined, secret: string): boolean {
+  if (!signatureHeader || !signatureHeader.startsWith(SIGNATURE_PREFIX)) {
+    return false;
+  }
+
+  const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+  const received = signatureHeader.slice(SIGNATURE_PREFIX.length);
+
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  const receivedBuffer = Buffer.from(received, 'hex');
+
+  return expectedBuffer.length === receivedBuffer.length && crypto.timingSafeEqual(expectedBuffer, receivedBuffer);
+}
+
+export function signWebhookPayload(rawBody: Buffer | string, secret: string): string {
+  return `${SIGNATURE_PREFIX}${crypto.createHmac('sha256', secret).update(rawBody).digest('hex')}`;
+}
+
+// Rejects webhook deliveries whose X-Hub-Signature-256 doesn't match the body.
+// Fails closed: without a configured secret every delivery is refused, and the
+// public .env.example placeholder doesn't count as one.
+export function requireWebhookSignature(configured = process.env.WEBHOOK_SECRET): RequestHandler {
+  const secret = configured && !isPlaceholder(configured) ? configured : undefined;
+  if (!secret) {
+    logger.error('WEBHOOK_SECRET is not set or is the placeholder - all WhatsApp webhook deliveries will be rejected');
+  }
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!secret || !req.rawBody) {
+      res.status(401).json({ error: 'Invalid signature' });
+      return;
+    }
+
+    if (!verifyWebhookSignature(req.rawBody, req.get(SIGNATURE_HEADER), secret)) {
+      logger.warn('Rejected WhatsApp webhook with missing or invalid signature');
+      res.status(401).json({ error: 'Invalid signature' });
+      return;
+    }
+
+    next();
+  };
+}